@@ -8,6 +8,7 @@ export type SlackAppEnv = LoggingEnv & {
   SLACK_SIGNING_SECRET?: string;
   SLACK_BOT_TOKEN?: string;
   SLACK_APP_TOKEN?: string;
+  SLACK_VALUE_SIGNING_SECRET?: string;
 };
 
 export type SlackEdgeAppEnv = SlackAppEnv & {
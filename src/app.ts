@@ -1,4 +1,4 @@
-import { isDebugLogEnabled, prettyPrint, ResponseUrlSender, SlackAPIClient } from "slack-web-api-client";
+import { isDebugLogEnabled, ManifestParams, prettyPrint, ResponseUrlSender, SlackAPIClient } from "slack-web-api-client";
 import { SlackAppEnv, SlackEdgeAppEnv, SlackSocketModeAppEnv } from "./app-env";
 import {
   Assistant,
@@ -10,24 +10,48 @@ import {
 import { AssistantThreadContext } from "./assistant/thread-context";
 import { AssistantThreadContextStore, DefaultAssistantThreadContextStore } from "./assistant/thread-context-store";
 import { Authorize } from "./authorization/authorize";
+import { AuthorizeCache, cachedAuthorize } from "./authorization/authorize-cache";
 import { AuthorizeErrorHandler, buildDefaultAuthorizeErrorHanlder } from "./authorization/authorize-error-handler";
 import { AuthorizeResult } from "./authorization/authorize-result";
 import { singleTeamAuthorize } from "./authorization/single-team-authorize";
+import {
+  buildCommandUsage,
+  buildCommandUsageHint,
+  hasMentionArguments,
+  isSlashCommandDefinition,
+  parseCommandText,
+  SlashCommandDefinition,
+} from "./command/command-definition";
+import { FormFields, FormReadResult, FormValues, isModalFormDefinition, ModalFormDefinition, readFormValues } from "./form/form-definition";
 import {
   builtBaseContext,
   isAssitantThreadEvent,
   SlackAppContext,
   SlackAppContextWithAssistantUtilities,
   SlackAppContextWithChannelId,
+  SlackAppContextWithFunctionUtilities,
   SlackAppContextWithRespond,
 } from "./context/context";
-import { AuthorizeError, ConfigError } from "./errors";
+import { EventDeduplicationStore, RetryPolicy } from "./deduplication/event-deduplication-store";
+import { AuthorizeError, ConfigError, FunctionParameterValidationError } from "./errors";
 import { ExecutionContext, NoopExecutionContext } from "./execution-context";
 import {
+  FunctionParameters,
+  FunctionParameterValues,
+  isSlackFunctionDefinition,
+  SlackFunctionDefinition,
+  validateFunctionParameters,
+} from "./function/function-definition";
+import { ChainedSlackFunction, chainSlackFunction, SlackFunction } from "./function/slack-function";
+import {
+  AckResponse,
   BlockActionAckHandler,
   BlockActionLazyHandler,
   BlockSuggestionAckHandler,
   EventLazyHandler,
+  FormSubmissionAckHandler,
+  FormSubmissionLazyHandler,
+  FunctionExecutedLazyHandler,
   GlobalShortcutAckHandler,
   GlobalShortcutLazyHandler,
   MessageEventLazyHandler,
@@ -38,6 +62,8 @@ import {
   SlackHandler,
   SlashCommandAckHandler,
   SlashCommandLazyHandler,
+  SlashCommandWithArgsAckHandler,
+  SlashCommandWithArgsLazyHandler,
   SourceSpecifiedBlockActionAckHandler,
   SourceSpecifiedBlockActionLazyHandler,
   ViewAckHandler,
@@ -47,30 +73,79 @@ import {
   ViewSubmissionAckHandler,
   ViewSubmissionLazyHandler,
   AppRateLimitedLazyHandler,
+  WithMatchedGroups,
 } from "./handler/handler";
-import { SlackMessageHandler } from "./handler/message-handler";
-import { SlackOptionsHandler } from "./handler/options-handler";
-import { SlackViewHandler } from "./handler/view-handler";
-import { ignoringSelfEvents, urlVerification } from "./middleware/built-in-middleware";
-import { Middleware, PreAuthorizeMiddleware } from "./middleware/middleware";
+import { AckTimeoutHandler, defaultAckTimeoutHandler, detectListener } from "./handler/ack-timeout-handler";
+import { ErrorHandler, ErrorHandlerArgs, ListenerKind } from "./handler/error-handler";
+import { defaultUnhandledRequestHandler, UnhandledRequestHandler } from "./handler/unhandled-request-handler";
+import { MessageAckResponse, SlackMessageHandler } from "./handler/message-handler";
+import { hashHomeTabView, HomeTabRenderer, HomeTabViewStore, MemoryHomeTabViewStore } from "./home/home-tab";
+import { ValueCodec } from "./codec/value-codec";
+import { OptionsAckResponse, SlackOptionsHandler } from "./handler/options-handler";
+import { SlackViewHandler, ViewAckResponse } from "./handler/view-handler";
+import { buildManifest, diffManifest, ManifestListeners, ToManifestOptions } from "./manifest/manifest";
+import {
+  ignoringDuplicateRequests,
+  ignoringSelfEvents,
+  invalidatingAuthorizeCache,
+  releaseDeduplicationKey,
+  urlVerification,
+} from "./middleware/built-in-middleware";
+import { parseListenerArgs } from "./middleware/listener-args";
+import {
+  AroundMiddleware,
+  AroundMiddlewareRequest,
+  ListenerMiddleware,
+  ListenerOptions,
+  Middleware,
+  PreAuthorizeMiddleware,
+} from "./middleware/middleware";
 import { PayloadType } from "./request/payload-types";
 import { AppRateLimited } from "./request/payload/app-rate-limited";
 import { BlockAction, BlockElementActions, BlockElementTypes } from "./request/payload/block-action";
 import { BlockSuggestion } from "./request/payload/block-suggestion";
-import { AnySlackEvent, AnySlackEventWithChannelId, SlackEvent, SupportedEventType } from "./request/payload/event";
+import {
+  AnySlackEvent,
+  AnySlackEventWithChannelId,
+  AppHomeOpenedEvent,
+  EntityDetailsRequestedEvent,
+  LinkSharedEvent,
+  SlackEvent,
+  SupportedEventType,
+} from "./request/payload/event";
 import { GlobalShortcut } from "./request/payload/global-shortcut";
 import { MessageShortcut } from "./request/payload/message-shortcut";
 import { SlashCommand } from "./request/payload/slash-command";
 import { ViewClosed } from "./request/payload/view-closed";
 import { ViewSubmission } from "./request/payload/view-submission";
-import { PreAuthorizeSlackMiddlewareRequest, SlackMiddlewareRequest, SlackRequest, SlackRequestWithChannelId } from "./request/request";
+import {
+  DecodedValues,
+  MatchedGroups,
+  PreAuthorizeSlackMiddlewareRequest,
+  SlackMiddlewareRequest,
+  SlackRequest,
+  SlackRequestWithChannelId,
+  SlackRequestWithOptionalRespond,
+  SlackRequestWithRespond,
+} from "./request/request";
 import { SlackRequestBody } from "./request/request-body";
 import { parseRequestBody } from "./request/request-parser";
 import { verifySlackRequest } from "./request/request-verification";
-import { toCompleteResponse } from "./response/response";
+import { SlackResponse, toCompleteResponse } from "./response/response";
+import { SlackRouter, SlackRouterMountOptions } from "./router";
 import { SocketModeClient } from "./socket-mode/socket-mode-client";
-import { isFunctionExecutedEvent } from "./utility/function-executed-event";
-import { isPostedMessageEvent } from "./utility/message-events";
+import { buildCodeSuggestion } from "./utility/code-suggestion";
+import { EventConstraints, matchEvent, matchMessageEvent, MessageEventConstraints, toEventTypes } from "./utility/event-constraints";
+import { matchUnfurlPattern, unfurlLinks, UnfurlHandler, UnfurlListener, UnfurlPattern } from "./unfurl/link-unfurl";
+import { ListenerIndex } from "./utility/listener-index";
+import {
+  EntityDetailsHandler,
+  EntityDetailsListener,
+  EntityDetailsPattern,
+  matchEntityDetailsPattern,
+  presentEntityDetails,
+} from "./work-object/entity-details";
+import { isFunctionExecutedEvent, matchFunctionCallbackId } from "./utility/function-executed-event";
 
 /**
  * Options for initializing SlackApp instance.
@@ -86,11 +161,46 @@ export interface SlackAppOptions<E extends SlackEdgeAppEnv | SlackSocketModeAppE
    */
   authorize?: Authorize<E>;
 
+  /**
+   * The cache for authorize() function results.
+   * When this is set, the results are reused for the same org/team/user
+   * until tokens_revoked, app_uninstalled, scope_granted, or scope_denied events arrive.
+   */
+  authorizeCache?: AuthorizeCache;
+
   /**
    * The hoook that handles authorization failure.
    */
   authorizeErrorHandler?: AuthorizeErrorHandler<E>;
 
+  /**
+   * The hook that handles exceptions thrown by middleware and listeners.
+   */
+  errorHandler?: ErrorHandler<E>;
+
+  /**
+   * The hook that handles requests that no listener matches.
+   */
+  unhandledRequestHandler?: UnhandledRequestHandler<E>;
+
+  /**
+   * The time budget in milliseconds for acknowledging a request, which covers authorize() function call, middleware, and ack functions.
+   * When the budget runs out, the app responds with the fallback built by ackTimeoutHandler.
+   * The default is undefined, which means the app waits for the ack function completion.
+   */
+  ackTimeoutMillis?: number;
+
+  /**
+   * The hook that builds the fallback response when ackTimeoutMillis elapses.
+   */
+  ackTimeoutHandler?: AckTimeoutHandler<E>;
+
+  /**
+   * When this is set to true, the app completes a custom function execution with an error
+   * when its function listener throws an exception. The default is set to false.
+   */
+  autoFailFunctionExecution?: boolean;
+
   /**
    * The endpoint routes to handle requests from Slack's API server.
    * When this app connects to Slack through Socket Mode, this setting won't be used.
@@ -127,6 +237,32 @@ export interface SlackAppOptions<E extends SlackEdgeAppEnv | SlackSocketModeAppE
    * Your custom assistant thread context store implementation.
    */
   assistantThreadContextStore?: AssistantThreadContextStore;
+
+  /**
+   * The store that remembers already received requests.
+   * When this is set, duplicated requests are acknowledged without running listeners.
+   */
+  eventDeduplicationStore?: EventDeduplicationStore;
+
+  /**
+   * How to handle requests retried by Slack. The default is "deduplicate",
+   * which processes a retry only when eventDeduplicationStore does not have its original request.
+   */
+  retryPolicy?: RetryPolicy;
+
+  /**
+   * The store that remembers the Home tab views published by app.home().
+   * The default one keeps them in memory.
+   */
+  homeTabViewStore?: HomeTabViewStore;
+
+  /**
+   * The codec that encodes and decodes view.private_metadata and action values.
+   * When this is absent and env.SLACK_VALUE_SIGNING_SECRET is set, the app creates the one that signs the values.
+   * With a codec, the app decodes the encoded values before running action and view listeners,
+   * and rejects the tampered or expired ones.
+   */
+  valueCodec?: ValueCodec;
 }
 
 /**
@@ -149,11 +285,44 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
    */
   public authorize: Authorize<E>;
 
+  /**
+   * The cache for authorize() function results.
+   */
+  public authorizeCache?: AuthorizeCache;
+
   /**
    * The hoook that handles authorization failure.
    */
   public authorizeErrorHandler: AuthorizeErrorHandler<E>;
 
+  /**
+   * The hook that handles exceptions thrown by middleware and listeners.
+   * When this is absent, the exceptions are propagated to the caller of run() method.
+   */
+  public errorHandler: ErrorHandler<E> | undefined;
+
+  /**
+   * The hook that handles requests that no listener matches.
+   * The default one acknowledges the request so that Slack does not show an error or retry it.
+   */
+  public unhandledRequestHandler: UnhandledRequestHandler<E>;
+
+  /**
+   * The time budget in milliseconds for acknowledging a request.
+   */
+  public ackTimeoutMillis: number | undefined;
+
+  /**
+   * The hook that builds the fallback response when ackTimeoutMillis elapses.
+   */
+  public ackTimeoutHandler: AckTimeoutHandler<E>;
+
+  /**
+   * When this is set to true, the app completes a custom function execution with an error
+   * when its function listener throws an exception.
+   */
+  public autoFailFunctionExecution: boolean; // default: false
+
   /**
    * The endpoint routes to handle requests from Slack's API server.
    * When this app connects to Slack through Socket Mode, this setting won't be used.
@@ -209,6 +378,12 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
   // deno-lint-ignore no-explicit-any
   public postAuthorizeMiddleware: Middleware<any>[] = [];
 
+  /**
+   * The custom middleware that wrap the whole processing of a verified request.
+   */
+  // deno-lint-ignore no-explicit-any
+  public aroundMiddleware: AroundMiddleware<any>[] = [];
+
   public eventsToSkipAuthorize: string[] = ["app_uninstalled", "tokens_revoked"];
 
   /**
@@ -216,26 +391,62 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
    */
   public assistantThreadContextStore?: AssistantThreadContextStore;
 
+  /**
+   * The store that remembers already received requests.
+   */
+  public eventDeduplicationStore?: EventDeduplicationStore;
+
+  /**
+   * How to handle requests retried by Slack.
+   */
+  public retryPolicy: RetryPolicy; // default: "deduplicate"
+
+  /**
+   * The store that remembers the Home tab views published by app.home().
+   */
+  public homeTabViewStore: HomeTabViewStore;
+
+  /**
+   * The codec that encodes and decodes view.private_metadata and action values.
+   */
+  public valueCodec?: ValueCodec;
+
   // --------------------------
   // Enabled listener functions
   // --------------------------
 
-  #slashCommands: ((body: SlackRequestBody) => SlackMessageHandler<E, SlashCommand> | null)[] = [];
-  #events: ((body: SlackRequestBody) => SlackHandler<E, SlackEvent<SupportedEventType>> | null)[] = [];
-  #globalShorcuts: ((body: SlackRequestBody) => SlackHandler<E, GlobalShortcut> | null)[] = [];
-  #messageShorcuts: ((body: SlackRequestBody) => SlackHandler<E, MessageShortcut> | null)[] = [];
-  #blockActions: ((body: SlackRequestBody) => SlackHandler<
-    E,
-    // deno-lint-ignore no-explicit-any
-    BlockAction<any>
-  > | null)[] = [];
-  #blockSuggestions: ((body: SlackRequestBody) => SlackOptionsHandler<E, BlockSuggestion> | null)[] = [];
-  #viewSubmissions: ((body: SlackRequestBody) => SlackViewHandler<E, ViewSubmission> | null)[] = [];
-  #viewClosed: ((body: SlackRequestBody) => SlackViewHandler<E, ViewClosed> | null)[] = [];
+  // The listeners are indexed by command name, event type, callback_id, and action_id
+  #slashCommands = new ListenerIndex<WithListenerMiddleware<E, SlackMessageHandler<E, SlashCommand>>>();
+  #events = new ListenerIndex<WithListenerMiddleware<E, SlackHandler<E, SlackEvent<SupportedEventType>>>>();
+  #globalShorcuts = new ListenerIndex<WithListenerMiddleware<E, SlackHandler<E, GlobalShortcut>>>();
+  #messageShorcuts = new ListenerIndex<WithListenerMiddleware<E, SlackHandler<E, MessageShortcut>>>();
+  // deno-lint-ignore no-explicit-any
+  #blockActions = new ListenerIndex<WithListenerMiddleware<E, SlackHandler<E, BlockAction<any>>>>();
+  #blockSuggestions = new ListenerIndex<WithListenerMiddleware<E, SlackOptionsHandler<E, BlockSuggestion>>>();
+  #viewSubmissions = new ListenerIndex<WithListenerMiddleware<E, SlackViewHandler<E, ViewSubmission>>>();
+  #viewClosed = new ListenerIndex<WithListenerMiddleware<E, SlackViewHandler<E, ViewClosed>>>();
   #appRateLimited: ((body: SlackRequestBody) => SlackHandler<E, AppRateLimited> | null) | undefined = undefined;
 
+  // The registered listeners reflected in toManifest()
+  #manifestListeners: ManifestListeners = {
+    slashCommands: [],
+    shortcuts: [],
+    botEvents: [],
+    interactivity: false,
+    blockSuggestion: false,
+    functions: [],
+    homeTab: false,
+    unfurlDomains: [],
+  };
+
   #assistantEnabled: boolean;
 
+  #homeTabRenderer: HomeTabRenderer<E> | undefined = undefined;
+
+  #unfurlListeners: UnfurlListener<E>[] = [];
+
+  #entityDetailsListeners: EntityDetailsListener<E>[] = [];
+
   // --------------------------
 
   constructor(options: SlackAppOptions<E>) {
@@ -264,16 +475,36 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
       this.signingSecret = this.env.SLACK_SIGNING_SECRET;
     }
     this.startLazyListenerAfterAck = options.startLazyListenerAfterAck ?? false;
+    this.eventDeduplicationStore = options.eventDeduplicationStore;
+    this.retryPolicy = options.retryPolicy ?? "deduplicate";
+    if (this.eventDeduplicationStore || this.retryPolicy !== "deduplicate") {
+      const middleware = ignoringDuplicateRequests(this.eventDeduplicationStore, this.retryPolicy);
+      this.preAuthorizeMiddleware.push(middleware);
+    }
     this.ignoreSelfEvents = options.ignoreSelfEvents ?? true;
     if (this.ignoreSelfEvents) {
       const middleware = ignoringSelfEvents(options.ignoreSelfAssistantMessageEvents ?? true);
       this.postAuthorizeMiddleware.push(middleware);
     }
     this.authorize = options.authorize ?? singleTeamAuthorize;
+    this.authorizeCache = options.authorizeCache;
+    if (this.authorizeCache) {
+      this.authorize = cachedAuthorize(this.authorize, this.authorizeCache);
+      this.preAuthorizeMiddleware.push(invalidatingAuthorizeCache(this.authorizeCache));
+    }
     this.authorizeErrorHandler = options.authorizeErrorHandler ?? buildDefaultAuthorizeErrorHanlder();
+    this.errorHandler = options.errorHandler;
+    this.unhandledRequestHandler = options.unhandledRequestHandler ?? defaultUnhandledRequestHandler;
+    this.ackTimeoutMillis = options.ackTimeoutMillis;
+    this.ackTimeoutHandler = options.ackTimeoutHandler ?? defaultAckTimeoutHandler;
+    this.autoFailFunctionExecution = options.autoFailFunctionExecution ?? false;
     this.routes = { events: options.routes?.events };
     this.assistantThreadContextStore = options.assistantThreadContextStore;
     this.#assistantEnabled = options.assistantThreadContextStore !== undefined;
+    this.homeTabViewStore = options.homeTabViewStore ?? new MemoryHomeTabViewStore();
+    this.valueCodec =
+      options.valueCodec ??
+      (this.env.SLACK_VALUE_SIGNING_SECRET ? new ValueCodec({ secret: this.env.SLACK_VALUE_SIGNING_SECRET }) : undefined);
   }
 
   /**
@@ -314,88 +545,397 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
     return this;
   }
 
+  /**
+   * Registers an around middleware, which wraps pre-authorize middleware, authorize() function call,
+   * post-authorize middleware, and the listener's ack function. Unlike other middleware,
+   * it can run code after next() returns the response to Slack.
+   * Exceptions thrown by around middleware are propagated to the caller of run() method.
+   * @param middleware around middleware
+   * @returns this instance
+   */
+  around(middleware: AroundMiddleware<E>): SlackApp<E> {
+    this.aroundMiddleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Registers the global error handler, which receives exceptions thrown by middleware and listeners.
+   * Only one error handler can be registered, so calling this method again overwrites the existing one.
+   * @param handler error handler
+   * @returns this instance
+   */
+  error(handler: ErrorHandler<E>): SlackApp<E> {
+    this.errorHandler = handler;
+    return this;
+  }
+
+  /**
+   * Registers the handler for requests that no listener matches.
+   * Only one handler can be registered, so calling this method again overwrites the existing one.
+   * @param handler unhandled request handler
+   * @returns this instance
+   */
+  unhandled(handler: UnhandledRequestHandler<E>): SlackApp<E> {
+    this.unhandledRequestHandler = handler;
+    return this;
+  }
+
+  /**
+   * Registers all the listeners and listener middleware in the router.
+   * @param router the router to mount
+   * @param options mount options such as the namespace prefix for callback_id/action_id
+   * @returns this instance
+   */
+  mount(router: SlackRouter<SlackAppEnv> | SlackRouter<E>, options?: SlackRouterMountOptions): SlackApp<E> {
+    router.applyTo(this, options);
+    return this;
+  }
+
+  /**
+   * Generates the app manifest from the registered listeners and this app's settings.
+   * The slash commands, shortcuts, bot events, interactivity, Socket Mode flag, functions, and the minimum bot scopes
+   * are added to the base manifest. Note that the listeners registered with RegExp patterns cannot be reflected.
+   * @param base the base manifest that has the other settings such as display_information
+   * @param options the options such as the public URL of this app
+   * @returns a new manifest object
+   */
+  toManifest(base: ManifestParams, options: ToManifestOptions = {}): ManifestParams {
+    const requestUrl = options.baseUrl ? new URL(this.routes.events ?? "", options.baseUrl).toString() : undefined;
+    return buildManifest(base, this.#manifestListeners, { socketMode: this.socketMode, requestUrl });
+  }
+
+  /**
+   * Lists the differences between the given manifest and the one that toManifest() generates from it.
+   * This is useful for detecting a manifest that drifts from the code (e.g., a missing event subscription).
+   * @param current the manifest currently used
+   * @param options the options such as the public URL of this app
+   * @returns the human-readable differences; an empty array if the manifest is up-to-date
+   */
+  diffManifest(current: ManifestParams, options: ToManifestOptions = {}): string[] {
+    return diffManifest(current, this.toManifest(current, options));
+  }
+
   /**
    * Registers a listener that handles slash command executions.
-   * @param pattern the pattern to match slash command name
+   * When a command definition is given, the command text is parsed into request.args,
+   * and "help" or invalid input is answered with an ephemeral usage message generated from the definition.
+   * @param pattern the pattern to match slash command name, or the definition of the command
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param ack ack function that must complete within 3 seconds
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
    */
-  command(pattern: StringOrRegExp, ack: SlashCommandAckHandler<E>, lazy: SlashCommandLazyHandler<E> = noopLazyHandler): SlackApp<E> {
-    const handler: SlackMessageHandler<E, SlashCommand> = { ack, lazy };
-    this.#slashCommands.push((body) => {
+  command(
+    definition: SlashCommandDefinition,
+    ack: SlashCommandWithArgsAckHandler<E>,
+    lazy?: SlashCommandWithArgsLazyHandler<E>,
+  ): SlackApp<E>;
+  command(
+    definition: SlashCommandDefinition,
+    options: ListenerOptions<E>,
+    ack: SlashCommandWithArgsAckHandler<E>,
+    lazy?: SlashCommandWithArgsLazyHandler<E>,
+  ): SlackApp<E>;
+  command(pattern: StringOrRegExp, ack: SlashCommandAckHandler<E>, lazy?: SlashCommandLazyHandler<E>): SlackApp<E>;
+  command(
+    pattern: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: SlashCommandAckHandler<E>,
+    lazy?: SlashCommandLazyHandler<E>,
+  ): SlackApp<E>;
+  command<G extends MatchedGroups>(
+    pattern: RegExp,
+    ack: WithMatchedGroups<SlashCommandAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<SlashCommandLazyHandler<E>, G>,
+  ): SlackApp<E>;
+  command<G extends MatchedGroups>(
+    pattern: RegExp,
+    options: ListenerOptions<E>,
+    ack: WithMatchedGroups<SlashCommandAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<SlashCommandLazyHandler<E>, G>,
+  ): SlackApp<E>;
+  command(pattern: StringOrRegExp | SlashCommandDefinition, ...args: unknown[]): SlackApp<E> {
+    if (isSlashCommandDefinition(pattern)) {
+      return this.#addCommandWithArgs(pattern, args);
+    }
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<E, SlashCommandAckHandler<E>, SlashCommandLazyHandler<E>>(args);
+    const handler: WithListenerMiddleware<E, SlackMessageHandler<E, SlashCommand>> = { ack, lazy, middleware };
+    if (typeof pattern === "string") {
+      this.#manifestListeners.slashCommands.push({ command: pattern });
+    }
+    this.#slashCommands.add(typeof pattern === "string" ? pattern : undefined, (body) => {
       if (body.type || !body.command) {
         return null;
       }
       if (typeof pattern === "string" && body.command === pattern) {
         return handler;
-      } else if (typeof pattern === "object" && pattern instanceof RegExp && body.command.match(pattern)) {
-        return handler;
+      } else if (typeof pattern === "object" && pattern instanceof RegExp) {
+        const matches = body.command.match(pattern);
+        if (matches) {
+          return { ...handler, matches };
+        }
       }
       return null;
     });
     return this;
   }
 
+  #addCommandWithArgs(definition: SlashCommandDefinition, args: unknown[]): SlackApp<E> {
+    const [middleware, ack, lazy] = parseListenerArgs<E, SlashCommandWithArgsAckHandler<E>, SlashCommandWithArgsLazyHandler<E>>(args);
+    this.#manifestListeners.slashCommands.push({
+      command: definition.command,
+      description: definition.description,
+      usageHint: buildCommandUsageHint(definition),
+      shouldEscape: hasMentionArguments(definition),
+    });
+    this.#slashCommands.add(definition.command, (body) => {
+      if (body.type || body.command !== definition.command) {
+        return null;
+      }
+      const result = parseCommandText(definition, body.text ?? "");
+      if (result.type !== "args") {
+        const usage = buildCommandUsage(definition, result.subcommand);
+        const text = result.type === "error" ? `${result.message}\n\n${usage}` : usage;
+        // deno-lint-ignore require-await
+        return { ack: async () => ({ response_type: "ephemeral", text }), lazy: noopLazyHandler, middleware };
+      }
+      const handler: WithListenerMiddleware<E, SlackMessageHandler<E, SlashCommand>> = {
+        ack: (req: SlackRequestWithRespond<E, SlashCommand>) => ack({ ...req, args: result.args }),
+        lazy: lazy ? (req: SlackRequestWithRespond<E, SlashCommand>) => lazy({ ...req, args: result.args }) : noopLazyHandler,
+        middleware,
+      };
+      return handler;
+    });
+    return this;
+  }
+
   /**
    * Registers a listener that handles custom function calls within Workflow Builder.
    * Please be aware that this feature is still in beta as of April 2024.
-   * @param callbackId the pattern to match callback_id in a payload
+   * When a function definition is given, the listener's inputs and outputs are typed and validated against it.
+   * The returned function's action()/view() register the listeners for the interactivity that originates from the function's executions,
+   * and its other methods are the same as this app's ones.
+   * @param callbackId the pattern to match callback_id in a payload, or the definition of the function
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param lazy lazy function that can do anything asynchronously
-   * @returns this instance
+   * @returns the function to register the function-scoped action and view listeners
    */
-  function(callbackId: FunctionExecutedEventCallbackIdPattern, lazy: EventLazyHandler<"function_executed", E>) {
-    this.#events.push((body) => {
+  function<I extends FunctionParameters, O extends FunctionParameters>(
+    definition: SlackFunctionDefinition<I, O>,
+    lazy: FunctionExecutedLazyHandler<E, FunctionParameterValues<I>, FunctionParameterValues<O>>,
+  ): ChainedSlackFunction<E, SlackApp<E>>;
+  function<I extends FunctionParameters, O extends FunctionParameters>(
+    definition: SlackFunctionDefinition<I, O>,
+    options: ListenerOptions<E>,
+    lazy: FunctionExecutedLazyHandler<E, FunctionParameterValues<I>, FunctionParameterValues<O>>,
+  ): ChainedSlackFunction<E, SlackApp<E>>;
+  function(callbackId: FunctionExecutedEventCallbackIdPattern, lazy: FunctionExecutedLazyHandler<E>): ChainedSlackFunction<E, SlackApp<E>>;
+  function(
+    callbackId: FunctionExecutedEventCallbackIdPattern,
+    options: ListenerOptions<E>,
+    lazy: FunctionExecutedLazyHandler<E>,
+  ): ChainedSlackFunction<E, SlackApp<E>>;
+  function<G extends MatchedGroups>(
+    callbackId: RegExp,
+    lazy: WithMatchedGroups<FunctionExecutedLazyHandler<E>, G>,
+  ): ChainedSlackFunction<E, SlackApp<E>>;
+  function<G extends MatchedGroups>(
+    callbackId: RegExp,
+    options: ListenerOptions<E>,
+    lazy: WithMatchedGroups<FunctionExecutedLazyHandler<E>, G>,
+  ): ChainedSlackFunction<E, SlackApp<E>>;
+  function(
+    callbackId: FunctionExecutedEventCallbackIdPattern | SlackFunctionDefinition,
+    ...args: unknown[]
+  ): ChainedSlackFunction<E, SlackApp<E>> {
+    const [middleware, functionLazy] = parseListenerArgs<E, FunctionExecutedLazyHandler<E>>(args);
+    const definition = isSlackFunctionDefinition(callbackId) ? callbackId : undefined;
+    const lazy = this.#withFunctionLifecycle(functionLazy, definition);
+    this.#manifestListeners.botEvents.push("function_executed");
+    if (definition) {
+      this.#manifestListeners.functions.push(definition);
+    }
+    this.#events.add("function_executed", (body) => {
       if (body.type !== PayloadType.EventsAPI || !body.event || body.event.type !== "function_executed") {
         return null;
       }
       if (isFunctionExecutedEvent(body.event)) {
-        let matched = true;
-        if (callbackId !== undefined) {
-          if (typeof callbackId === "string") {
-            matched = body.event.function.callback_id.includes(callbackId);
-          }
-          if (typeof callbackId === "object") {
-            matched = body.event.function.callback_id.match(callbackId) !== null;
-          }
-        }
+        const matched = matchFunctionCallbackId(body.event.function.callback_id, callbackId);
         if (matched) {
+          const matches = matched === true ? undefined : matched;
           // deno-lint-ignore require-await
-          return { ack: async (_: EventRequest<E, "message">) => "", lazy };
+          return { ack: async (_: EventRequest<E, "message">) => "", lazy, middleware, matches };
         }
       }
       return null;
     });
-    return this;
+    const pattern = isSlackFunctionDefinition(callbackId) ? callbackId.callback_id : callbackId;
+    const fn = new SlackFunction<E>(pattern, {
+      action: (constraints, handler) => this.#addBlockAction(constraints, handler, { callbackId }),
+      viewSubmission: (viewCallbackId, handler) => this.#addViewSubmission(viewCallbackId, handler, { callbackId }),
+      viewClosed: (viewCallbackId, handler) => this.#addViewClosed(viewCallbackId, handler, { callbackId }),
+    });
+    return chainSlackFunction(fn, this as SlackApp<E>);
   }
 
   /**
    * Registers a listener that handles Events API request.
-   * @param event the pattern to match event type in a payload
+   * @param event the event type(s) to handle, or the constraints object including the type(s) and a filter function
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
    */
-  event<Type extends SupportedEventType>(event: Type, lazy: EventLazyHandler<Type, E>): SlackApp<E> {
-    this.#events.push((body) => {
+  event<Type extends SupportedEventType>(event: EventPattern<Type>, lazy: EventLazyHandler<Type, E>): SlackApp<E>;
+  event<Type extends SupportedEventType>(
+    event: EventPattern<Type>,
+    options: ListenerOptions<E>,
+    lazy: EventLazyHandler<Type, E>,
+  ): SlackApp<E>;
+  event<Type extends SupportedEventType>(event: EventPattern<Type>, ...args: unknown[]): SlackApp<E> {
+    const [middleware, lazy] = parseListenerArgs<E, EventLazyHandler<Type, E>>(args);
+    this.#manifestListeners.botEvents.push(...toEventTypes(event));
+    this.#events.add(toEventTypes(event), (body) => {
       if (body.type !== PayloadType.EventsAPI || !body.event) {
         return null;
       }
-      if (body.event.type === event) {
+      if (matchEvent(body.event, event)) {
         // deno-lint-ignore require-await
-        return { ack: async () => "", lazy };
+        return { ack: async () => "", lazy, middleware };
       }
       return null;
     });
     return this;
   }
 
+  /**
+   * Registers the function that renders the Home tab.
+   * The app publishes the rendered view when a user opens the Home tab (not the Messages tab),
+   * and context.refreshHome() re-renders it from any listener.
+   * When the rendered view is the same as the last published one, the app skips the views.publish API call.
+   * @param render the function that returns the Home tab view for a user
+   * @returns this instance
+   */
+  home(render: HomeTabRenderer<E>): SlackApp<E> {
+    if (this.#homeTabRenderer) {
+      throw new ConfigError("app.home() can be called only once.");
+    }
+    this.#homeTabRenderer = render;
+    this.#manifestListeners.botEvents.push("app_home_opened");
+    this.#manifestListeners.homeTab = true;
+    this.#events.add("app_home_opened", (body) => {
+      if (body.type !== PayloadType.EventsAPI || !body.event || body.event.type !== "app_home_opened") {
+        return null;
+      }
+      const event = body.event as AppHomeOpenedEvent;
+      if (event.tab !== "home") {
+        return null;
+      }
+      return {
+        // deno-lint-ignore require-await
+        ack: async () => "",
+        lazy: async (req) => {
+          // The event does not include the view when nothing has been published for the user yet
+          await this.#publishHomeTab(req.context, event.user, event.view === undefined);
+        },
+      };
+    });
+    return this;
+  }
+
+  async #publishHomeTab(context: SlackAppContext, userId: string | undefined, force: boolean = false): Promise<void> {
+    if (!this.#homeTabRenderer) {
+      throw new ConfigError("Register the Home tab renderer by app.home() before refreshing the Home tab.");
+    }
+    if (!userId) {
+      throw new Error("userId is required for refreshing the Home tab.");
+    }
+    const view = await this.#homeTabRenderer({ userId, context, env: this.env });
+    const hash = await hashHomeTabView(view);
+    const key = { enterpriseId: context.enterpriseId, teamId: context.teamId, userId };
+    if (!force && (await this.homeTabViewStore.find(key)) === hash) {
+      return;
+    }
+    await context.client.views.publish({ user_id: userId, view });
+    await this.homeTabViewStore.save(key, hash);
+  }
+
+  /**
+   * Registers a handler that unfurls the shared links matching the pattern.
+   * The links in a link_shared event are grouped by the first matching handler,
+   * and the app calls chat.unfurl API for each group with the results of the handler.
+   * @param pattern the domain (including its subdomains) or the regular expression to match the whole URL
+   * @param handler the function that returns the unfurl (an attachment or blocks) for a link
+   * @returns this instance
+   */
+  unfurl(pattern: UnfurlPattern, handler: UnfurlHandler<E>): SlackApp<E> {
+    if (typeof pattern === "string") {
+      this.#manifestListeners.unfurlDomains.push(pattern);
+    }
+    if (this.#unfurlListeners.length === 0) {
+      this.#manifestListeners.botEvents.push("link_shared");
+      this.#events.add("link_shared", (body) => {
+        if (body.type !== PayloadType.EventsAPI || !body.event || body.event.type !== "link_shared") {
+          return null;
+        }
+        const event = body.event as LinkSharedEvent;
+        if (!event.links.some((link) => this.#unfurlListeners.some((l) => matchUnfurlPattern(l.pattern, link)))) {
+          return null;
+        }
+        return {
+          // deno-lint-ignore require-await
+          ack: async () => "",
+          lazy: async (req) => {
+            const request = req as EventRequest<E, "link_shared">;
+            await unfurlLinks(request, this.#unfurlListeners, this.#lazyErrorReporter(request));
+          },
+        };
+      });
+    }
+    this.#unfurlListeners.push({ pattern, handler });
+    return this;
+  }
+
+  /**
+   * Registers a handler that shows the details of a Work Object entity in the flexpane.
+   * When a user opens the flexpane, the first matching handler returns the entity,
+   * and the app responds with entity.presentDetails API.
+   * @param pattern the external_ref.type of the entity, or the regular expression to match link.url
+   * @param handler the function that returns the entity metadata, or the user authentication request
+   * @returns this instance
+   */
+  entityDetails(pattern: EntityDetailsPattern, handler: EntityDetailsHandler<E>): SlackApp<E> {
+    if (this.#entityDetailsListeners.length === 0) {
+      this.#manifestListeners.botEvents.push("entity_details_requested");
+      this.#events.add("entity_details_requested", (body) => {
+        if (body.type !== PayloadType.EventsAPI || !body.event || body.event.type !== "entity_details_requested") {
+          return null;
+        }
+        const event = body.event as EntityDetailsRequestedEvent;
+        if (!this.#entityDetailsListeners.some((l) => matchEntityDetailsPattern(l.pattern, event))) {
+          return null;
+        }
+        return {
+          // deno-lint-ignore require-await
+          ack: async () => "",
+          lazy: async (req) => {
+            const request = req as EventRequest<E, "entity_details_requested">;
+            await presentEntityDetails(request, this.#entityDetailsListeners, this.#lazyErrorReporter(request));
+          },
+        };
+      });
+    }
+    this.#entityDetailsListeners.push({ pattern, handler });
+    return this;
+  }
+
   #assistantEvent<Type extends SupportedEventType>(
     event: Type,
     lazy: EventLazyHandler<Type, E>,
     handleSelfBotMessageEvents: boolean = false,
   ): SlackApp<E> {
     this.#assistantEnabled = true;
-    this.#events.push((body) => {
+    this.#manifestListeners.botEvents.push(event);
+    this.#events.add(event, (body) => {
       if (body.type !== PayloadType.EventsAPI || !body.event) {
         return null;
       }
@@ -479,38 +1019,43 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
 
   /**
    * Registers a listener that handles all newly posted message events.
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
    */
-  anyMessage(lazy: MessageEventLazyHandler<E>): SlackApp<E> {
-    return this.message(undefined, lazy);
+  anyMessage(lazy: MessageEventLazyHandler<E>): SlackApp<E>;
+  anyMessage(options: ListenerOptions<E>, lazy: MessageEventLazyHandler<E>): SlackApp<E>;
+  anyMessage(...args: unknown[]): SlackApp<E> {
+    const [middleware, lazy] = parseListenerArgs<E, MessageEventLazyHandler<E>>(args);
+    return this.message(undefined, middleware, lazy);
   }
 
   /**
    * Registers a listener that handles newly posted message events that matches the pattern.
-   * @param pattern the pattern to match a message event's text
+   * @param pattern the pattern to match a message event's text, or the constraints object
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
    */
-  message(pattern: MessageEventPattern, lazy: MessageEventLazyHandler<E>): SlackApp<E> {
-    this.#events.push((body) => {
+  message(pattern: MessageEventPattern, lazy: MessageEventLazyHandler<E>): SlackApp<E>;
+  message(pattern: MessageEventPattern, options: ListenerOptions<E>, lazy: MessageEventLazyHandler<E>): SlackApp<E>;
+  message<G extends MatchedGroups>(pattern: RegExp, lazy: WithMatchedGroups<MessageEventLazyHandler<E>, G>): SlackApp<E>;
+  message<G extends MatchedGroups>(
+    pattern: RegExp,
+    options: ListenerOptions<E>,
+    lazy: WithMatchedGroups<MessageEventLazyHandler<E>, G>,
+  ): SlackApp<E>;
+  message(pattern: MessageEventPattern, ...args: unknown[]): SlackApp<E> {
+    const [middleware, lazy] = parseListenerArgs<E, MessageEventLazyHandler<E>>(args);
+    this.#manifestListeners.botEvents.push("message");
+    this.#events.add("message", (body) => {
       if (body.type !== PayloadType.EventsAPI || !body.event || body.event.type !== "message") {
         return null;
       }
-      if (isPostedMessageEvent(body.event)) {
-        let matched = true;
-        if (pattern !== undefined) {
-          if (typeof pattern === "string") {
-            matched = body.event.text!.includes(pattern);
-          }
-          if (typeof pattern === "object") {
-            matched = body.event.text!.match(pattern) !== null;
-          }
-        }
-        if (matched) {
-          // deno-lint-ignore require-await
-          return { ack: async (_: EventRequest<E, "message">) => "", lazy };
-        }
+      const result = matchMessageEvent(body.event, pattern);
+      if (result) {
+        // deno-lint-ignore require-await
+        return { ack: async (_: EventRequest<E, "message">) => "", lazy, middleware, matches: result.matches };
       }
       return null;
     });
@@ -520,35 +1065,61 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
   /**
    * Registers a listener that handles global/message shortcut executions.
    * @param callbackId the pattern to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param ack ack function that must complete within 3 seconds
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
    */
-  shortcut(callbackId: StringOrRegExp, ack: ShortcutAckHandler<E>, lazy: ShortcutLazyHandler<E> = noopLazyHandler): SlackApp<E> {
-    return this.globalShortcut(callbackId, ack, lazy).messageShortcut(callbackId, ack, lazy);
+  shortcut(callbackId: StringOrRegExp, ack: ShortcutAckHandler<E>, lazy?: ShortcutLazyHandler<E>): SlackApp<E>;
+  shortcut(callbackId: StringOrRegExp, options: ListenerOptions<E>, ack: ShortcutAckHandler<E>, lazy?: ShortcutLazyHandler<E>): SlackApp<E>;
+  shortcut<G extends MatchedGroups>(
+    callbackId: RegExp,
+    ack: WithMatchedGroups<ShortcutAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<ShortcutLazyHandler<E>, G>,
+  ): SlackApp<E>;
+  shortcut<G extends MatchedGroups>(
+    callbackId: RegExp,
+    options: ListenerOptions<E>,
+    ack: WithMatchedGroups<ShortcutAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<ShortcutLazyHandler<E>, G>,
+  ): SlackApp<E>;
+  shortcut(callbackId: StringOrRegExp, ...args: unknown[]): SlackApp<E> {
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<E, ShortcutAckHandler<E>, ShortcutLazyHandler<E>>(args);
+    return this.globalShortcut(callbackId, middleware, ack, lazy).messageShortcut(callbackId, middleware, ack, lazy);
   }
 
   /**
    * Registers a listener that handles global shortcut executions.
    * @param callbackId the pattern to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param ack ack function that must complete within 3 seconds
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
    */
+  globalShortcut(callbackId: StringOrRegExp, ack: GlobalShortcutAckHandler<E>, lazy?: GlobalShortcutLazyHandler<E>): SlackApp<E>;
   globalShortcut(
     callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
     ack: GlobalShortcutAckHandler<E>,
-    lazy: GlobalShortcutLazyHandler<E> = noopLazyHandler,
-  ): SlackApp<E> {
-    const handler: SlackHandler<E, GlobalShortcut> = { ack, lazy };
-    this.#globalShorcuts.push((body) => {
+    lazy?: GlobalShortcutLazyHandler<E>,
+  ): SlackApp<E>;
+  globalShortcut(callbackId: StringOrRegExp, ...args: unknown[]): SlackApp<E> {
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<E, GlobalShortcutAckHandler<E>, GlobalShortcutLazyHandler<E>>(args);
+    const handler: WithListenerMiddleware<E, SlackHandler<E, GlobalShortcut>> = { ack, lazy, middleware };
+    if (typeof callbackId === "string") {
+      this.#manifestListeners.shortcuts.push({ type: "global", callbackId });
+    }
+    this.#globalShorcuts.add(typeof callbackId === "string" ? callbackId : undefined, (body) => {
       if (body.type !== PayloadType.GlobalShortcut || !body.callback_id) {
         return null;
       }
       if (typeof callbackId === "string" && body.callback_id === callbackId) {
         return handler;
-      } else if (typeof callbackId === "object" && callbackId instanceof RegExp && body.callback_id.match(callbackId)) {
-        return handler;
+      } else if (typeof callbackId === "object" && callbackId instanceof RegExp) {
+        const matches = body.callback_id.match(callbackId);
+        if (matches) {
+          return { ...handler, matches };
+        }
       }
       return null;
     });
@@ -558,24 +1129,37 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
   /**
    * Registers a listener that handles message shortcut executions.
    * @param callbackId the pattern to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param ack ack function that must complete within 3 seconds
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
    */
+  messageShortcut(callbackId: StringOrRegExp, ack: MessageShortcutAckHandler<E>, lazy?: MessageShortcutLazyHandler<E>): SlackApp<E>;
   messageShortcut(
     callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
     ack: MessageShortcutAckHandler<E>,
-    lazy: MessageShortcutLazyHandler<E> = noopLazyHandler,
-  ): SlackApp<E> {
-    const handler: SlackHandler<E, MessageShortcut> = { ack, lazy };
-    this.#messageShorcuts.push((body) => {
+    lazy?: MessageShortcutLazyHandler<E>,
+  ): SlackApp<E>;
+  messageShortcut(callbackId: StringOrRegExp, ...args: unknown[]): SlackApp<E> {
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<E, MessageShortcutAckHandler<E>, MessageShortcutLazyHandler<E>>(
+      args,
+    );
+    const handler: WithListenerMiddleware<E, SlackHandler<E, MessageShortcut>> = { ack, lazy, middleware };
+    if (typeof callbackId === "string") {
+      this.#manifestListeners.shortcuts.push({ type: "message", callbackId });
+    }
+    this.#messageShorcuts.add(typeof callbackId === "string" ? callbackId : undefined, (body) => {
       if (body.type !== PayloadType.MessageShortcut || !body.callback_id) {
         return null;
       }
       if (typeof callbackId === "string" && body.callback_id === callbackId) {
         return handler;
-      } else if (typeof callbackId === "object" && callbackId instanceof RegExp && body.callback_id.match(callbackId)) {
-        return handler;
+      } else if (typeof callbackId === "object" && callbackId instanceof RegExp) {
+        const matches = body.callback_id.match(callbackId);
+        if (matches) {
+          return { ...handler, matches };
+        }
       }
       return null;
     });
@@ -585,6 +1169,7 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
   /**
    * Registers a listener that handles type: "block_actions" requests.
    * @param constraints the constraints to match block_id/action_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param ack ack function that must complete within 3 seconds
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
@@ -595,20 +1180,70 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
   >(
     constraints: StringOrRegExp | { type: T; block_id?: string; action_id: string },
     ack: BlockActionAckHandler<T, E, A> | SourceSpecifiedBlockActionAckHandler<E, A>,
-    lazy: BlockActionLazyHandler<T, E, A> | SourceSpecifiedBlockActionLazyHandler<E, A> = noopLazyHandler,
-  ): SlackApp<E> {
-    const handler: SlackHandler<E, A> = { ack, lazy };
-    this.#blockActions.push((body) => {
+    lazy?: BlockActionLazyHandler<T, E, A> | SourceSpecifiedBlockActionLazyHandler<E, A>,
+  ): SlackApp<E>;
+  action<
+    T extends BlockElementTypes,
+    A extends BlockAction<Extract<BlockElementActions, { type: T }>> = BlockAction<Extract<BlockElementActions, { type: T }>>,
+  >(
+    constraints: StringOrRegExp | { type: T; block_id?: string; action_id: string },
+    options: ListenerOptions<E>,
+    ack: BlockActionAckHandler<T, E, A> | SourceSpecifiedBlockActionAckHandler<E, A>,
+    lazy?: BlockActionLazyHandler<T, E, A> | SourceSpecifiedBlockActionLazyHandler<E, A>,
+  ): SlackApp<E>;
+  action<G extends MatchedGroups>(
+    actionId: RegExp,
+    ack: WithMatchedGroups<SourceSpecifiedBlockActionAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<SourceSpecifiedBlockActionLazyHandler<E>, G>,
+  ): SlackApp<E>;
+  action<G extends MatchedGroups>(
+    actionId: RegExp,
+    options: ListenerOptions<E>,
+    ack: WithMatchedGroups<SourceSpecifiedBlockActionAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<SourceSpecifiedBlockActionLazyHandler<E>, G>,
+  ): SlackApp<E>;
+  action<
+    T extends BlockElementTypes,
+    A extends BlockAction<Extract<BlockElementActions, { type: T }>> = BlockAction<Extract<BlockElementActions, { type: T }>>,
+  >(constraints: StringOrRegExp | { type: T; block_id?: string; action_id: string }, ...args: unknown[]): SlackApp<E> {
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<
+      E,
+      BlockActionAckHandler<T, E, A> | SourceSpecifiedBlockActionAckHandler<E, A>,
+      BlockActionLazyHandler<T, E, A> | SourceSpecifiedBlockActionLazyHandler<E, A>
+    >(args);
+    this.#addBlockAction(constraints, { ack, lazy, middleware });
+    return this;
+  }
+
+  /**
+   * Internal method that registers a block_actions listener.
+   * @param constraints the constraints to match block_id/action_id in a payload
+   * @param handler the listener functions and middleware
+   * @param functionScope the custom function that the action must originate from (optional)
+   */
+  // deno-lint-ignore no-explicit-any
+  #addBlockAction<A extends BlockAction<any>>(
+    constraints: StringOrRegExp | { type: string; block_id?: string; action_id: string },
+    handler: WithListenerMiddleware<E, SlackHandler<E, A>>,
+    functionScope?: FunctionScope,
+  ): void {
+    this.#manifestListeners.interactivity = true;
+    const actionId = typeof constraints === "string" ? constraints : constraints instanceof RegExp ? undefined : constraints.action_id;
+    this.#blockActions.add(actionId, (body) => {
       if (body.type !== PayloadType.BlockAction || !body.actions || !body.actions[0]) {
         return null;
       }
+      if (functionScope && !isFromFunction(body, functionScope)) {
+        return null;
+      }
       const action = body.actions[0];
       if (typeof constraints === "string" && action.action_id === constraints) {
         return handler;
       } else if (typeof constraints === "object") {
         if (constraints instanceof RegExp) {
-          if (action.action_id.match(constraints)) {
-            return handler;
+          const matches = action.action_id.match(constraints);
+          if (matches) {
+            return { ...handler, matches };
           }
         } else if (constraints.type) {
           if (action.type === constraints.type) {
@@ -623,7 +1258,6 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
       }
       return null;
     });
-    return this;
   }
 
   /**
@@ -631,14 +1265,24 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
    * Note that your app must return the options/option_groups within 3 seconds,
    * so slack-edge intentionally does not accept lazy here.
    * @param constraints the constraints to match block_id/action_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param ack ack function that must complete within 3 seconds
    * @returns this instance
    */
-  options(constraints: StringOrRegExp | { block_id?: string; action_id: string }, ack: BlockSuggestionAckHandler<E>): SlackApp<E> {
+  options(constraints: StringOrRegExp | { block_id?: string; action_id: string }, ack: BlockSuggestionAckHandler<E>): SlackApp<E>;
+  options(
+    constraints: StringOrRegExp | { block_id?: string; action_id: string },
+    options: ListenerOptions<E>,
+    ack: BlockSuggestionAckHandler<E>,
+  ): SlackApp<E>;
+  options(constraints: StringOrRegExp | { block_id?: string; action_id: string }, ...args: unknown[]): SlackApp<E> {
     // Note that block_suggestion response must be done within 3 seconds.
     // So, we don't support the lazy handler for it.
-    const handler: SlackOptionsHandler<E, BlockSuggestion> = { ack };
-    this.#blockSuggestions.push((body) => {
+    const [middleware, ack] = parseListenerArgs<E, BlockSuggestionAckHandler<E>>(args);
+    const handler: WithListenerMiddleware<E, SlackOptionsHandler<E, BlockSuggestion>> = { ack, middleware };
+    this.#manifestListeners.blockSuggestion = true;
+    const actionId = typeof constraints === "string" ? constraints : constraints instanceof RegExp ? undefined : constraints.action_id;
+    this.#blockSuggestions.add(actionId, (body) => {
       if (body.type !== PayloadType.BlockSuggestion || !body.action_id) {
         return null;
       }
@@ -646,8 +1290,9 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
         return handler;
       } else if (typeof constraints === "object") {
         if (constraints instanceof RegExp) {
-          if (body.action_id.match(constraints)) {
-            return handler;
+          const matches = body.action_id.match(constraints);
+          if (matches) {
+            return { ...handler, matches };
           }
         } else {
           if (body.action_id === constraints.action_id) {
@@ -666,62 +1311,178 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
   /**
    * Registers a listener that handles type: "view_submission"/"view_closed" requests.
    * @param callbackId the constraints to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param ack ack function that must complete within 3 seconds
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
    */
-  view(callbackId: StringOrRegExp, ack: ViewAckHandler<E>, lazy: ViewLazyHandler<E> = noopLazyHandler): SlackApp<E> {
-    return this.viewSubmission(callbackId, ack, lazy).viewClosed(callbackId, ack, lazy);
+  view(callbackId: StringOrRegExp, ack: ViewAckHandler<E>, lazy?: ViewLazyHandler<E>): SlackApp<E>;
+  view(callbackId: StringOrRegExp, options: ListenerOptions<E>, ack: ViewAckHandler<E>, lazy?: ViewLazyHandler<E>): SlackApp<E>;
+  view<G extends MatchedGroups>(
+    callbackId: RegExp,
+    ack: WithMatchedGroups<ViewAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<ViewLazyHandler<E>, G>,
+  ): SlackApp<E>;
+  view<G extends MatchedGroups>(
+    callbackId: RegExp,
+    options: ListenerOptions<E>,
+    ack: WithMatchedGroups<ViewAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<ViewLazyHandler<E>, G>,
+  ): SlackApp<E>;
+  view(callbackId: StringOrRegExp, ...args: unknown[]): SlackApp<E> {
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<E, ViewAckHandler<E>, ViewLazyHandler<E>>(args);
+    return this.viewSubmission(callbackId, middleware, ack, lazy).viewClosed(callbackId, middleware, ack, lazy);
   }
 
   /**
    * Registers a listener that handles type: "view_submission" requests.
-   * @param callbackId the constraints to match callback_id in a payload
+   * When a form definition is given, view.state.values is decoded into request.formValues,
+   * and the validation errors are answered with response_action: "errors" without running the listener.
+   * @param callbackId the constraints to match callback_id in a payload, or the definition of the form
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param ack ack function that must complete within 3 seconds
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
    */
+  viewSubmission<F extends FormFields>(
+    form: ModalFormDefinition<F>,
+    ack: FormSubmissionAckHandler<E, FormValues<F>>,
+    lazy?: FormSubmissionLazyHandler<E, FormValues<F>>,
+  ): SlackApp<E>;
+  viewSubmission<F extends FormFields>(
+    form: ModalFormDefinition<F>,
+    options: ListenerOptions<E>,
+    ack: FormSubmissionAckHandler<E, FormValues<F>>,
+    lazy?: FormSubmissionLazyHandler<E, FormValues<F>>,
+  ): SlackApp<E>;
+  viewSubmission(callbackId: StringOrRegExp, ack: ViewSubmissionAckHandler<E>, lazy?: ViewSubmissionLazyHandler<E>): SlackApp<E>;
   viewSubmission(
     callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
     ack: ViewSubmissionAckHandler<E>,
-    lazy: ViewSubmissionLazyHandler<E> = noopLazyHandler,
-  ): SlackApp<E> {
-    const handler: SlackViewHandler<E, ViewSubmission> = { ack, lazy };
-    this.#viewSubmissions.push((body) => {
+    lazy?: ViewSubmissionLazyHandler<E>,
+  ): SlackApp<E>;
+  viewSubmission(callbackId: StringOrRegExp | ModalFormDefinition, ...args: unknown[]): SlackApp<E> {
+    if (isModalFormDefinition(callbackId)) {
+      return this.#addFormSubmission(callbackId, args);
+    }
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<E, ViewSubmissionAckHandler<E>, ViewSubmissionLazyHandler<E>>(args);
+    this.#addViewSubmission(callbackId, { ack, lazy, middleware });
+    return this;
+  }
+
+  #addFormSubmission(form: ModalFormDefinition, args: unknown[]): SlackApp<E> {
+    const [middleware, ack, lazy] = parseListenerArgs<E, FormSubmissionAckHandler<E>, FormSubmissionLazyHandler<E>>(args);
+    // Both ack and lazy functions share the result so that the validators run only once per request
+    const results = new WeakMap<ViewSubmission, Promise<FormReadResult<FormFields>>>();
+    const read = (payload: ViewSubmission) => {
+      let result = results.get(payload);
+      if (!result) {
+        result = readFormValues(form, payload.view);
+        results.set(payload, result);
+      }
+      return result;
+    };
+    this.#addViewSubmission(form.callback_id, {
+      ack: async (req: SlackRequestWithOptionalRespond<E, ViewSubmission>) => {
+        const result = await read(req.payload);
+        if (result.type === "errors") {
+          return result.response;
+        }
+        return await ack({ ...req, formValues: result.values });
+      },
+      lazy: async (req: SlackRequestWithOptionalRespond<E, ViewSubmission>) => {
+        const result = await read(req.payload);
+        if (result.type === "values" && lazy) {
+          await lazy({ ...req, formValues: result.values });
+        }
+      },
+      middleware,
+    });
+    return this;
+  }
+
+  /**
+   * Internal method that registers a view_submission listener.
+   * @param callbackId the constraints to match callback_id in a payload
+   * @param handler the listener functions and middleware
+   * @param functionScope the custom function that the view must originate from (optional)
+   */
+  #addViewSubmission(
+    callbackId: StringOrRegExp,
+    handler: WithListenerMiddleware<E, SlackViewHandler<E, ViewSubmission>>,
+    functionScope?: FunctionScope,
+  ): void {
+    this.#manifestListeners.interactivity = true;
+    this.#viewSubmissions.add(typeof callbackId === "string" ? callbackId : undefined, (body) => {
       if (body.type !== PayloadType.ViewSubmission || !body.view) {
         return null;
       }
+      if (functionScope && !isFromFunction(body, functionScope)) {
+        return null;
+      }
       if (typeof callbackId === "string" && body.view.callback_id === callbackId) {
         return handler;
-      } else if (typeof callbackId === "object" && callbackId instanceof RegExp && body.view.callback_id.match(callbackId)) {
-        return handler;
+      } else if (typeof callbackId === "object" && callbackId instanceof RegExp) {
+        const matches = body.view.callback_id.match(callbackId);
+        if (matches) {
+          return { ...handler, matches };
+        }
       }
       return null;
     });
-    return this;
   }
 
   /**
    * Registers a listener that handles type: "view_closed" requests.
    * @param callbackId the constraints to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
    * @param ack ack function that must complete within 3 seconds
    * @param lazy lazy function that can do anything asynchronously
    * @returns this instance
    */
-  viewClosed(callbackId: StringOrRegExp, ack: ViewClosedAckHandler<E>, lazy: ViewClosedLazyHandler<E> = noopLazyHandler): SlackApp<E> {
-    const handler: SlackViewHandler<E, ViewClosed> = { ack, lazy };
-    this.#viewClosed.push((body) => {
+  viewClosed(callbackId: StringOrRegExp, ack: ViewClosedAckHandler<E>, lazy?: ViewClosedLazyHandler<E>): SlackApp<E>;
+  viewClosed(
+    callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: ViewClosedAckHandler<E>,
+    lazy?: ViewClosedLazyHandler<E>,
+  ): SlackApp<E>;
+  viewClosed(callbackId: StringOrRegExp, ...args: unknown[]): SlackApp<E> {
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<E, ViewClosedAckHandler<E>, ViewClosedLazyHandler<E>>(args);
+    this.#addViewClosed(callbackId, { ack, lazy, middleware });
+    return this;
+  }
+
+  /**
+   * Internal method that registers a view_closed listener.
+   * @param callbackId the constraints to match callback_id in a payload
+   * @param handler the listener functions and middleware
+   * @param functionScope the custom function that the view must originate from (optional)
+   */
+  #addViewClosed(
+    callbackId: StringOrRegExp,
+    handler: WithListenerMiddleware<E, SlackViewHandler<E, ViewClosed>>,
+    functionScope?: FunctionScope,
+  ): void {
+    this.#manifestListeners.interactivity = true;
+    this.#viewClosed.add(typeof callbackId === "string" ? callbackId : undefined, (body) => {
       if (body.type !== PayloadType.ViewClosed || !body.view) {
         return null;
       }
+      if (functionScope && !isFromFunction(body, functionScope)) {
+        return null;
+      }
       if (typeof callbackId === "string" && body.view.callback_id === callbackId) {
         return handler;
-      } else if (typeof callbackId === "object" && callbackId instanceof RegExp && body.view.callback_id.match(callbackId)) {
-        return handler;
+      } else if (typeof callbackId === "object" && callbackId instanceof RegExp) {
+        const matches = body.view.callback_id.match(callbackId);
+        if (matches) {
+          return { ...handler, matches };
+        }
       }
       return null;
     });
-    return this;
   }
 
   /**
@@ -798,6 +1559,7 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
    * @returns response
    */
   async handleEventRequest(request: Request, ctx: ExecutionContext): Promise<Response> {
+    const startedAt = Date.now();
     // If the routes.events is missing, any URLs can work for handing requests from Slack
     if (this.routes.events) {
       const { pathname } = new URL(request.url);
@@ -852,374 +1614,653 @@ export class SlackApp<E extends SlackEdgeAppEnv | SlackSocketModeAppEnv> {
       if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
         console.log(`*** Received request body ***\n ${prettyPrint(body)}`);
       }
-      for (const middlware of this.preAuthorizeMiddleware) {
-        const response = await middlware(preAuthorizeRequest);
-        if (response) {
-          return toCompleteResponse(response);
-        }
+      const dispatching =
+        this.aroundMiddleware.length === 0 ? this.#dispatch(preAuthorizeRequest, ctx) : this.#runAroundMiddleware(preAuthorizeRequest, ctx);
+      const processing = this.eventDeduplicationStore ? this.#releasingDeduplicationKeyOnFailure(dispatching, body) : dispatching;
+      if (this.ackTimeoutMillis === undefined) {
+        return await processing;
       }
-      let authorizeResult: AuthorizeResult;
-      try {
-        authorizeResult = await this.#callAuthorize(preAuthorizeRequest);
-      } catch (
-        // deno-lint-ignore no-explicit-any
-        error: any
-      ) {
-        if ("name" in error && error.name === "AuthorizeError") {
-          const responseOrError: Response | AuthorizeError = await this.authorizeErrorHandler({
-            request: preAuthorizeRequest,
-            error,
-          });
-          if ("name" in responseOrError && responseOrError.name === "AuthorizeError") {
-            throw responseOrError; // AuthorizeError
-          } else {
-            return responseOrError as Response; // Response
-          }
-        } else {
-          // The authorize() function should not throw any other exceptions than AuthorizeError
-          throw error;
+      const remainingMillis = this.ackTimeoutMillis - (Date.now() - startedAt);
+      return await this.#withAckTimeout(processing, preAuthorizeRequest, ctx, startedAt, remainingMillis);
+    }
+    return new Response("Invalid signature", { status: 401 });
+  }
+
+  /**
+   * Returns the function that passes the errors that a lazy listener handles by itself to the error handler.
+   * @param request the request that the lazy listener processes
+   * @returns the function, or undefined when the app does not have the error handler
+   */
+  #lazyErrorReporter(request: SlackMiddlewareRequest<E>): ((error: Error) => Promise<void>) | undefined {
+    const errorHandler = this.errorHandler;
+    if (!errorHandler) {
+      return undefined;
+    }
+    return async (error) => {
+      await errorHandler({ phase: "lazy", error, request, listenerKind: "event" });
+    };
+  }
+
+  /**
+   * Wraps a function listener to track whether it completes the function execution.
+   * When the listener returns without completion, this prints a warning unless it calls deferCompletion().
+   * When the listener throws an exception, this reports the failure if autoFailFunctionExecution is enabled.
+   */
+  #withFunctionLifecycle(
+    lazy: FunctionExecutedLazyHandler<E>,
+    definition?: SlackFunctionDefinition,
+  ): EventLazyHandler<"function_executed", E> {
+    return async (req) => {
+      const base = req.context as SlackAppContextWithFunctionUtilities;
+      if (definition) {
+        const errors = validateFunctionParameters(definition.input_parameters, req.payload.inputs, { ignoreUndeclared: true });
+        if (errors.length > 0) {
+          // The listener cannot work with invalid inputs, so this app fails the execution instead
+          await base.fail({ error: `Invalid inputs for ${definition.callback_id}: ${errors.join(", ")}` });
+          return;
         }
       }
-      const primaryToken = preAuthorizeRequest.context.functionBotAccessToken || authorizeResult.botToken;
-      const authorizedContext: SlackAppContext = {
-        ...preAuthorizeRequest.context,
-        authorizeResult,
-        client: new SlackAPIClient(primaryToken, {
-          logLevel: this.env.SLACK_LOGGING_LEVEL,
-        }),
-        botToken: authorizeResult.botToken,
-        botId: authorizeResult.botId,
-        botUserId: authorizeResult.botUserId,
-        userToken: authorizeResult.userToken,
-      };
-      if (authorizedContext.channelId) {
-        const context = authorizedContext as SlackAppContextWithChannelId;
-        const primaryToken = context.functionBotAccessToken || context.botToken;
-        const client = new SlackAPIClient(primaryToken);
-        if (this.#assistantEnabled && authorizedContext.isAssistantThreadEvent) {
-          const assistantContext = authorizedContext as SlackAppContextWithAssistantUtilities;
-          const { channelId: channel_id, threadTs: thread_ts } = assistantContext;
-          // setStatus
-          assistantContext.setStatus = async ({ status }) => await client.assistant.threads.setStatus({ channel_id, thread_ts, status });
-          // setTitle
-          assistantContext.setTitle = async ({ title }) => await client.assistant.threads.setTitle({ channel_id, thread_ts, title });
-          // setSuggestedPrompts
-          assistantContext.setSuggestedPrompts = async ({ title, prompts }) => {
-            const promptsArgs: { title: string; message: string }[] = [];
-            for (const p of prompts) {
-              if (typeof p === "string") {
-                promptsArgs.push({ message: p, title: p });
-              } else {
-                promptsArgs.push(p);
-              }
+      let settled = false;
+      let deferred = false;
+      const context: SlackAppContextWithFunctionUtilities = {
+        ...base,
+        complete: async (args) => {
+          if (definition) {
+            const errors = validateFunctionParameters(definition.output_parameters, args?.outputs);
+            if (errors.length > 0) {
+              throw new FunctionParameterValidationError(`Invalid outputs for ${definition.callback_id}: ${errors.join(", ")}`);
             }
-            return await client.assistant.threads.setSuggestedPrompts({ channel_id, thread_ts, prompts: promptsArgs, title });
-          };
-          // threadContextStore
-          const threadContextStore =
-            this.assistantThreadContextStore ??
-            new DefaultAssistantThreadContextStore({
-              client,
-              thisBotUserId: context.botUserId,
-            });
-          assistantContext.threadContextStore = threadContextStore;
-          // saveThreadContextStore
-          assistantContext.saveThreadContextStore = async (newContext) => {
-            await threadContextStore.save({ channel_id, thread_ts }, newContext);
-          };
-
-          // threadContext
-          const threadContext: AssistantThreadContext | undefined =
-            (await threadContextStore.find({ channel_id, thread_ts })) ||
-            (body.event.assistant_thread?.context && Object.keys(body.event.assistant_thread.context).length > 0
-              ? body.event.assistant_thread?.context
-              : undefined);
-          if (threadContext) {
-            assistantContext.threadContext = threadContext;
           }
-          // say
-          context.say = async (params) =>
-            await client.chat.postMessage({
-              channel: channel_id,
-              thread_ts,
-              metadata: threadContext
-                ? {
-                    event_type: "assistant_thread_context",
-                    event_payload: { ...threadContext },
-                  }
-                : undefined,
-              ...params,
-            });
-        } else {
-          context.say = async (params) =>
-            await client.chat.postMessage({
-              channel: context.channelId,
-              thread_ts: context.threadTs, // for assistant apps
-              ...params,
-            });
+          settled = true;
+          return await base.complete(args);
+        },
+        fail: async (args) => {
+          settled = true;
+          return await base.fail(args);
+        },
+        deferCompletion: () => {
+          deferred = true;
+        },
+      };
+      try {
+        await lazy({ ...req, context });
+      } catch (e) {
+        if (this.autoFailFunctionExecution && !settled) {
+          try {
+            await base.fail({ error: (e as Error).message ?? String(e) });
+          } catch (failError) {
+            console.error(`Failed to report the function execution failure: ${failError}`);
+          }
         }
+        throw e;
       }
-      if (authorizedContext.responseUrl) {
-        const responseUrl = authorizedContext.responseUrl;
-        // deno-lint-ignore require-await
-        (authorizedContext as SlackAppContextWithRespond).respond = async (params) => {
-          return new ResponseUrlSender(responseUrl).call(params);
-        };
+      if (!settled && !deferred) {
+        console.warn(
+          `The function listener for ${req.payload.function.callback_id} returned without calling complete() or fail(). ` +
+            "If a later step completes the function execution, call deferCompletion() to suppress this warning.",
+        );
       }
+    };
+  }
 
-      const baseRequest: SlackMiddlewareRequest<E> = {
-        ...preAuthorizeRequest,
-        context: authorizedContext,
-      };
-      for (const middlware of this.postAuthorizeMiddleware) {
-        const response = await middlware(baseRequest);
-        if (response) {
-          return toCompleteResponse(response);
-        }
-      }
+  /**
+   * Deletes the saved deduplication key when the processing fails, so that Slack's retry is not treated as a duplicate.
+   * This also works when the processing fails after ackTimeoutMillis elapses.
+   */
+  async #releasingDeduplicationKeyOnFailure(
+    processing: Promise<Response>,
+    // deno-lint-ignore no-explicit-any
+    body: Record<string, any>,
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await processing;
+    } catch (e) {
+      await releaseDeduplicationKey(this.eventDeduplicationStore!, body);
+      throw e;
+    }
+    if (response.status >= 500) {
+      await releaseDeduplicationKey(this.eventDeduplicationStore!, body);
+    }
+    return response;
+  }
 
-      const payload = body as SlackRequestBody;
+  /**
+   * Returns the response from the processing if it completes within ackTimeoutMillis.
+   * Otherwise, responds with the fallback while the processing keeps running in the background.
+   */
+  async #withAckTimeout(
+    processing: Promise<Response>,
+    request: PreAuthorizeSlackMiddlewareRequest<E>,
+    ctx: ExecutionContext,
+    startedAt: number,
+    remainingMillis: number,
+  ): Promise<Response> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => resolve(undefined), Math.max(0, remainingMillis));
+    });
+    try {
+      const response = await Promise.race([processing, timeout]);
+      if (response) {
+        return response;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+    ctx.waitUntil(processing);
+    const fallback = await this.ackTimeoutHandler({
+      request,
+      ...detectListener(request.body),
+      elapsedMillis: Date.now() - startedAt,
+    });
+    return toCompleteResponse(fallback);
+  }
 
-      if (body.type === PayloadType.EventsAPI) {
-        // Events API
-        const slackRequest: SlackRequest<E, SlackEvent<SupportedEventType>> = {
-          payload: body.event,
-          ...baseRequest,
-        };
-        // Collect all matching handlers to run them all
-        // This ensures both built-in handlers (e.g., token revocation) and user handlers are invoked
-        const matchedHandlers: SlackHandler<E, SlackEvent<SupportedEventType>>[] = [];
-        for (const matcher of this.#events) {
-          const handler = matcher(payload);
-          if (handler) {
-            matchedHandlers.push(handler);
-          }
+  /**
+   * Runs the around middleware in the registration order, and then dispatches the request inside the innermost next().
+   */
+  async #runAroundMiddleware(preAuthorizeRequest: PreAuthorizeSlackMiddlewareRequest<E>, ctx: ExecutionContext): Promise<Response> {
+    // deno-lint-ignore no-explicit-any
+    const lazyListeners: Promise<any>[] = [];
+    const trackingCtx: ExecutionContext = {
+      waitUntil: (promise) => {
+        lazyListeners.push(promise);
+        ctx.waitUntil(promise);
+      },
+    };
+    const aroundRequest: AroundMiddlewareRequest<E> = {
+      ...preAuthorizeRequest,
+      lazyCompletion: async () => {
+        await Promise.allSettled(lazyListeners);
+      },
+      waitUntil: (promise) => ctx.waitUntil(promise),
+    };
+    const next = async (index: number): Promise<Response> => {
+      const middleware = this.aroundMiddleware[index];
+      if (!middleware) {
+        return await this.#dispatch(preAuthorizeRequest, trackingCtx);
+      }
+      let called = false;
+      return await middleware(aroundRequest, async () => {
+        if (called) {
+          throw new Error("next() called multiple times in an around middleware");
         }
+        called = true;
+        return await next(index + 1);
+      });
+    };
+    return await next(0);
+  }
 
-        if (matchedHandlers.length > 0) {
-          // Run all lazy handlers before ack (if configured)
-          if (!this.startLazyListenerAfterAck) {
-            for (const handler of matchedHandlers) {
-              ctx.waitUntil(handler.lazy(slackRequest));
+  /**
+   * Runs middleware, authorize() function, and the matching listeners for a verified request.
+   */
+  async #dispatch(preAuthorizeRequest: PreAuthorizeSlackMiddlewareRequest<E>, ctx: ExecutionContext): Promise<Response> {
+    const body = preAuthorizeRequest.body;
+    for (const middlware of this.preAuthorizeMiddleware) {
+      let response: SlackResponse | void;
+      try {
+        response = await middlware(preAuthorizeRequest);
+      } catch (e) {
+        return await this.#handleError({ phase: "preAuthorizeMiddleware", error: e as Error, request: preAuthorizeRequest });
+      }
+      if (response) {
+        return toCompleteResponse(response);
+      }
+    }
+    let authorizeResult: AuthorizeResult;
+    try {
+      authorizeResult = await this.#callAuthorize(preAuthorizeRequest);
+    } catch (
+      // deno-lint-ignore no-explicit-any
+      error: any
+    ) {
+      if ("name" in error && error.name === "AuthorizeError") {
+        const responseOrError: Response | AuthorizeError = await this.authorizeErrorHandler({
+          request: preAuthorizeRequest,
+          error,
+        });
+        if ("name" in responseOrError && responseOrError.name === "AuthorizeError") {
+          throw responseOrError; // AuthorizeError
+        } else {
+          return responseOrError as Response; // Response
+        }
+      } else {
+        // The authorize() function should not throw any other exceptions than AuthorizeError
+        throw error;
+      }
+    }
+    const primaryToken = preAuthorizeRequest.context.functionBotAccessToken || authorizeResult.botToken;
+    const authorizedContext: SlackAppContext = {
+      ...preAuthorizeRequest.context,
+      authorizeResult,
+      client: new SlackAPIClient(primaryToken, {
+        logLevel: this.env.SLACK_LOGGING_LEVEL,
+      }),
+      botToken: authorizeResult.botToken,
+      botId: authorizeResult.botId,
+      botUserId: authorizeResult.botUserId,
+      userToken: authorizeResult.userToken,
+    };
+    if (this.#homeTabRenderer) {
+      authorizedContext.refreshHome = async (userId) => await this.#publishHomeTab(authorizedContext, userId ?? authorizedContext.userId);
+    }
+    if (authorizedContext.channelId) {
+      const context = authorizedContext as SlackAppContextWithChannelId;
+      const primaryToken = context.functionBotAccessToken || context.botToken;
+      const client = new SlackAPIClient(primaryToken);
+      if (this.#assistantEnabled && authorizedContext.isAssistantThreadEvent) {
+        const assistantContext = authorizedContext as SlackAppContextWithAssistantUtilities;
+        const { channelId: channel_id, threadTs: thread_ts } = assistantContext;
+        // setStatus
+        assistantContext.setStatus = async ({ status }) => await client.assistant.threads.setStatus({ channel_id, thread_ts, status });
+        // setTitle
+        assistantContext.setTitle = async ({ title }) => await client.assistant.threads.setTitle({ channel_id, thread_ts, title });
+        // setSuggestedPrompts
+        assistantContext.setSuggestedPrompts = async ({ title, prompts }) => {
+          const promptsArgs: { title: string; message: string }[] = [];
+          for (const p of prompts) {
+            if (typeof p === "string") {
+              promptsArgs.push({ message: p, title: p });
+            } else {
+              promptsArgs.push(p);
             }
           }
+          return await client.assistant.threads.setSuggestedPrompts({ channel_id, thread_ts, prompts: promptsArgs, title });
+        };
+        // threadContextStore
+        const threadContextStore =
+          this.assistantThreadContextStore ??
+          new DefaultAssistantThreadContextStore({
+            client,
+            thisBotUserId: context.botUserId,
+          });
+        assistantContext.threadContextStore = threadContextStore;
+        // saveThreadContextStore
+        assistantContext.saveThreadContextStore = async (newContext) => {
+          await threadContextStore.save({ channel_id, thread_ts }, newContext);
+        };
 
-          // Run all ack handlers and log each response
-          for (const handler of matchedHandlers) {
-            const slackResponse = await handler.ack(slackRequest);
-            if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
-              console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
-            }
-          }
+        // threadContext
+        const threadContext: AssistantThreadContext | undefined =
+          (await threadContextStore.find({ channel_id, thread_ts })) ||
+          (body.event.assistant_thread?.context && Object.keys(body.event.assistant_thread.context).length > 0
+            ? body.event.assistant_thread?.context
+            : undefined);
+        if (threadContext) {
+          assistantContext.threadContext = threadContext;
+        }
+        // say
+        context.say = async (params) =>
+          await client.chat.postMessage({
+            channel: channel_id,
+            thread_ts,
+            metadata: threadContext
+              ? {
+                  event_type: "assistant_thread_context",
+                  event_payload: { ...threadContext },
+                }
+              : undefined,
+            ...params,
+          });
+      } else {
+        context.say = async (params) =>
+          await client.chat.postMessage({
+            channel: context.channelId,
+            thread_ts: context.threadTs, // for assistant apps
+            ...params,
+          });
+      }
+    }
+    if (authorizedContext.functionExecutionId && authorizedContext.functionBotAccessToken) {
+      const context = authorizedContext as SlackAppContextWithFunctionUtilities;
+      const function_execution_id = context.functionExecutionId;
+      context.complete = async (args) =>
+        await context.client.functions.completeSuccess({ function_execution_id, outputs: args?.outputs ?? {} });
+      context.fail = async ({ error }) => await context.client.functions.completeError({ function_execution_id, error });
+      context.deferCompletion = () => {};
+    }
+    if (authorizedContext.responseUrl) {
+      const responseUrl = authorizedContext.responseUrl;
+      // deno-lint-ignore require-await
+      (authorizedContext as SlackAppContextWithRespond).respond = async (params) => {
+        return new ResponseUrlSender(responseUrl).call(params);
+      };
+    }
 
-          // Run all lazy handlers after ack (if configured)
-          if (this.startLazyListenerAfterAck) {
-            for (const handler of matchedHandlers) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-          }
+    const baseRequest: SlackMiddlewareRequest<E> = {
+      ...preAuthorizeRequest,
+      context: authorizedContext,
+    };
+    for (const middlware of this.postAuthorizeMiddleware) {
+      let response: SlackResponse | void;
+      try {
+        response = await middlware(baseRequest);
+      } catch (e) {
+        return await this.#handleError({ phase: "middleware", error: e as Error, request: baseRequest });
+      }
+      if (response) {
+        return toCompleteResponse(response);
+      }
+    }
 
-          return toCompleteResponse("");
-        }
-        if (payload.event?.type === "assistant_thread_context_changed") {
-          // When a developer does not register their customer listener for this event,
-          // SlackApp automatically calls the built-in one for ease of development.
-          const handler = new Assistant({ threadContextStore: this.assistantThreadContextStore }).threadContextChangedHandler;
-          if (!this.startLazyListenerAfterAck) {
-            const req = slackRequest as EventRequest<E, "assistant_thread_context_changed">;
-            ctx.waitUntil(handler(req));
-            return toCompleteResponse();
-          }
-        }
-      } else if (!body.type && body.command) {
-        // Slash commands
-        const slackRequest: SlackRequest<E, SlashCommand> = {
-          payload: body as SlashCommand,
-          ...baseRequest,
-        };
-        for (const matcher of this.#slashCommands) {
-          const handler = matcher(payload);
-          if (handler) {
-            if (!this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            const slackResponse = await handler.ack(slackRequest);
-            if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
-              console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
-            }
-            if (this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            return toCompleteResponse(slackResponse);
-          }
-        }
-      } else if (body.type === PayloadType.GlobalShortcut) {
-        // Global shortcuts
-        const slackRequest: SlackRequest<E, GlobalShortcut> = {
-          payload: body as GlobalShortcut,
-          ...baseRequest,
-        };
-        for (const matcher of this.#globalShorcuts) {
-          const handler = matcher(payload);
-          if (handler) {
-            if (!this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            const slackResponse = await handler.ack(slackRequest);
-            if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
-              console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
-            }
-            if (this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            return toCompleteResponse(slackResponse);
+    const payload = body as SlackRequestBody;
+
+    if (body.type === PayloadType.EventsAPI) {
+      // Events API
+      const slackRequest: SlackRequest<E, SlackEvent<SupportedEventType>> = {
+        payload: body.event,
+        ...baseRequest,
+      };
+      // Collect all matching handlers to run them all
+      // This ensures both built-in handlers (e.g., token revocation) and user handlers are invoked
+      const matchedHandlers = this.#events.findAll(body.event?.type, payload);
+
+      if (matchedHandlers.length > 0) {
+        // Listener middleware can skip its listener; for Events API, the response from middleware is not sent to Slack
+        const handlersToRun: [SlackHandler<E, SlackEvent<SupportedEventType>>, SlackRequest<E, SlackEvent<SupportedEventType>>][] = [];
+        for (const handler of matchedHandlers) {
+          // Each listener receives its own regular expression matching result
+          const listenerRequest = handler.matches ? { ...slackRequest, matches: handler.matches } : slackRequest;
+          if (!(await this.#runListenerMiddleware("event", handler, listenerRequest))) {
+            handlersToRun.push([handler, listenerRequest]);
           }
         }
-      } else if (body.type === PayloadType.MessageShortcut) {
-        // Message shortcuts
-        const slackRequest: SlackRequest<E, MessageShortcut> = {
-          payload: body as MessageShortcut,
-          ...baseRequest,
-        };
-        for (const matcher of this.#messageShorcuts) {
-          const handler = matcher(payload);
-          if (handler) {
-            if (!this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            const slackResponse = await handler.ack(slackRequest);
-            if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
-              console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
-            }
-            if (this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            return toCompleteResponse(slackResponse);
+
+        // Run all lazy handlers before ack (if configured)
+        if (!this.startLazyListenerAfterAck) {
+          for (const [handler, listenerRequest] of handlersToRun) {
+            ctx.waitUntil(this.#runLazyListener("event", handler.lazy(listenerRequest), listenerRequest));
           }
         }
-      } else if (body.type === PayloadType.BlockAction) {
-        // Block actions
-        // deno-lint-ignore no-explicit-any
-        const slackRequest: SlackRequest<E, BlockAction<any>> = {
-          // deno-lint-ignore no-explicit-any
-          payload: body as BlockAction<any>,
-          ...baseRequest,
-        };
-        for (const matcher of this.#blockActions) {
-          const handler = matcher(payload);
-          if (handler) {
-            if (!this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            const slackResponse = await handler.ack(slackRequest);
-            if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
-              console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
-            }
-            if (this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            return toCompleteResponse(slackResponse);
+
+        // Run all ack handlers and log each response
+        for (const [handler, listenerRequest] of handlersToRun) {
+          let slackResponse: AckResponse;
+          try {
+            slackResponse = await handler.ack(listenerRequest);
+          } catch (e) {
+            return await this.#handleError({ phase: "ack", error: e as Error, request: listenerRequest, listenerKind: "event" });
           }
-        }
-      } else if (body.type === PayloadType.BlockSuggestion) {
-        // Block suggestions
-        const slackRequest: SlackRequest<E, BlockSuggestion> = {
-          payload: body as BlockSuggestion,
-          ...baseRequest,
-        };
-        for (const matcher of this.#blockSuggestions) {
-          const handler = matcher(payload);
-          if (handler) {
-            // Note that the only way to respond to a block_suggestion request
-            // is to send an HTTP response with options/option_groups.
-            // Thus, we don't support lazy handlers for this pattern.
-            const slackResponse = await handler.ack(slackRequest);
-            if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
-              console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
-            }
-            return toCompleteResponse(slackResponse);
+          if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
+            console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
           }
         }
-      } else if (body.type === PayloadType.ViewSubmission) {
-        // View submissions
-        const slackRequest: SlackRequest<E, ViewSubmission> = {
-          payload: body as ViewSubmission,
-          ...baseRequest,
-        };
-        for (const matcher of this.#viewSubmissions) {
-          const handler = matcher(payload);
-          if (handler) {
-            if (!this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            const slackResponse = await handler.ack(slackRequest);
-            if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
-              console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
-            }
-            if (this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            return toCompleteResponse(slackResponse);
+
+        // Run all lazy handlers after ack (if configured)
+        if (this.startLazyListenerAfterAck) {
+          for (const [handler, listenerRequest] of handlersToRun) {
+            ctx.waitUntil(this.#runLazyListener("event", handler.lazy(listenerRequest), listenerRequest));
           }
         }
-      } else if (body.type === PayloadType.ViewClosed) {
-        // View closed
-        const slackRequest: SlackRequest<E, ViewClosed> = {
-          payload: body as ViewClosed,
-          ...baseRequest,
-        };
-        for (const matcher of this.#viewClosed) {
-          const handler = matcher(payload);
-          if (handler) {
-            if (!this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            const slackResponse = await handler.ack(slackRequest);
-            if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
-              console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
-            }
-            if (this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            return toCompleteResponse(slackResponse);
-          }
+
+        return toCompleteResponse("");
+      }
+      if (payload.event?.type === "assistant_thread_context_changed") {
+        // When a developer does not register their customer listener for this event,
+        // SlackApp automatically calls the built-in one for ease of development.
+        const handler = new Assistant({ threadContextStore: this.assistantThreadContextStore }).threadContextChangedHandler;
+        if (!this.startLazyListenerAfterAck) {
+          const req = slackRequest as EventRequest<E, "assistant_thread_context_changed">;
+          ctx.waitUntil(this.#runLazyListener("event", handler(req), req));
+          return toCompleteResponse();
         }
-      } else if (body.type === PayloadType.AppRateLimited) {
-        // App rate limited
-        const slackRequest: SlackRequest<E, AppRateLimited> = {
-          payload: body as AppRateLimited,
-          ...baseRequest,
-        };
-        // Only a single appRateLimited handler is supported
-        if (this.#appRateLimited) {
-          const handler = this.#appRateLimited(payload);
-          if (handler) {
-            if (!this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            const slackResponse = await handler.ack(slackRequest);
-            if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
-              console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
-            }
-            if (this.startLazyListenerAfterAck) {
-              ctx.waitUntil(handler.lazy(slackRequest));
-            }
-            return toCompleteResponse(slackResponse);
-          }
+      }
+    } else if (!body.type && body.command) {
+      // Slash commands
+      const slackRequest: SlackRequest<E, SlashCommand> = {
+        payload: body as SlashCommand,
+        ...baseRequest,
+      };
+      const handler = this.#slashCommands.find(body.command, payload);
+      if (handler) {
+        return await this.#handleListener("command", handler, slackRequest, ctx);
+      }
+    } else if (body.type === PayloadType.GlobalShortcut) {
+      // Global shortcuts
+      const slackRequest: SlackRequest<E, GlobalShortcut> = {
+        payload: body as GlobalShortcut,
+        ...baseRequest,
+      };
+      const handler = this.#globalShorcuts.find(body.callback_id, payload);
+      if (handler) {
+        return await this.#handleListener("globalShortcut", handler, slackRequest, ctx);
+      }
+    } else if (body.type === PayloadType.MessageShortcut) {
+      // Message shortcuts
+      const slackRequest: SlackRequest<E, MessageShortcut> = {
+        payload: body as MessageShortcut,
+        ...baseRequest,
+      };
+      const handler = this.#messageShorcuts.find(body.callback_id, payload);
+      if (handler) {
+        return await this.#handleListener("messageShortcut", handler, slackRequest, ctx);
+      }
+    } else if (body.type === PayloadType.BlockAction) {
+      // Block actions
+      // deno-lint-ignore no-explicit-any
+      const slackRequest: SlackRequest<E, BlockAction<any>> = {
+        // deno-lint-ignore no-explicit-any
+        payload: body as BlockAction<any>,
+        ...baseRequest,
+      };
+      const handler = this.#blockActions.find(body.actions?.[0]?.action_id, payload);
+      if (handler) {
+        return await this.#handleListener("action", handler, slackRequest, ctx);
+      }
+    } else if (body.type === PayloadType.BlockSuggestion) {
+      // Block suggestions
+      const slackRequest: SlackRequest<E, BlockSuggestion> = {
+        payload: body as BlockSuggestion,
+        ...baseRequest,
+      };
+      const handler = this.#blockSuggestions.find(body.action_id, payload);
+      if (handler) {
+        // Note that the only way to respond to a block_suggestion request
+        // is to send an HTTP response with options/option_groups.
+        // Thus, we don't support lazy handlers for this pattern.
+        return await this.#handleListener("options", handler, slackRequest, ctx);
+      }
+    } else if (body.type === PayloadType.ViewSubmission) {
+      // View submissions
+      const slackRequest: SlackRequest<E, ViewSubmission> = {
+        payload: body as ViewSubmission,
+        ...baseRequest,
+      };
+      const handler = this.#viewSubmissions.find(body.view?.callback_id, payload);
+      if (handler) {
+        return await this.#handleListener("viewSubmission", handler, slackRequest, ctx);
+      }
+    } else if (body.type === PayloadType.ViewClosed) {
+      // View closed
+      const slackRequest: SlackRequest<E, ViewClosed> = {
+        payload: body as ViewClosed,
+        ...baseRequest,
+      };
+      const handler = this.#viewClosed.find(body.view?.callback_id, payload);
+      if (handler) {
+        return await this.#handleListener("viewClosed", handler, slackRequest, ctx);
+      }
+    } else if (body.type === PayloadType.AppRateLimited) {
+      // App rate limited
+      const slackRequest: SlackRequest<E, AppRateLimited> = {
+        payload: body as AppRateLimited,
+        ...baseRequest,
+      };
+      // Only a single appRateLimited handler is supported
+      if (this.#appRateLimited) {
+        const handler = this.#appRateLimited(payload);
+        if (handler) {
+          return await this.#handleListener("appRateLimited", handler, slackRequest, ctx);
         }
       }
+    }
 
-      // TODO: Add code suggestion here
-      console.log(`*** No listener found ***\n${JSON.stringify(baseRequest.body)}`);
-      return new Response("No listener found", { status: 404 });
+    if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
+      const suggestion = buildCodeSuggestion(baseRequest.body);
+      const message = `*** No listener found ***\n${JSON.stringify(baseRequest.body)}`;
+      console.log(suggestion ? `${message}\n\nTo handle this request, add the following listener:\n\n${suggestion}\n` : message);
     }
-    return new Response("Invalid signature", { status: 401 });
+    return toCompleteResponse(await this.unhandledRequestHandler(baseRequest));
+  }
+
+  /**
+   * Runs the ack function of a matched listener and schedules its lazy function.
+   */
+  async #handleListener<Payload>(
+    listenerKind: ListenerKind,
+    handler: MatchedListener<E, Payload>,
+    slackRequest: SlackRequest<E, Payload>,
+    ctx: ExecutionContext,
+  ): Promise<Response> {
+    let decodedValues: DecodedValues;
+    try {
+      decodedValues = await this.#decodeValues(listenerKind, slackRequest.payload);
+    } catch (e) {
+      return await this.#handleError({ phase: "middleware", error: e as Error, request: slackRequest, listenerKind });
+    }
+    const request = { ...slackRequest, ...decodedValues, ...(handler.matches ? { matches: handler.matches } : {}) };
+    const middlewareResponse = await this.#runListenerMiddleware(listenerKind, handler, request);
+    if (middlewareResponse) {
+      return middlewareResponse;
+    }
+    if (handler.lazy && !this.startLazyListenerAfterAck) {
+      ctx.waitUntil(this.#runLazyListener(listenerKind, handler.lazy(request), request));
+    }
+    let slackResponse: ListenerAckResponse;
+    try {
+      slackResponse = await handler.ack(request);
+    } catch (e) {
+      return await this.#handleError({ phase: "ack", error: e as Error, request, listenerKind });
+    }
+    if (isDebugLogEnabled(this.env.SLACK_LOGGING_LEVEL)) {
+      console.log(`*** Slack response ***\n${prettyPrint(slackResponse)}`);
+    }
+    if (handler.lazy && this.startLazyListenerAfterAck) {
+      ctx.waitUntil(this.#runLazyListener(listenerKind, handler.lazy(request), request));
+    }
+    return toCompleteResponse(slackResponse);
+  }
+
+  /**
+   * Decodes view.private_metadata and the action value encoded by valueCodec.
+   * Plain values that were not encoded are left as-is, and tampered or expired values are rejected before running the listener.
+   * @throws ValueCodecError if an encoded value fails verification
+   */
+  async #decodeValues(listenerKind: ListenerKind, payload: unknown): Promise<DecodedValues> {
+    const codec = this.valueCodec;
+    if (!codec || (listenerKind !== "action" && listenerKind !== "viewSubmission" && listenerKind !== "viewClosed")) {
+      return {};
+    }
+    const body = payload as { view?: { private_metadata?: string }; actions?: { value?: string }[] };
+    const decode = async (value: string | undefined): Promise<unknown> => {
+      return codec.isEncoded(value) ? await codec.decode(value) : undefined;
+    };
+    const decoded: DecodedValues = {};
+    const metadata = await decode(body.view?.private_metadata);
+    if (metadata !== undefined) {
+      decoded.metadata = metadata;
+    }
+    const actionValue = await decode(body.actions?.[0]?.value);
+    if (actionValue !== undefined) {
+      decoded.actionValue = actionValue;
+    }
+    return decoded;
+  }
+
+  /**
+   * Runs the listener middleware of a matched listener.
+   * @returns response if a listener middleware skips the listener
+   */
+  async #runListenerMiddleware<Payload>(
+    listenerKind: ListenerKind,
+    handler: WithListenerMiddleware<E, unknown>,
+    request: SlackRequest<E, Payload>,
+  ): Promise<Response | undefined> {
+    for (const middleware of handler.middleware ?? []) {
+      let response: SlackResponse | void;
+      try {
+        response = await middleware(request);
+      } catch (e) {
+        return await this.#handleError({ phase: "middleware", error: e as Error, request, listenerKind });
+      }
+      if (response) {
+        return toCompleteResponse(response);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Passes an exception thrown by a lazy function to the error handler.
+   * When the error handler is absent, the exception is propagated to ExecutionContext#waitUntil().
+   */
+  async #runLazyListener<Payload>(listenerKind: ListenerKind, lazy: Promise<void>, request: SlackRequest<E, Payload>): Promise<void> {
+    try {
+      await lazy;
+    } catch (e) {
+      if (!this.errorHandler) {
+        throw e;
+      }
+      await this.errorHandler({ phase: "lazy", error: e as Error, request, listenerKind });
+    }
+  }
+
+  /**
+   * Passes an exception to the error handler and builds the response to Slack.
+   * When the error handler is absent, the exception is thrown as-is.
+   */
+  async #handleError(args: ErrorHandlerArgs<E>): Promise<Response> {
+    if (!this.errorHandler) {
+      throw args.error;
+    }
+    const response = await this.errorHandler(args);
+    return toCompleteResponse(response);
   }
 }
 
+/**
+ * Returned data from any type of ack function.
+ */
+type ListenerAckResponse = AckResponse | MessageAckResponse | OptionsAckResponse | ViewAckResponse;
+
+/**
+ * A listener's functions along with its listener middleware and the result of its regular expression pattern matching.
+ */
+type WithListenerMiddleware<E extends SlackAppEnv, H> = H & { middleware?: ListenerMiddleware<E>[]; matches?: RegExpMatchArray };
+
+/**
+ * The functions of a matched listener. Note that block_suggestion listeners do not have a lazy function.
+ */
+type MatchedListener<E extends SlackAppEnv, Payload> = WithListenerMiddleware<
+  E,
+  {
+    ack(request: SlackRequest<E, Payload>): Promise<ListenerAckResponse>;
+    lazy?(request: SlackRequest<E, Payload>): Promise<void>;
+  }
+>;
+
+/**
+ * The custom function that a block_actions/view_submission/view_closed listener is scoped to.
+ */
+type FunctionScope = { callbackId: FunctionExecutedEventCallbackIdPattern | SlackFunctionDefinition };
+
+/**
+ * Determines if the interactivity originates from an execution of the custom function.
+ */
+function isFromFunction(body: SlackRequestBody, scope: FunctionScope): boolean {
+  if (!body.function_data || !body.bot_access_token) {
+    return false;
+  }
+  return matchFunctionCallbackId(body.function_data.function.callback_id, scope.callbackId) !== null;
+}
+
 export type StringOrRegExp = string | RegExp;
 
-export type MessageEventPattern = string | RegExp | undefined;
+export type MessageEventPattern = string | RegExp | MessageEventConstraints | undefined;
+
+export type EventPattern<Type extends SupportedEventType> = Type | Type[] | EventConstraints<Type>;
 
 /**
  * Events API request
@@ -0,0 +1,136 @@
+import { SlackAppEnv } from "../app-env";
+import { Authorize } from "./authorize";
+import { AuthorizeResult } from "./authorize-result";
+
+/**
+ * The org/team/user that an authorize() result is cached for.
+ */
+export interface AuthorizeCacheKey {
+  enterpriseId?: string;
+  teamId?: string;
+  userId?: string;
+}
+
+/**
+ * The cache for authorize() function results.
+ */
+export interface AuthorizeCache {
+  /**
+   * Returns the cached result for the key.
+   * @param key the org/team/user of the request
+   * @returns the result if it's cached and not expired yet
+   */
+  get(key: AuthorizeCacheKey): Promise<AuthorizeResult | undefined>;
+
+  /**
+   * Caches the result for the key.
+   * @param key the org/team/user of the request
+   * @param result the result of the authorize() function call
+   */
+  set(key: AuthorizeCacheKey, result: AuthorizeResult): Promise<void>;
+
+  /**
+   * Deletes the cached results that match the key.
+   * The absent properties match any values; for instance, a key without userId deletes all the results for the team.
+   * @param key the org/team/user to invalidate
+   */
+  invalidate(key: AuthorizeCacheKey): Promise<void>;
+}
+
+/**
+ * Options for MemoryAuthorizeCache.
+ */
+export interface MemoryAuthorizeCacheOptions {
+  /**
+   * How long each result is kept in seconds. The default is 300 seconds.
+   */
+  ttlSeconds?: number;
+  /**
+   * The maximum number of the cached results. The oldest ones are evicted first. The default is 1000.
+   */
+  maxEntries?: number;
+}
+
+/**
+ * AuthorizeCache implementation that keeps the results in memory.
+ * Since this does not rely on timers, this works on edge runtimes as well.
+ * Please note that the data is not shared among multiple isolates/processes.
+ */
+export class MemoryAuthorizeCache implements AuthorizeCache {
+  #ttlMillis: number;
+  #maxEntries: number;
+  #entries: Map<string, { key: AuthorizeCacheKey; result: AuthorizeResult; expiresAt: number }> = new Map();
+
+  constructor(options: MemoryAuthorizeCacheOptions = {}) {
+    this.#ttlMillis = (options.ttlSeconds ?? 300) * 1000;
+    this.#maxEntries = options.maxEntries ?? 1000;
+  }
+
+  // deno-lint-ignore require-await
+  async get(key: AuthorizeCacheKey): Promise<AuthorizeResult | undefined> {
+    const entry = this.#entries.get(toCacheKeyString(key));
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.#entries.delete(toCacheKeyString(key));
+      return undefined;
+    }
+    return entry?.result;
+  }
+
+  // deno-lint-ignore require-await
+  async set(key: AuthorizeCacheKey, result: AuthorizeResult): Promise<void> {
+    const now = Date.now();
+    // All the entries share the same TTL and are re-inserted when updated, so the insertion order is also the expiration order
+    for (const [k, entry] of this.#entries) {
+      if (entry.expiresAt > now) {
+        break;
+      }
+      this.#entries.delete(k);
+    }
+    const keyString = toCacheKeyString(key);
+    this.#entries.delete(keyString);
+    while (this.#entries.size >= this.#maxEntries) {
+      // Map keeps the insertion order, so the first one is the oldest
+      this.#entries.delete(this.#entries.keys().next().value!);
+    }
+    this.#entries.set(keyString, { key, result, expiresAt: now + this.#ttlMillis });
+  }
+
+  // deno-lint-ignore require-await
+  async invalidate(key: AuthorizeCacheKey): Promise<void> {
+    for (const [k, entry] of this.#entries) {
+      if (
+        (key.enterpriseId === undefined || key.enterpriseId === entry.key.enterpriseId) &&
+        (key.teamId === undefined || key.teamId === entry.key.teamId) &&
+        (key.userId === undefined || key.userId === entry.key.userId)
+      ) {
+        this.#entries.delete(k);
+      }
+    }
+  }
+}
+
+function toCacheKeyString({ enterpriseId, teamId, userId }: AuthorizeCacheKey): string {
+  return `${enterpriseId ?? ""}:${teamId ?? ""}:${userId ?? ""}`;
+}
+
+/**
+ * Wraps an authorize function to reuse its results for the same org/team/user until they expire in the cache.
+ * When you pass authorizeCache to SlackApp, the app wraps its authorize function with this
+ * and invalidates the cache when receiving tokens_revoked, app_uninstalled, scope_granted, and scope_denied events.
+ * @param authorize the authorize function to wrap
+ * @param cache the cache to store the results
+ * @returns authorize function
+ */
+export function cachedAuthorize<E extends SlackAppEnv>(authorize: Authorize<E>, cache: AuthorizeCache): Authorize<E> {
+  return async (req) => {
+    const { enterpriseId, teamId, userId, actorUserId } = req.context;
+    const key: AuthorizeCacheKey = { enterpriseId, teamId, userId: actorUserId ?? userId };
+    const cached = await cache.get(key);
+    if (cached) {
+      return cached;
+    }
+    const result = await authorize(req);
+    await cache.set(key, result);
+    return result;
+  };
+}
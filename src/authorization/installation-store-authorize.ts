@@ -0,0 +1,186 @@
+import { AuthTestResponse, OAuthV2AccessResponse, SlackAPIClient, SlackAPIError } from "slack-web-api-client";
+import { SlackOAuthEnv } from "../app-env";
+import { AuthorizeError } from "../errors";
+import { Installation } from "../oauth/installation";
+import { InstallationStore } from "../oauth/installation-store";
+import { Authorize } from "./authorize";
+
+/**
+ * Options for installationStoreAuthorize().
+ */
+export interface InstallationStoreAuthorizeOptions {
+  /**
+   * When a token with token rotation enabled expires within this period in seconds, it is refreshed before use.
+   * The default is 7200 seconds (2 hours).
+   */
+  tokenRotationWindowSeconds?: number;
+}
+
+/**
+ * Builds an authorize function on top of an InstallationStore's find methods.
+ * The bot token is resolved for the request's org/team, falling back to the org-wide installation for the org.
+ * The user token is the installer's one by default; when env.SLACK_USER_TOKEN_RESOLUTION is "actor",
+ * the token of the user who performed the action (context.actorUserId) is used instead.
+ *
+ * When token rotation is enabled, the tokens about to expire are refreshed by oauth.v2.access API
+ * and the refreshed installation is saved via InstallationStore#save().
+ * Concurrent requests for the same installation share a single refresh within the runtime.
+ *
+ * @example
+ * ```typescript
+ * toAuthorize(): Authorize<E> {
+ *   return installationStoreAuthorize(this);
+ * }
+ * ```
+ *
+ * @param store the installation store to find and save installations
+ * @param options the options such as the token rotation window
+ * @returns authorize function
+ */
+export function installationStoreAuthorize<E extends SlackOAuthEnv>(
+  store: Pick<InstallationStore<E>, "findBotInstallation" | "findUserInstallation" | "save">,
+  options: InstallationStoreAuthorizeOptions = {},
+): Authorize<E> {
+  const windowSeconds = options.tokenRotationWindowSeconds ?? 7200;
+  const refreshing = new Map<string, Promise<Installation>>();
+
+  // Refreshes the expiring tokens of the given types; a running refresh for the same tokens is shared
+  const refresh = async (env: E, installation: Installation, types: TokenType[]): Promise<Installation> => {
+    if (!types.some((type) => isExpiring(installation, type, windowSeconds))) {
+      return installation;
+    }
+    const key = types.map((type) => installation[`${type}_refresh_token`]).join(":");
+    let refreshed = refreshing.get(key);
+    if (!refreshed) {
+      refreshed = refreshTokens(env, store, installation, types, windowSeconds).finally(() => refreshing.delete(key));
+      refreshing.set(key, refreshed);
+    }
+    return await refreshed;
+  };
+
+  return async (req) => {
+    const { enterpriseId, teamId, isEnterpriseInstall, actorUserId } = req.context;
+    let botInstallation = await store.findBotInstallation({ enterpriseId, teamId, isEnterpriseInstall });
+    if (!botInstallation?.bot_token && enterpriseId && !isEnterpriseInstall) {
+      // When the app is installed into the whole org, there is no installation per workspace
+      botInstallation = await store.findBotInstallation({ enterpriseId, teamId, isEnterpriseInstall: true });
+    }
+    if (!botInstallation || !botInstallation.bot_token) {
+      throw new AuthorizeError(`No installation found for enterprise_id: ${enterpriseId}, team_id: ${teamId}`);
+    }
+
+    let userInstallation: Installation | undefined;
+    if (req.env.SLACK_USER_TOKEN_RESOLUTION === "actor") {
+      botInstallation = await refresh(req.env, botInstallation, ["bot"]);
+      userInstallation = actorUserId
+        ? await store.findUserInstallation({
+            enterpriseId: botInstallation.enterprise_id,
+            teamId: botInstallation.team_id,
+            userId: actorUserId,
+            isEnterpriseInstall: botInstallation.is_enterprise_install,
+          })
+        : undefined;
+      if (userInstallation) {
+        userInstallation = await refresh(req.env, userInstallation, ["user"]);
+      }
+    } else {
+      // The installer's user token is always used together with the bot token in the same installation
+      botInstallation = await refresh(req.env, botInstallation, ["bot", "user"]);
+      userInstallation = botInstallation;
+    }
+
+    const botToken = botInstallation.bot_token!;
+    let response: AuthTestResponse;
+    try {
+      response = await new SlackAPIClient(botToken).auth.test();
+    } catch (e) {
+      throw new AuthorizeError(`Failed to call auth.test API due to ${(e as SlackAPIError).message}`);
+    }
+    return {
+      enterpriseId: response.enterprise_id,
+      teamId: response.team_id,
+      team: response.team,
+      url: response.url,
+      botId: response.bot_id!,
+      botUserId: response.user_id!,
+      botToken,
+      botScopes: botInstallation.bot_scopes ?? [],
+      userId: userInstallation?.user_id,
+      userToken: userInstallation?.user_token,
+      userScopes: userInstallation?.user_scopes,
+    };
+  };
+}
+
+type TokenType = "bot" | "user";
+
+function isExpiring(installation: Installation, type: TokenType, windowSeconds: number): boolean {
+  const expiresAt = installation[`${type}_token_expires_at`];
+  return (
+    installation[`${type}_refresh_token`] !== undefined &&
+    expiresAt !== undefined &&
+    expiresAt - new Date().getTime() / 1000 < windowSeconds
+  );
+}
+
+/**
+ * Refreshes the expiring tokens and saves the installation with only the tokens of the given types,
+ * so that the possibly outdated tokens of the other type do not overwrite newer ones in the store.
+ */
+async function refreshTokens<E extends SlackOAuthEnv>(
+  env: E,
+  store: Pick<InstallationStore<E>, "save">,
+  installation: Installation,
+  types: TokenType[],
+  windowSeconds: number,
+): Promise<Installation> {
+  const client = new SlackAPIClient(undefined, { logLevel: env.SLACK_LOGGING_LEVEL });
+  const refreshed: Installation = { ...installation };
+  for (const type of types.filter((t) => isExpiring(installation, t, windowSeconds))) {
+    const target = `the ${type} token for enterprise_id: ${installation.enterprise_id}, team_id: ${installation.team_id}`;
+    let response: OAuthV2AccessResponse;
+    try {
+      response = await client.oauth.v2.access({
+        client_id: env.SLACK_CLIENT_ID,
+        client_secret: env.SLACK_CLIENT_SECRET,
+        grant_type: "refresh_token",
+        refresh_token: installation[`${type}_refresh_token`],
+      });
+    } catch (e) {
+      throw new AuthorizeError(`Failed to refresh ${target} due to ${(e as SlackAPIError).message}`, "refresh_failed");
+    }
+    if (!response.access_token || !response.refresh_token || !response.expires_in) {
+      throw new AuthorizeError(
+        `Failed to refresh ${target} due to an oauth.v2.access API response without tokens`,
+        "refresh_response_invalid",
+      );
+    }
+    refreshed[`${type}_token`] = response.access_token;
+    refreshed[`${type}_refresh_token`] = response.refresh_token;
+    refreshed[`${type}_token_expires_at`] = new Date().getTime() / 1000 + response.expires_in;
+  }
+
+  const {
+    bot_token,
+    bot_user_id,
+    bot_scopes,
+    bot_refresh_token,
+    bot_token_expires_at,
+    user_token,
+    user_scopes,
+    user_refresh_token,
+    user_token_expires_at,
+    ...rest
+  } = refreshed;
+  const toSave: Installation = {
+    ...rest,
+    ...(types.includes("bot") ? { bot_token, bot_user_id, bot_scopes, bot_refresh_token, bot_token_expires_at } : {}),
+    ...(types.includes("user") ? { user_token, user_scopes, user_refresh_token, user_token_expires_at } : {}),
+  };
+  try {
+    await store.save(toSave, undefined);
+  } catch (e) {
+    throw new AuthorizeError(`Failed to save the refreshed installation due to ${(e as Error).message}`, "save_failed");
+  }
+  return refreshed;
+}
@@ -0,0 +1,185 @@
+import { ValueCodecError } from "../errors";
+
+/**
+ * The maximum length of a view's private_metadata.
+ */
+export const PRIVATE_METADATA_MAX_LENGTH = 3000;
+
+/**
+ * The maximum length of an interactive element's value.
+ */
+export const ACTION_VALUE_MAX_LENGTH = 2000;
+
+/**
+ * Options for ValueCodec.
+ */
+export interface ValueCodecOptions {
+  /**
+   * The secret for signing the encoded values with HMAC-SHA256.
+   * When this is absent, the values are not signed, so the decoded values cannot be trusted.
+   */
+  secret?: string;
+  /**
+   * How long the encoded values are valid in seconds. When this is absent, the values never expire.
+   */
+  maxAgeSeconds?: number;
+}
+
+interface EncodedEnvelope {
+  v: unknown; // the value
+  t: number; // issued at in seconds
+}
+
+// Encoded values look like "j:{json}" or "z:{compressed}", and signed ones have ".{signature}" after the mode.
+const encodedValuePattern = /^([jz])(?:\.([A-Za-z0-9_-]+))?:/;
+
+/**
+ * The codec that serializes typed objects into the opaque strings such as view.private_metadata and a button's value.
+ * The encoded values are compressed when they exceed the length limit, and signed when the secret is given.
+ *
+ * @example
+ * ```typescript
+ * const valueCodec = new ValueCodec({ secret: env.SLACK_VALUE_SIGNING_SECRET, maxAgeSeconds: 3600 });
+ * const app = new SlackApp({ env, valueCodec });
+ * const metadata = await valueCodec.encodePrivateMetadata({ orderId: "O123", step: 2 });
+ * await context.client.views.open({ trigger_id, view: { ...modal, private_metadata: metadata } });
+ * ```
+ */
+export class ValueCodec {
+  #secret: string | undefined;
+  #maxAgeSeconds: number | undefined;
+
+  constructor(options: ValueCodecOptions = {}) {
+    this.#secret = options.secret;
+    this.#maxAgeSeconds = options.maxAgeSeconds;
+  }
+
+  /**
+   * Encodes a value for view.private_metadata.
+   * @param value the value to encode, which must be serializable as JSON
+   * @returns the encoded string
+   * @throws ValueCodecError if the encoded string exceeds 3000 characters even after compression
+   */
+  async encodePrivateMetadata(value: unknown): Promise<string> {
+    return await this.encode(value, PRIVATE_METADATA_MAX_LENGTH);
+  }
+
+  /**
+   * Encodes a value for an interactive element's value such as a button's value.
+   * @param value the value to encode, which must be serializable as JSON
+   * @returns the encoded string
+   * @throws ValueCodecError if the encoded string exceeds 2000 characters even after compression
+   */
+  async encodeActionValue(value: unknown): Promise<string> {
+    return await this.encode(value, ACTION_VALUE_MAX_LENGTH);
+  }
+
+  /**
+   * Encodes a value into a string.
+   * @param value the value to encode, which must be serializable as JSON
+   * @param maxLength the maximum length of the encoded string
+   * @returns the encoded string
+   * @throws ValueCodecError if the encoded string exceeds maxLength even after compression
+   */
+  async encode(value: unknown, maxLength: number): Promise<string> {
+    const envelope: EncodedEnvelope = { v: value, t: Math.floor(Date.now() / 1000) };
+    const json = JSON.stringify(envelope);
+    let encoded = await this.#sign("j", json);
+    if (encoded.length > maxLength) {
+      encoded = await this.#sign("z", await compress(json));
+    }
+    if (encoded.length > maxLength) {
+      throw new ValueCodecError(`The encoded value has ${encoded.length} characters even after compression, which exceeds ${maxLength}`);
+    }
+    return encoded;
+  }
+
+  /**
+   * Determines if the string was encoded by a ValueCodec.
+   * @param encoded the string to check
+   * @returns true if the string has the format of encoded values
+   */
+  isEncoded(encoded: string | undefined): encoded is string {
+    return encoded !== undefined && encodedValuePattern.test(encoded);
+  }
+
+  /**
+   * Decodes and verifies an encoded string.
+   * @param encoded the string that encode() returned
+   * @returns the decoded value
+   * @throws ValueCodecError if the string is malformed, tampered, or expired
+   */
+  async decode<T = unknown>(encoded: string): Promise<T> {
+    const matched = encoded.match(encodedValuePattern);
+    if (!matched) {
+      throw new ValueCodecError("The value was not encoded by ValueCodec");
+    }
+    const [header, mode, signature] = matched;
+    const data = encoded.substring(header.length);
+    let envelope: EncodedEnvelope;
+    try {
+      // Both the signature and the compressed data are base64url, so decoding them may throw a DOMException
+      if (this.#secret) {
+        if (!signature || !(await verify(this.#secret, `${mode}:${data}`, signature))) {
+          throw new ValueCodecError("The value has an invalid signature");
+        }
+      }
+      envelope = JSON.parse(mode === "z" ? await decompress(data) : data);
+    } catch (e) {
+      if (e instanceof ValueCodecError) {
+        throw e;
+      }
+      throw new ValueCodecError(`The value is malformed: ${(e as Error).message}`);
+    }
+    if (this.#maxAgeSeconds !== undefined && envelope.t + this.#maxAgeSeconds < Math.floor(Date.now() / 1000)) {
+      throw new ValueCodecError("The value has expired");
+    }
+    return envelope.v as T;
+  }
+
+  async #sign(mode: "j" | "z", data: string): Promise<string> {
+    if (!this.#secret) {
+      return `${mode}:${data}`;
+    }
+    const key = await importKey(this.#secret, "sign");
+    const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${mode}:${data}`));
+    return `${mode}.${toBase64Url(new Uint8Array(signature))}:${data}`;
+  }
+}
+
+async function importKey(secret: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [usage]);
+}
+
+async function verify(secret: string, data: string, signature: string): Promise<boolean> {
+  const key = await importKey(secret, "verify");
+  return await crypto.subtle.verify("HMAC", key, fromBase64Url(signature), new TextEncoder().encode(data));
+}
+
+async function compress(data: string): Promise<string> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"));
+  return toBase64Url(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+async function decompress(data: string): Promise<string> {
+  const stream = new Blob([fromBase64Url(data)]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return await new Response(stream).text();
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) {
+    binary += String.fromCharCode(b);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(data: string): ArrayBuffer {
+  const binary = atob(data.replace(/-/g, "+").replace(/_/g, "/"));
+  const buffer = new ArrayBuffer(binary.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return buffer;
+}
@@ -0,0 +1,373 @@
+/**
+ * The type of a slash command argument.
+ * "user", "channel", and "usergroup" accept the escaped mentions such as <@U123|name>.
+ */
+export type CommandArgumentType = "string" | "number" | "user" | "channel" | "usergroup";
+
+/**
+ * A positional argument of a slash command.
+ */
+export interface CommandArgument {
+  name: string;
+  type?: CommandArgumentType; // default: "string"
+  description?: string;
+  /**
+   * When this is set to true, the argument can be omitted. Optional arguments must come after the required ones.
+   */
+  optional?: boolean;
+  /**
+   * When this is set to true, the argument receives all the remaining words as an array. Only the last argument can be rest.
+   */
+  rest?: boolean;
+}
+
+/**
+ * A flag argument of a slash command such as --due tomorrow and --urgent.
+ */
+export interface CommandFlag {
+  /**
+   * "boolean" flags do not take a value. The default is "string".
+   */
+  type?: CommandArgumentType | "boolean";
+  description?: string;
+  /**
+   * The single-character alias such as "d" for -d.
+   */
+  alias?: string;
+}
+
+/**
+ * The arguments and flags of a slash command or its subcommand.
+ */
+export interface CommandSignature {
+  description?: string;
+  args?: CommandArgument[];
+  flags?: { [name: string]: CommandFlag };
+}
+
+/**
+ * The structured definition of a slash command. Passing this to app.command() enables argument parsing.
+ */
+export interface SlashCommandDefinition extends CommandSignature {
+  command: string;
+  subcommands?: { [name: string]: CommandSignature };
+}
+
+/**
+ * A parsed user/channel/usergroup mention.
+ */
+export interface CommandMention {
+  type: "user" | "channel" | "usergroup";
+  id: string;
+  name?: string;
+}
+
+/**
+ * The value of a parsed argument or flag.
+ */
+export type CommandArgumentValue = string | number | boolean | CommandMention | (string | number | CommandMention)[];
+
+/**
+ * The parsed arguments of a slash command.
+ */
+export interface ParsedCommandArgs {
+  subcommand?: string;
+  args: { [name: string]: CommandArgumentValue | undefined };
+  flags: { [name: string]: CommandArgumentValue | undefined };
+}
+
+/**
+ * The result of parsing a slash command's text.
+ */
+export type CommandParseResult =
+  | { type: "args"; args: ParsedCommandArgs }
+  | { type: "help"; subcommand?: string }
+  | { type: "error"; message: string; subcommand?: string };
+
+/**
+ * Defines a slash command with its subcommands, arguments, and flags.
+ * @param definition the command definition
+ * @returns the definition as-is
+ *
+ * @example
+ * ```typescript
+ * const todo = defineCommand({
+ *   command: "/todo",
+ *   description: "Manages your to-dos",
+ *   subcommands: {
+ *     add: {
+ *       description: "Adds a to-do",
+ *       args: [{ name: "assignee", type: "user" }, { name: "title" }],
+ *       flags: { due: { description: "The due date" } },
+ *     },
+ *     list: { description: "Lists your to-dos" },
+ *   },
+ * });
+ * app.command(todo, async ({ args }) => `Added ${args.args.title}`);
+ * ```
+ */
+export function defineCommand(definition: SlashCommandDefinition): SlashCommandDefinition {
+  return definition;
+}
+
+/**
+ * Determines if the given value is a slash command definition.
+ */
+export function isSlashCommandDefinition(value: unknown): value is SlashCommandDefinition {
+  return typeof value === "object" && value !== null && !(value instanceof RegExp) && "command" in value;
+}
+
+const helpWords = ["help", "--help", "-h"];
+
+/**
+ * Parses the text of a slash command along with its definition.
+ * @param definition the command definition
+ * @param text the text in a slash command payload
+ * @returns the parsed arguments, a help request, or an error
+ */
+export function parseCommandText(definition: SlashCommandDefinition, text: string): CommandParseResult {
+  const tokens = tokenize(text);
+  if (tokens === undefined) {
+    return { type: "error", message: "A quotation mark is not closed." };
+  }
+  if (tokens.length > 0 && helpWords.includes(tokens[0])) {
+    return { type: "help" };
+  }
+  let subcommand: string | undefined = undefined;
+  let signature: CommandSignature = definition;
+  if (definition.subcommands) {
+    if (tokens.length === 0) {
+      return { type: "error", message: "A subcommand is required." };
+    }
+    subcommand = tokens.shift()!;
+    if (!Object.prototype.hasOwnProperty.call(definition.subcommands, subcommand)) {
+      return { type: "error", message: `Unknown subcommand: ${subcommand}` };
+    }
+    signature = definition.subcommands[subcommand];
+    if (tokens.length > 0 && helpWords.includes(tokens[0])) {
+      return { type: "help", subcommand };
+    }
+  }
+  try {
+    return { type: "args", args: { subcommand, ...parseSignature(signature, tokens) } };
+  } catch (e) {
+    return { type: "error", message: (e as Error).message, subcommand };
+  }
+}
+
+function parseSignature(signature: CommandSignature, tokens: string[]): Pick<ParsedCommandArgs, "args" | "flags"> {
+  const flagDefinitions = signature.flags ?? {};
+  const flags: ParsedCommandArgs["flags"] = {};
+  const positionals: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const flagName = toFlagName(token, flagDefinitions);
+    if (flagName === undefined) {
+      positionals.push(token);
+      continue;
+    }
+    const flag = Object.prototype.hasOwnProperty.call(flagDefinitions, flagName) ? flagDefinitions[flagName] : undefined;
+    if (!flag) {
+      throw new Error(`Unknown flag: ${token.split("=")[0]}`);
+    }
+    const inlineValue = token.includes("=") ? token.substring(token.indexOf("=") + 1) : undefined;
+    if (flag.type === "boolean") {
+      flags[flagName] = inlineValue === undefined ? true : inlineValue !== "false";
+      continue;
+    }
+    const value = inlineValue ?? tokens[++i];
+    if (value === undefined) {
+      throw new Error(`--${flagName} requires a value.`);
+    }
+    flags[flagName] = convert(`--${flagName}`, flag.type ?? "string", value);
+  }
+
+  const args: ParsedCommandArgs["args"] = {};
+  for (const arg of signature.args ?? []) {
+    if (arg.rest) {
+      args[arg.name] = positionals.splice(0).map((value) => convert(arg.name, arg.type ?? "string", value));
+      if ((args[arg.name] as unknown[]).length === 0 && !arg.optional) {
+        throw new Error(`${arg.name} is required.`);
+      }
+      continue;
+    }
+    const value = positionals.shift();
+    if (value === undefined) {
+      if (!arg.optional) {
+        throw new Error(`${arg.name} is required.`);
+      }
+      continue;
+    }
+    args[arg.name] = convert(arg.name, arg.type ?? "string", value);
+  }
+  if (positionals.length > 0) {
+    throw new Error(`Too many arguments: ${positionals.join(" ")}`);
+  }
+  return { args, flags };
+}
+
+function toFlagName(token: string, flags: { [name: string]: CommandFlag }): string | undefined {
+  if (token.startsWith("--") && token.length > 2) {
+    return token.substring(2).split("=")[0];
+  }
+  if (/^-[a-zA-Z](=.*)?$/.test(token)) {
+    const alias = token.substring(1, 2);
+    const name = Object.keys(flags).find((name) => flags[name].alias === alias);
+    if (name === undefined) {
+      throw new Error(`Unknown flag: ${token}`);
+    }
+    return name;
+  }
+  return undefined;
+}
+
+const mentionPatterns: Record<CommandMention["type"], RegExp[]> = {
+  user: [/^<@([UW][A-Z0-9]+)(?:\|([^>]*))?>$/, /^([UW][A-Z0-9]{2,})$/],
+  channel: [/^<#([CGD][A-Z0-9]+)(?:\|([^>]*))?>$/, /^([CGD][A-Z0-9]{2,})$/],
+  usergroup: [/^<!subteam\^([S][A-Z0-9]+)(?:\|@?([^>]*))?>$/, /^([S][A-Z0-9]{2,})$/],
+};
+
+function convert(name: string, type: CommandArgumentType, value: string): string | number | CommandMention {
+  if (type === "string") {
+    return value;
+  }
+  if (type === "number") {
+    const number = Number(value);
+    if (value.trim() === "" || Number.isNaN(number)) {
+      throw new Error(`${name} must be a number: ${value}`);
+    }
+    return number;
+  }
+  for (const pattern of mentionPatterns[type]) {
+    const matched = value.match(pattern);
+    if (matched) {
+      return matched[2] ? { type, id: matched[1], name: matched[2] } : { type, id: matched[1] };
+    }
+  }
+  throw new Error(`${name} must be a ${type} mention: ${value}`);
+}
+
+/**
+ * Splits the text into words. Double/single quotation marks (including curly ones) at the start of a word group words,
+ * while the ones inside a word such as an apostrophe are kept as-is.
+ * @returns undefined if a quotation mark is not closed
+ */
+function tokenize(text: string): string[] | undefined {
+  const closingQuotes: Record<string, string> = { '"': '"', "'": "'", "“": "”", "‘": "’" };
+  const tokens: string[] = [];
+  let current: string | undefined = undefined;
+  let closingQuote: string | undefined = undefined;
+  for (const char of text) {
+    if (closingQuote !== undefined) {
+      if (char === closingQuote) {
+        closingQuote = undefined;
+      } else {
+        current += char;
+      }
+    } else if (current === undefined && closingQuotes[char] !== undefined) {
+      closingQuote = closingQuotes[char];
+      current = "";
+    } else if (/\s/.test(char)) {
+      if (current !== undefined) {
+        tokens.push(current);
+        current = undefined;
+      }
+    } else {
+      current = (current ?? "") + char;
+    }
+  }
+  if (closingQuote !== undefined) {
+    return undefined;
+  }
+  if (current !== undefined) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+/**
+ * Determines if the command has user/channel/usergroup arguments or flags.
+ * Slack sends these mentions in the parsable format such as <@U123|name> only when the command escapes them.
+ * @param definition the command definition
+ * @returns true if the command needs should_escape: true in the app manifest
+ */
+export function hasMentionArguments(definition: SlashCommandDefinition): boolean {
+  const isMention = (type: CommandFlag["type"]) => type === "user" || type === "channel" || type === "usergroup";
+  return [definition, ...Object.values(definition.subcommands ?? {})].some(
+    (signature) =>
+      (signature.args ?? []).some((arg) => isMention(arg.type)) ||
+      Object.values(signature.flags ?? {}).some((flag) => isMention(flag.type)),
+  );
+}
+
+/**
+ * Builds the usage hint of a slash command for the app manifest.
+ * @param definition the command definition
+ * @returns the usage hint such as "[add|list|help]"
+ */
+export function buildCommandUsageHint(definition: SlashCommandDefinition): string {
+  if (definition.subcommands) {
+    return `[${[...Object.keys(definition.subcommands), "help"].join("|")}]`;
+  }
+  return signatureToString(definition);
+}
+
+/**
+ * Builds the usage message of a slash command in mrkdwn format.
+ * @param definition the command definition
+ * @param subcommand the subcommand to describe in detail (optional)
+ * @returns the usage message
+ */
+export function buildCommandUsage(definition: SlashCommandDefinition, subcommand?: string): string {
+  const lines: string[] = [];
+  const signature = subcommand !== undefined ? definition.subcommands?.[subcommand] : undefined;
+  if (signature && subcommand !== undefined) {
+    lines.push(usageLine(`${definition.command} ${subcommand}`, signature));
+    lines.push(...argumentDetails(signature));
+    return lines.join("\n");
+  }
+  if (definition.description) {
+    lines.push(definition.description);
+  }
+  lines.push("*Usage:*");
+  if (definition.subcommands) {
+    for (const [name, sub] of Object.entries(definition.subcommands)) {
+      lines.push(`• ${usageLine(`${definition.command} ${name}`, sub)}`);
+    }
+    lines.push(`• \`${definition.command} <subcommand> help\` - Shows the details of the subcommand`);
+  } else {
+    lines.push(`• ${usageLine(definition.command, definition)}`);
+    lines.push(...argumentDetails(definition));
+  }
+  return lines.join("\n");
+}
+
+function usageLine(command: string, signature: CommandSignature): string {
+  const parts = [command, signatureToString(signature)].filter((part) => part.length > 0);
+  const line = `\`${parts.join(" ")}\``;
+  return signature.description ? `${line} - ${signature.description}` : line;
+}
+
+function signatureToString(signature: CommandSignature): string {
+  const parts: string[] = [];
+  for (const arg of signature.args ?? []) {
+    const name = arg.rest ? `${arg.name}...` : arg.name;
+    parts.push(arg.optional ? `[${name}]` : `<${name}>`);
+  }
+  for (const [name, flag] of Object.entries(signature.flags ?? {})) {
+    parts.push(flag.type === "boolean" ? `[--${name}]` : `[--${name} <${flag.type ?? "string"}>]`);
+  }
+  return parts.join(" ");
+}
+
+function argumentDetails(signature: CommandSignature): string[] {
+  const lines: string[] = [];
+  for (const arg of signature.args ?? []) {
+    lines.push(`    • \`${arg.name}\` (${arg.type ?? "string"})${arg.description ? ` - ${arg.description}` : ""}`);
+  }
+  for (const [name, flag] of Object.entries(signature.flags ?? {})) {
+    const alias = flag.alias ? `, -${flag.alias}` : "";
+    lines.push(`    • \`--${name}${alias}\` (${flag.type ?? "string"})${flag.description ? ` - ${flag.description}` : ""}`);
+  }
+  return lines;
+}
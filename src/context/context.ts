@@ -7,6 +7,8 @@ import {
   AssistantThreadsSetStatusResponse,
   AssistantThreadsSetSuggestedPromptsResponse,
   AssistantThreadsSetTitleResponse,
+  FunctionsCompleteErrorResponse,
+  FunctionsCompleteSuccessResponse,
 } from "slack-web-api-client";
 import { PayloadType } from "../request/payload-types";
 import { AssistantThreadContextStore } from "../assistant/thread-context-store";
@@ -53,6 +55,12 @@ export type SlackAppContext = {
   botUserId: string; // this must exist here
   userToken?: string;
   authorizeResult: AuthorizeResult;
+  /**
+   * Renders the Home tab registered by app.home() and publishes it for the user.
+   * The user of the incoming request is used when userId is absent.
+   * This is available only when the app has the Home tab renderer.
+   */
+  refreshHome?: (userId?: string) => Promise<void>;
 } & PreAuthorizeSlackAppContext;
 
 /**
@@ -78,6 +86,28 @@ export type SlackAppContextWithAssistantUtilities = SlackAppContextWithChannelId
   isAssitantThreadEvent: true;
 };
 
+/**
+ * SlackApp context object that provides the utilities for completing a custom function execution.
+ */
+// deno-lint-ignore no-explicit-any
+export type SlackAppContextWithFunctionUtilities<Outputs = Record<string, any>> = {
+  functionExecutionId: string;
+  functionBotAccessToken: string;
+  /**
+   * Completes the function execution successfully with the outputs.
+   */
+  complete: (args?: { outputs?: Outputs }) => Promise<FunctionsCompleteSuccessResponse>;
+  /**
+   * Completes the function execution with an error message.
+   */
+  fail: (args: { error: string }) => Promise<FunctionsCompleteErrorResponse>;
+  /**
+   * Tells the app that a later step (e.g., a button click) completes the function execution.
+   * Calling this suppresses the warning about the function listener returning without completion.
+   */
+  deferCompletion: () => void;
+} & SlackAppContext;
+
 /**
  * SlackApp context object that provides channelId and respond() utility.
  */
@@ -0,0 +1,100 @@
+import { PayloadType } from "../request/payload-types";
+
+/**
+ * The store that remembers already received requests to prevent listeners from running more than once.
+ */
+export interface EventDeduplicationStore {
+  /**
+   * Saves the key only when it does not exist yet. This operation should be atomic.
+   * @param key the key identifying an incoming request
+   * @returns true if the key is newly saved; false if the key already exists (= duplicate)
+   */
+  saveIfAbsent(key: string): Promise<boolean>;
+
+  /**
+   * Deletes the key so that Slack's retry of a request that failed to be processed is not treated as a duplicate.
+   * When a store does not implement this, such retries are acknowledged without running listeners.
+   * @param key the key identifying an incoming request
+   */
+  delete?(key: string): Promise<void>;
+}
+
+/**
+ * Options for MemoryEventDeduplicationStore.
+ */
+export interface MemoryEventDeduplicationStoreOptions {
+  /**
+   * How long each key is kept in seconds. The default is 600 seconds,
+   * which covers the whole period of Slack's retries for Events API deliveries.
+   */
+  ttlSeconds?: number;
+}
+
+/**
+ * EventDeduplicationStore implementation that keeps the keys in memory.
+ * Please note that the data is not shared among multiple isolates/processes.
+ */
+export class MemoryEventDeduplicationStore implements EventDeduplicationStore {
+  #ttlMillis: number;
+  #expirations: Map<string, number> = new Map();
+
+  constructor(options: MemoryEventDeduplicationStoreOptions = {}) {
+    this.#ttlMillis = (options.ttlSeconds ?? 600) * 1000;
+  }
+
+  // deno-lint-ignore require-await
+  async saveIfAbsent(key: string): Promise<boolean> {
+    const now = Date.now();
+    // All the keys share the same TTL, so the insertion order of the map is also the expiration order
+    for (const [k, expiresAt] of this.#expirations) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.#expirations.delete(k);
+    }
+    if (this.#expirations.has(key)) {
+      return false;
+    }
+    this.#expirations.set(key, now + this.#ttlMillis);
+    return true;
+  }
+
+  // deno-lint-ignore require-await
+  async delete(key: string): Promise<void> {
+    this.#expirations.delete(key);
+  }
+}
+
+/**
+ * How to handle requests retried by Slack:
+ * - "deduplicate": process a retry only when the store does not have its original request
+ * - "skip": always acknowledge retries without running listeners
+ * - "skipHttpTimeout": acknowledge retries due to http_timeout without running listeners; deduplicate the others
+ */
+export type RetryPolicy = "deduplicate" | "skip" | "skipHttpTimeout";
+
+/**
+ * Extracts the key for deduplication from a request payload.
+ * Events API payloads use event_id, and interactivity payloads use trigger_id or action_ts.
+ * @param body the whole request payload data
+ * @returns the key if the payload can be identified
+ */
+export function extractDeduplicationKey(
+  // deno-lint-ignore no-explicit-any
+  body: Record<string, any>,
+): string | undefined {
+  if (body.type === PayloadType.EventsAPI) {
+    return body.event_id ? `event:${body.event_id}` : undefined;
+  }
+  const type = body.type ?? (body.command ? "command" : undefined);
+  if (!type) {
+    return undefined;
+  }
+  if (body.trigger_id) {
+    return `${type}:${body.trigger_id}`;
+  }
+  if (type === PayloadType.BlockAction && body.actions && body.actions[0]?.action_ts) {
+    return `${type}:${body.actions[0].action_ts}`;
+  }
+  return undefined;
+}
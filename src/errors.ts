@@ -8,13 +8,24 @@ export class ConfigError extends Error {
   }
 }
 
+/**
+ * The reason why refreshing the tokens of an installation failed during an authorize() call.
+ */
+export type AuthorizeErrorReason = "refresh_failed" | "refresh_response_invalid" | "save_failed";
+
 /**
  * Exception that occurred during an authorize() call.
  */
 export class AuthorizeError extends Error {
-  constructor(message: string) {
+  /**
+   * The reason why the token refresh failed, which is absent for the other failures.
+   */
+  reason?: AuthorizeErrorReason;
+
+  constructor(message: string, reason?: AuthorizeErrorReason) {
     super(message);
     this.name = "AuthorizeError";
+    this.reason = reason;
   }
 }
 
@@ -27,3 +38,23 @@ export class SocketModeError extends Error {
     this.name = "SocketModeError";
   }
 }
+
+/**
+ * Exception that occurred when a custom function's inputs/outputs do not match its definition.
+ */
+export class FunctionParameterValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FunctionParameterValidationError";
+  }
+}
+
+/**
+ * Exception that occurred when encoding or decoding a value with ValueCodec.
+ */
+export class ValueCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValueCodecError";
+  }
+}
@@ -0,0 +1,307 @@
+import { RichTextBlock, ViewInputBlock } from "slack-web-api-client";
+import { DataSubmissionView, UploadedFile, ViewStateValue } from "../request/payload/view-objects";
+import { ViewErrorsResponse } from "../response/response-body";
+
+/**
+ * The mapping from the input elements to the TypeScript types of their submitted values.
+ */
+export interface FormElementValueTypes {
+  plain_text_input: string;
+  url_text_input: string;
+  email_text_input: string;
+  number_input: number;
+  rich_text_input: RichTextBlock;
+  datepicker: string;
+  timepicker: string;
+  datetimepicker: number;
+  static_select: string;
+  external_select: string;
+  radio_buttons: string;
+  multi_static_select: string[];
+  multi_external_select: string[];
+  checkboxes: string[];
+  users_select: string;
+  multi_users_select: string[];
+  conversations_select: string;
+  multi_conversations_select: string[];
+  channels_select: string;
+  multi_channels_select: string[];
+  file_input: UploadedFile[];
+}
+
+/**
+ * The type of an input element that a form field can have.
+ */
+export type FormElementType = keyof FormElementValueTypes;
+
+/**
+ * The validator of a form field. It returns the error message to display under the input block, or nothing when the value is valid.
+ */
+export type FormFieldValidator<V> = (value: V) => string | undefined | void | Promise<string | undefined | void>;
+
+/**
+ * A field of a modal form, which becomes an input block.
+ */
+export type FormField<T extends FormElementType = FormElementType> = {
+  type: T;
+  label: string;
+  hint?: string;
+  /**
+   * When this is set to true, the field can be left empty.
+   */
+  optional?: boolean;
+  /**
+   * The block_id of the input block. The default is the field name.
+   */
+  blockId?: string;
+  /**
+   * The action_id of the input element. The default is the field name.
+   */
+  actionId?: string;
+  /**
+   * The other properties of the input element such as placeholder and options.
+   */
+  element?: Omit<Extract<ViewInputBlock["element"], { type: T }>, "type" | "action_id">;
+  /**
+   * Validates the submitted value. This is called only when the field has a value.
+   */
+  validate?: FormFieldValidator<FormElementValueTypes[T]>;
+};
+
+/**
+ * A form field of any element type.
+ */
+export type AnyFormField = { [T in FormElementType]: FormField<T> }[FormElementType];
+
+/**
+ * The fields of a modal form keyed by their names.
+ */
+export interface FormFields {
+  [name: string]: AnyFormField;
+}
+
+/**
+ * The definition of a modal form. Passing this to app.viewSubmission() enables decoding and validating the submitted values.
+ */
+export interface ModalFormDefinition<F extends FormFields = FormFields> {
+  callback_id: string;
+  fields: F;
+}
+
+type OptionalFieldName<F extends FormFields> = { [K in keyof F]: F[K] extends { optional: true } ? K : never }[keyof F];
+
+/**
+ * The TypeScript type of the submitted values. The required fields are non-optional properties.
+ */
+export type FormValues<F extends FormFields> = {
+  [K in Exclude<keyof F, OptionalFieldName<F>>]: FormElementValueTypes[F[K]["type"]];
+} & {
+  [K in OptionalFieldName<F>]?: FormElementValueTypes[F[K]["type"]];
+};
+
+/**
+ * The result of reading a form's submitted values.
+ */
+export type FormReadResult<F extends FormFields> =
+  | { type: "values"; values: FormValues<F> }
+  | { type: "errors"; response: ViewErrorsResponse };
+
+/**
+ * Defines a modal form with its fields.
+ * @param definition the callback_id of the modal and the fields
+ * @returns the definition as-is
+ *
+ * @example
+ * ```typescript
+ * const newTask = defineForm({
+ *   callback_id: "new_task",
+ *   fields: {
+ *     title: { type: "plain_text_input", label: "Title", validate: (v) => (v.length < 3 ? "Too short" : undefined) },
+ *     assignees: { type: "multi_users_select", label: "Assignees", optional: true },
+ *     due: { type: "datepicker", label: "Due date" },
+ *   },
+ * });
+ * const blocks = buildFormBlocks(newTask, { title: "Draft" });
+ * app.viewSubmission(newTask, async ({ formValues }) => {
+ *   await saveTask(formValues.title, formValues.due, formValues.assignees ?? []);
+ * });
+ * ```
+ */
+export function defineForm<const F extends FormFields>(definition: ModalFormDefinition<F>): ModalFormDefinition<F> {
+  return definition;
+}
+
+/**
+ * Determines if the given value is a modal form definition.
+ */
+export function isModalFormDefinition(value: unknown): value is ModalFormDefinition {
+  return typeof value === "object" && value !== null && !(value instanceof RegExp) && "callback_id" in value && "fields" in value;
+}
+
+/**
+ * Builds the input blocks of a form.
+ * @param form the form definition
+ * @param initialValues the values to fill in the fields (optional)
+ * @returns the input blocks in the order of the fields
+ */
+export function buildFormBlocks<F extends FormFields>(
+  form: ModalFormDefinition<F>,
+  initialValues: Partial<FormValues<F>> = {},
+): ViewInputBlock[] {
+  const blocks: ViewInputBlock[] = [];
+  for (const [name, field] of Object.entries(form.fields)) {
+    const initialValue = (initialValues as Record<string, unknown>)[name];
+    const element = {
+      ...field.element,
+      type: field.type,
+      action_id: field.actionId ?? name,
+      ...(initialValue !== undefined ? toInitialValue(field, initialValue) : {}),
+    } as ViewInputBlock["element"];
+    const block: ViewInputBlock = {
+      type: "input",
+      block_id: field.blockId ?? name,
+      label: { type: "plain_text", text: field.label },
+      element,
+    };
+    if (field.hint) {
+      block.hint = { type: "plain_text", text: field.hint };
+    }
+    if (field.optional) {
+      block.optional = true;
+    }
+    blocks.push(block);
+  }
+  return blocks;
+}
+
+/**
+ * Reads the submitted values from view.state.values and validates them.
+ * @param form the form definition
+ * @param view the submitted view
+ * @returns the typed values, or the response_action: "errors" response keyed by block_id
+ */
+export async function readFormValues<F extends FormFields>(
+  form: ModalFormDefinition<F>,
+  view: Pick<DataSubmissionView, "state">,
+): Promise<FormReadResult<F>> {
+  const values: Record<string, unknown> = {};
+  const errors: { [blockId: string]: string } = {};
+  for (const [name, field] of Object.entries(form.fields)) {
+    const blockId = field.blockId ?? name;
+    const state = view.state.values[blockId]?.[field.actionId ?? name];
+    const value = state ? fromStateValue(field.type, state) : undefined;
+    if (value === undefined) {
+      if (!field.optional) {
+        errors[blockId] = "This field is required.";
+      }
+      continue;
+    }
+    values[name] = value;
+    // deno-lint-ignore no-explicit-any
+    const message = await (field.validate as FormFieldValidator<any> | undefined)?.(value);
+    if (message) {
+      errors[blockId] = message;
+    }
+  }
+  if (Object.keys(errors).length > 0) {
+    return { type: "errors", response: { response_action: "errors", errors } };
+  }
+  return { type: "values", values: values as FormValues<F> };
+}
+
+function fromStateValue(type: FormElementType, state: ViewStateValue): unknown {
+  switch (type) {
+    case "plain_text_input":
+    case "url_text_input":
+    case "email_text_input":
+      return state.value || undefined;
+    case "number_input":
+      return state.value ? Number(state.value) : undefined;
+    case "rich_text_input":
+      return state.rich_text_value;
+    case "datepicker":
+      return state.selected_date ?? undefined;
+    case "timepicker":
+      return state.selected_time ?? undefined;
+    case "datetimepicker":
+      return state.selected_date_time ?? undefined;
+    case "static_select":
+    case "external_select":
+    case "radio_buttons":
+      return state.selected_option?.value;
+    case "multi_static_select":
+    case "multi_external_select":
+    case "checkboxes":
+      return nonEmpty(state.selected_options?.map((o) => o.value));
+    case "users_select":
+      return state.selected_user ?? undefined;
+    case "multi_users_select":
+      return nonEmpty(state.selected_users);
+    case "conversations_select":
+      return state.selected_conversation ?? undefined;
+    case "multi_conversations_select":
+      return nonEmpty(state.selected_conversations);
+    case "channels_select":
+      return state.selected_channel ?? undefined;
+    case "multi_channels_select":
+      return nonEmpty(state.selected_channels);
+    case "file_input":
+      return nonEmpty(state.files);
+  }
+}
+
+function nonEmpty<T>(values: T[] | undefined): T[] | undefined {
+  return values && values.length > 0 ? values : undefined;
+}
+
+// deno-lint-ignore no-explicit-any
+function toInitialValue(field: AnyFormField, value: any): Record<string, unknown> {
+  switch (field.type) {
+    case "plain_text_input":
+    case "url_text_input":
+    case "email_text_input":
+    case "rich_text_input":
+      return { initial_value: value };
+    case "number_input":
+      return { initial_value: String(value) };
+    case "datepicker":
+      return { initial_date: value };
+    case "timepicker":
+      return { initial_time: value };
+    case "datetimepicker":
+      return { initial_date_time: value };
+    case "static_select":
+    case "radio_buttons": {
+      const option = findOptions(field.element, [value])[0];
+      return option ? { initial_option: option } : {};
+    }
+    case "multi_static_select":
+    case "checkboxes": {
+      const options = findOptions(field.element, value);
+      return options.length > 0 ? { initial_options: options } : {};
+    }
+    case "users_select":
+      return { initial_user: value };
+    case "multi_users_select":
+      return { initial_users: value };
+    case "conversations_select":
+      return { initial_conversation: value };
+    case "multi_conversations_select":
+      return { initial_conversations: value };
+    case "channels_select":
+      return { initial_channel: value };
+    case "multi_channels_select":
+      return { initial_channels: value };
+    default:
+      // external_select requires the option text, and file_input has no initial value
+      return {};
+  }
+}
+
+function findOptions<O extends { value?: string }>(
+  element: { options?: O[]; option_groups?: { options: O[] }[] } | undefined,
+  values: string[],
+): O[] {
+  const options = [...(element?.options ?? []), ...(element?.option_groups ?? []).flatMap((g) => g.options)];
+  return options.filter((o) => o.value !== undefined && values.includes(o.value));
+}
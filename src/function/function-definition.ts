@@ -0,0 +1,239 @@
+import { ManifestFunction, ManifestParameters } from "slack-web-api-client";
+
+/**
+ * The mapping from the parameter types of custom functions to their TypeScript types.
+ */
+export interface FunctionParameterTypes {
+  string: string;
+  boolean: boolean;
+  integer: number;
+  number: number;
+  // deno-lint-ignore no-explicit-any
+  object: Record<string, any>;
+  "slack#/types/user_id": string;
+  "slack#/types/channel_id": string;
+  "slack#/types/usergroup_id": string;
+  "slack#/types/team_id": string;
+  "slack#/types/message_ts": string;
+  "slack#/types/date": string;
+  "slack#/types/timestamp": number;
+  "slack#/types/user_permission": string;
+  // deno-lint-ignore no-explicit-any
+  "slack#/types/rich_text": any;
+  // deno-lint-ignore no-explicit-any
+  "slack#/types/expanded_rich_text": any;
+  // deno-lint-ignore no-explicit-any
+  "slack#/types/blocks": any[];
+  // deno-lint-ignore no-explicit-any
+  "slack#/types/message_context": Record<string, any>;
+  // deno-lint-ignore no-explicit-any
+  "slack#/types/interactivity": Record<string, any>;
+}
+
+/**
+ * The type of a custom function's input/output parameter.
+ */
+export type FunctionParameterType = keyof FunctionParameterTypes | "array";
+
+interface FunctionParameterBase {
+  title?: string;
+  description?: string;
+  hint?: string;
+}
+
+/**
+ * A custom function's input/output parameter.
+ */
+export type FunctionParameter =
+  | (FunctionParameterBase & { type: keyof FunctionParameterTypes })
+  | (FunctionParameterBase & { type: "array"; items: { type: keyof FunctionParameterTypes } });
+
+/**
+ * The input/output parameters of a custom function, which has the same structure as in the app manifest.
+ */
+export interface FunctionParameters {
+  properties: { [name: string]: FunctionParameter };
+  required?: readonly string[];
+}
+
+/**
+ * The TypeScript type of a parameter's value.
+ */
+export type FunctionParameterValue<P extends FunctionParameter> = P extends { type: "array"; items: { type: infer T } }
+  ? T extends keyof FunctionParameterTypes
+    ? FunctionParameterTypes[T][]
+    : never
+  : P extends { type: infer T }
+    ? T extends keyof FunctionParameterTypes
+      ? FunctionParameterTypes[T]
+      : never
+    : never;
+
+type RequiredParameterName<P extends FunctionParameters> = P["required"] extends readonly (infer N)[] ? N & keyof P["properties"] : never;
+
+/**
+ * The TypeScript type of the input/output values. The required parameters are non-optional properties.
+ */
+export type FunctionParameterValues<P extends FunctionParameters> = {
+  [K in RequiredParameterName<P>]: FunctionParameterValue<P["properties"][K]>;
+} & {
+  [K in Exclude<keyof P["properties"], RequiredParameterName<P>>]?: FunctionParameterValue<P["properties"][K]>;
+};
+
+/**
+ * The definition of a custom function, which types the listener's inputs and outputs.
+ */
+export interface SlackFunctionDefinition<
+  I extends FunctionParameters = FunctionParameters,
+  O extends FunctionParameters = FunctionParameters,
+> {
+  callback_id: string;
+  title: string;
+  description?: string;
+  input_parameters: I;
+  output_parameters: O;
+}
+
+/**
+ * Defines a custom function with its input/output parameters.
+ * Passing the definition to app.function() types the inputs and the outputs of complete(),
+ * and validates them at runtime.
+ * @param definition the callback_id, title, and parameters of the function
+ * @returns the definition as-is
+ *
+ * @example
+ * ```typescript
+ * const approveRequest = defineFunction({
+ *   callback_id: "approve_request",
+ *   title: "Approve a request",
+ *   input_parameters: {
+ *     properties: { requester: { type: "slack#/types/user_id" } },
+ *     required: ["requester"],
+ *   },
+ *   output_parameters: {
+ *     properties: { approved: { type: "boolean" } },
+ *     required: ["approved"],
+ *   },
+ * });
+ * app.function(approveRequest, async ({ payload, context }) => {
+ *   await context.complete({ outputs: { approved: payload.inputs.requester !== "U111" } });
+ * });
+ * ```
+ */
+export function defineFunction<const I extends FunctionParameters, const O extends FunctionParameters>(
+  definition: SlackFunctionDefinition<I, O>,
+): SlackFunctionDefinition<I, O> {
+  return definition;
+}
+
+/**
+ * Determines if the given value is a custom function definition.
+ */
+export function isSlackFunctionDefinition(value: unknown): value is SlackFunctionDefinition {
+  return typeof value === "object" && value !== null && !(value instanceof RegExp) && "callback_id" in value;
+}
+
+/**
+ * Options for validateFunctionParameters().
+ */
+export interface FunctionParameterValidationOptions {
+  /**
+   * When this is set to true, the values that the parameters do not declare are ignored.
+   * The app sets this for inputs, since Slack can send more inputs than the definition in the code
+   * (e.g., while the app manifest is updated); the outputs are always strictly checked.
+   */
+  ignoreUndeclared?: boolean;
+}
+
+/**
+ * Validates the input/output values against the parameters.
+ * @param parameters the input_parameters/output_parameters of a function definition
+ * @param values the inputs/outputs
+ * @param options whether to ignore the undeclared values
+ * @returns the problems found; an empty array if the values are valid
+ */
+export function validateFunctionParameters(
+  parameters: FunctionParameters,
+  // deno-lint-ignore no-explicit-any
+  values: Record<string, any> | undefined,
+  options: FunctionParameterValidationOptions = {},
+): string[] {
+  const errors: string[] = [];
+  const given = values ?? {};
+  for (const name of parameters.required ?? []) {
+    if (given[name] === undefined || given[name] === null) {
+      errors.push(`${name} is required`);
+    }
+  }
+  for (const [name, value] of Object.entries(given)) {
+    const parameter = parameters.properties[name];
+    if (!parameter) {
+      if (!options.ignoreUndeclared) {
+        errors.push(`${name} is not defined`);
+      }
+    } else if (value !== undefined && value !== null) {
+      if (parameter.type === "array") {
+        if (!Array.isArray(value)) {
+          errors.push(`${name} must be an array`);
+        } else if (value.some((item) => !isValueOfType(parameter.items.type, item))) {
+          errors.push(`${name} must be an array of ${parameter.items.type}`);
+        }
+      } else if (!isValueOfType(parameter.type, value)) {
+        errors.push(`${name} must be ${parameter.type}`);
+      }
+    }
+  }
+  return errors;
+}
+
+function isValueOfType(type: keyof FunctionParameterTypes, value: unknown): boolean {
+  switch (type) {
+    case "boolean":
+      return typeof value === "boolean";
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+    case "slack#/types/timestamp":
+      return typeof value === "number";
+    case "object":
+    case "slack#/types/message_context":
+    case "slack#/types/interactivity":
+      return typeof value === "object" && !Array.isArray(value);
+    case "slack#/types/blocks":
+      return Array.isArray(value);
+    case "slack#/types/rich_text":
+    case "slack#/types/expanded_rich_text":
+      return true;
+    default:
+      return typeof value === "string";
+  }
+}
+
+/**
+ * Builds the "functions" section of the app manifest from the function definitions.
+ * @param definitions the function definitions
+ * @returns the functions keyed by their callback_id
+ */
+export function toFunctionsManifest(definitions: SlackFunctionDefinition[]): Record<string, ManifestFunction> {
+  const functions: Record<string, ManifestFunction> = {};
+  for (const definition of definitions) {
+    functions[definition.callback_id] = {
+      title: definition.title,
+      // The manifest requires the description
+      description: definition.description ?? definition.title,
+      input_parameters: toParametersManifest(definition.input_parameters),
+      output_parameters: toParametersManifest(definition.output_parameters),
+    };
+  }
+  return functions;
+}
+
+function toParametersManifest(parameters: FunctionParameters): ManifestParameters {
+  const required = [...(parameters.required ?? [])];
+  const properties: ManifestParameters["properties"] = {};
+  for (const [name, parameter] of Object.entries(parameters.properties)) {
+    const property: FunctionParameter & { is_required: boolean } = { ...parameter, is_required: required.includes(name) };
+    properties[name] = property;
+  }
+  return { properties, required };
+}
@@ -0,0 +1,219 @@
+import { FunctionExecutedEventCallbackIdPattern, noopLazyHandler, StringOrRegExp } from "../app";
+import { SlackAppEnv } from "../app-env";
+import { FunctionInteractivityAckHandler, FunctionInteractivityLazyHandler, SlackHandler } from "../handler/handler";
+import { SlackViewHandler, ViewAckResponse } from "../handler/view-handler";
+import { parseListenerArgs } from "../middleware/listener-args";
+import { ListenerMiddleware, ListenerOptions } from "../middleware/middleware";
+import { BlockAction, BlockElementActions, BlockElementTypes } from "../request/payload/block-action";
+import { ViewClosed } from "../request/payload/view-closed";
+import { ViewSubmission } from "../request/payload/view-submission";
+
+/**
+ * The listener functions along with their listener middleware, which are passed to the registrar.
+ */
+export type FunctionInteractivityListener<E extends SlackAppEnv, H> = H & { middleware: ListenerMiddleware<E>[] };
+
+/**
+ * The app-side registration methods that restrict the listeners to the interactivity originating from a custom function.
+ * SlackApp provides this in app.function(), so you don't need to implement it.
+ */
+export interface FunctionInteractivityRegistrar<E extends SlackAppEnv> {
+  action(
+    constraints: StringOrRegExp | { type: string; block_id?: string; action_id: string },
+    // deno-lint-ignore no-explicit-any
+    listener: FunctionInteractivityListener<E, SlackHandler<E, BlockAction<any>>>,
+  ): void;
+  viewSubmission(callbackId: StringOrRegExp, listener: FunctionInteractivityListener<E, SlackViewHandler<E, ViewSubmission>>): void;
+  viewClosed(callbackId: StringOrRegExp, listener: FunctionInteractivityListener<E, SlackViewHandler<E, ViewClosed>>): void;
+}
+
+/**
+ * The methods of an app or a router that are not scoped to a custom function.
+ */
+export type FunctionChainParentMethods<P> = {
+  // deno-lint-ignore no-explicit-any
+  [K in keyof P as K extends "action" | "view" | "viewSubmission" | "viewClosed"
+    ? never
+    : P[K] extends (...args: any[]) => unknown
+      ? K
+      : never]: P[K];
+};
+
+/**
+ * The custom function returned by app.function() and router.function(). Its action/view methods register function-scoped
+ * listeners, and the other methods are forwarded to the app (or the router), so that you can keep chaining the calls.
+ */
+export type ChainedSlackFunction<E extends SlackAppEnv, P> = SlackFunction<E> & FunctionChainParentMethods<P>;
+
+/**
+ * The scope of a custom function returned by app.function(), which handles the interactivity
+ * (e.g., button clicks and modal submissions) that originates from the function's executions. The listeners match only
+ * when the payload's function_data.function.callback_id matches the function, and their context can complete()/fail() the execution.
+ *
+ * @example
+ * ```typescript
+ * app
+ *   .function("approve_request", async ({ context }) => {
+ *     context.deferCompletion();
+ *     // post a message with the "approve" button here
+ *   })
+ *   .action("approve", async () => {}, async ({ context }) => {
+ *     await context.complete({ outputs: { approved: true } });
+ *   });
+ * ```
+ */
+export class SlackFunction<E extends SlackAppEnv = SlackAppEnv> {
+  /**
+   * The pattern to match callback_id of the function.
+   */
+  readonly callbackId: FunctionExecutedEventCallbackIdPattern;
+  #registrar: FunctionInteractivityRegistrar<E>;
+
+  constructor(callbackId: FunctionExecutedEventCallbackIdPattern, registrar: FunctionInteractivityRegistrar<E>) {
+    this.callbackId = callbackId;
+    this.#registrar = registrar;
+  }
+
+  /**
+   * Registers a listener that handles type: "block_actions" requests originating from this function.
+   * @param constraints the constraints to match block_id/action_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  action<
+    T extends BlockElementTypes,
+    A extends BlockAction<Extract<BlockElementActions, { type: T }>> = BlockAction<Extract<BlockElementActions, { type: T }>>,
+  >(
+    constraints: StringOrRegExp | { type: T; block_id?: string; action_id: string },
+    ack: FunctionInteractivityAckHandler<A, E>,
+    lazy?: FunctionInteractivityLazyHandler<A, E>,
+  ): this;
+  action<
+    T extends BlockElementTypes,
+    A extends BlockAction<Extract<BlockElementActions, { type: T }>> = BlockAction<Extract<BlockElementActions, { type: T }>>,
+  >(
+    constraints: StringOrRegExp | { type: T; block_id?: string; action_id: string },
+    options: ListenerOptions<E>,
+    ack: FunctionInteractivityAckHandler<A, E>,
+    lazy?: FunctionInteractivityLazyHandler<A, E>,
+  ): this;
+  action<
+    T extends BlockElementTypes,
+    A extends BlockAction<Extract<BlockElementActions, { type: T }>> = BlockAction<Extract<BlockElementActions, { type: T }>>,
+  >(constraints: StringOrRegExp | { type: T; block_id?: string; action_id: string }, ...args: unknown[]): this {
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<
+      E,
+      FunctionInteractivityAckHandler<A, E>,
+      FunctionInteractivityLazyHandler<A, E>
+    >(args);
+    this.#registrar.action(constraints, { ack, lazy, middleware });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles type: "view_submission"/"view_closed" requests originating from this function.
+   * @param callbackId the constraints to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  view(
+    callbackId: StringOrRegExp,
+    ack: FunctionInteractivityAckHandler<ViewSubmission | ViewClosed, E, ViewAckResponse>,
+    lazy?: FunctionInteractivityLazyHandler<ViewSubmission | ViewClosed, E>,
+  ): this;
+  view(
+    callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: FunctionInteractivityAckHandler<ViewSubmission | ViewClosed, E, ViewAckResponse>,
+    lazy?: FunctionInteractivityLazyHandler<ViewSubmission | ViewClosed, E>,
+  ): this;
+  view(callbackId: StringOrRegExp, ...args: unknown[]): this {
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<
+      E,
+      FunctionInteractivityAckHandler<ViewSubmission | ViewClosed, E, ViewAckResponse>,
+      FunctionInteractivityLazyHandler<ViewSubmission | ViewClosed, E>
+    >(args);
+    return this.viewSubmission(callbackId, middleware, ack, lazy).viewClosed(callbackId, middleware, ack, lazy);
+  }
+
+  /**
+   * Registers a listener that handles type: "view_submission" requests originating from this function.
+   * @param callbackId the constraints to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  viewSubmission(
+    callbackId: StringOrRegExp,
+    ack: FunctionInteractivityAckHandler<ViewSubmission, E, ViewAckResponse>,
+    lazy?: FunctionInteractivityLazyHandler<ViewSubmission, E>,
+  ): this;
+  viewSubmission(
+    callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: FunctionInteractivityAckHandler<ViewSubmission, E, ViewAckResponse>,
+    lazy?: FunctionInteractivityLazyHandler<ViewSubmission, E>,
+  ): this;
+  viewSubmission(callbackId: StringOrRegExp, ...args: unknown[]): this {
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<
+      E,
+      FunctionInteractivityAckHandler<ViewSubmission, E, ViewAckResponse>,
+      FunctionInteractivityLazyHandler<ViewSubmission, E>
+    >(args);
+    this.#registrar.viewSubmission(callbackId, { ack, lazy, middleware });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles type: "view_closed" requests originating from this function.
+   * @param callbackId the constraints to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  viewClosed(
+    callbackId: StringOrRegExp,
+    ack: FunctionInteractivityAckHandler<ViewClosed, E, ViewAckResponse>,
+    lazy?: FunctionInteractivityLazyHandler<ViewClosed, E>,
+  ): this;
+  viewClosed(
+    callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: FunctionInteractivityAckHandler<ViewClosed, E, ViewAckResponse>,
+    lazy?: FunctionInteractivityLazyHandler<ViewClosed, E>,
+  ): this;
+  viewClosed(callbackId: StringOrRegExp, ...args: unknown[]): this {
+    const [middleware, ack, lazy = noopLazyHandler] = parseListenerArgs<
+      E,
+      FunctionInteractivityAckHandler<ViewClosed, E, ViewAckResponse>,
+      FunctionInteractivityLazyHandler<ViewClosed, E>
+    >(args);
+    this.#registrar.viewClosed(callbackId, { ack, lazy, middleware });
+    return this;
+  }
+}
+
+/**
+ * Adds the methods of the parent (an app or a router) to the custom function, except for the function-scoped ones.
+ * @param fn the custom function
+ * @param parent the app or the router that the function is registered to
+ * @returns the same custom function that forwards the other method calls to the parent
+ */
+export function chainSlackFunction<E extends SlackAppEnv, P extends object>(fn: SlackFunction<E>, parent: P): ChainedSlackFunction<E, P> {
+  for (let proto = Object.getPrototypeOf(parent); proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      const method = (parent as Record<string, unknown>)[name];
+      if (name === "constructor" || name in fn || typeof method !== "function") {
+        continue;
+      }
+      Object.defineProperty(fn, name, { value: (...args: unknown[]) => method.apply(parent, args) });
+    }
+  }
+  return fn as ChainedSlackFunction<E, P>;
+}
@@ -0,0 +1,84 @@
+import { SlackAppEnv } from "../app-env";
+import { PayloadType } from "../request/payload-types";
+import { PreAuthorizeSlackMiddlewareRequest } from "../request/request";
+import { SlackResponse } from "../response/response";
+import { ListenerKind } from "./error-handler";
+
+/**
+ * Arguments passed to an ack timeout handler.
+ */
+export interface AckTimeoutHandlerArgs<E extends SlackAppEnv> {
+  request: PreAuthorizeSlackMiddlewareRequest<E>;
+  /**
+   * The kind of listener expected to handle the request.
+   */
+  listenerKind?: ListenerKind;
+  /**
+   * The slash command name, event type, callback_id, or action_id in the request.
+   */
+  listenerId?: string;
+  /**
+   * The milliseconds elapsed since the app started processing the request.
+   */
+  elapsedMillis: number;
+}
+
+/**
+ * The function that builds the fallback response when the processing of a request does not complete within ackTimeoutMillis.
+ * If this function returns a SlackResponse, the App sends it back to Slack.
+ * If it returns nothing, the App acknowledges the request with an empty 200 OK response.
+ * Note that the original processing keeps running via ExecutionContext#waitUntil(), but its response is discarded.
+ */
+export type AckTimeoutHandler<E extends SlackAppEnv = SlackAppEnv> = (args: AckTimeoutHandlerArgs<E>) => Promise<SlackResponse | void>;
+
+/**
+ * The default ack timeout handler, which prints a warning and then responds with
+ * an ephemeral message for slash commands, response_action: "clear" for view submissions,
+ * and an empty response for the others.
+ * @param args arguments
+ * @returns response
+ */
+export const defaultAckTimeoutHandler: AckTimeoutHandler = async ({ listenerKind, listenerId, elapsedMillis }) => {
+  console.warn(
+    `The ${listenerKind ?? "unknown"} listener (${listenerId ?? "N/A"}) did not acknowledge the request within ${elapsedMillis} ms`,
+  );
+  if (listenerKind === "command") {
+    return { status: 200, body: { response_type: "ephemeral", text: "Working on it..." } };
+  }
+  if (listenerKind === "viewSubmission") {
+    return { status: 200, body: { response_action: "clear" } };
+  }
+  return { status: 200, body: "" };
+};
+
+/**
+ * Determines the kind and identity of the listener expected to handle a request.
+ * @param body request body
+ * @returns listener kind and identity
+ */
+// deno-lint-ignore no-explicit-any
+export function detectListener(body: Record<string, any>): { listenerKind?: ListenerKind; listenerId?: string } {
+  if (!body.type && body.command) {
+    return { listenerKind: "command", listenerId: body.command };
+  }
+  switch (body.type) {
+    case PayloadType.EventsAPI:
+      return { listenerKind: "event", listenerId: body.event?.type };
+    case PayloadType.GlobalShortcut:
+      return { listenerKind: "globalShortcut", listenerId: body.callback_id };
+    case PayloadType.MessageShortcut:
+      return { listenerKind: "messageShortcut", listenerId: body.callback_id };
+    case PayloadType.BlockAction:
+      return { listenerKind: "action", listenerId: body.actions?.[0]?.action_id };
+    case PayloadType.BlockSuggestion:
+      return { listenerKind: "options", listenerId: body.action_id };
+    case PayloadType.ViewSubmission:
+      return { listenerKind: "viewSubmission", listenerId: body.view?.callback_id };
+    case PayloadType.ViewClosed:
+      return { listenerKind: "viewClosed", listenerId: body.view?.callback_id };
+    case PayloadType.AppRateLimited:
+      return { listenerKind: "appRateLimited" };
+    default:
+      return {};
+  }
+}
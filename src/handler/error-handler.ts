@@ -0,0 +1,51 @@
+import { SlackAppEnv } from "../app-env";
+import { PreAuthorizeSlackMiddlewareRequest, SlackMiddlewareRequest } from "../request/request";
+import { SlackResponse } from "../response/response";
+
+/**
+ * The kind of listener that was selected for an incoming request.
+ * The values correspond to the SlackApp methods used for registering listeners.
+ */
+export type ListenerKind =
+  | "command"
+  | "event"
+  | "globalShortcut"
+  | "messageShortcut"
+  | "action"
+  | "options"
+  | "viewSubmission"
+  | "viewClosed"
+  | "appRateLimited";
+
+/**
+ * Arguments passed to an error handler.
+ */
+export type ErrorHandlerArgs<E extends SlackAppEnv> =
+  | {
+      /**
+       * An exception thrown by a pre-authorize middleware.
+       */
+      phase: "preAuthorizeMiddleware";
+      error: Error;
+      request: PreAuthorizeSlackMiddlewareRequest<E>;
+      listenerKind?: undefined;
+    }
+  | {
+      /**
+       * An exception thrown by a post-authorize middleware, an ack function, or a lazy function.
+       */
+      phase: "middleware" | "ack" | "lazy";
+      error: Error;
+      request: SlackMiddlewareRequest<E>;
+      listenerKind?: ListenerKind;
+    };
+
+/**
+ * The function that handles an exception thrown by middleware or listeners.
+ * If this function returns a SlackResponse, the App sends it back to Slack.
+ * If it returns nothing, the App acknowledges the request with an empty 200 OK response.
+ * To propagate the exception, throw it inside this function.
+ * Note that the returned value is ignored for errors in lazy functions,
+ * because the response to Slack has already been sent in the case.
+ */
+export type ErrorHandler<E extends SlackAppEnv = SlackAppEnv> = (args: ErrorHandlerArgs<E>) => Promise<SlackResponse | void>;
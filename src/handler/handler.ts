@@ -8,10 +8,15 @@ import { SlashCommand } from "../request/payload/slash-command";
 import { ViewClosed } from "../request/payload/view-closed";
 import { ViewSubmission } from "../request/payload/view-submission";
 import {
+  MatchedGroups,
   SlackRequest,
   SlackRequestWithAssistantUtilities,
+  SlackRequestWithCommandArgs,
+  SlackRequestWithFormValues,
+  SlackRequestWithFunctionUtilities,
   SlackRequestWithOptionalRespond,
   SlackRequestWithRespond,
+  WithMatches,
 } from "../request/request";
 import { SlackResponse } from "../response/response";
 import { MessageAckResponse } from "./message-handler";
@@ -21,6 +26,7 @@ import {
   AssistantThreadContextChangedEvent,
   AssistantThreadStartedEvent,
   FileShareMessageEvent,
+  FunctionExecutedEvent,
   GenericMessageEvent,
   SupportedEventType,
 } from "../request/payload/event";
@@ -39,6 +45,13 @@ export interface SlackHandler<E extends SlackAppEnv, Payload> {
   lazy(request: SlackRequest<E, Payload>): Promise<void>;
 }
 
+/**
+ * The listener function whose request has the typed named capture groups of the listener's regular expression pattern.
+ */
+export type WithMatchedGroups<H, G extends MatchedGroups> = H extends (req: infer R) => infer Response
+  ? (req: R extends unknown ? Omit<R, "matches"> & WithMatches<G> : never) => Response
+  : never;
+
 // ----------------------------------------
 // Slash commands
 // ----------------------------------------
@@ -55,6 +68,18 @@ export type SlashCommandAckHandler<E extends SlackAppEnv = SlackAppEnv> = (
  */
 export type SlashCommandLazyHandler<E extends SlackAppEnv = SlackAppEnv> = (req: SlackRequestWithRespond<E, SlashCommand>) => Promise<void>;
 
+/**
+ * ack function for slash command handling with the parsed arguments.
+ */
+export type SlashCommandWithArgsAckHandler<E extends SlackAppEnv = SlackAppEnv> = (
+  req: SlackRequestWithCommandArgs<E>,
+) => Promise<MessageAckResponse>;
+
+/**
+ * lazy function for slash command handling with the parsed arguments.
+ */
+export type SlashCommandWithArgsLazyHandler<E extends SlackAppEnv = SlackAppEnv> = (req: SlackRequestWithCommandArgs<E>) => Promise<void>;
+
 // ----------------------------------------
 // Events API
 // ----------------------------------------
@@ -66,6 +91,31 @@ export type EventLazyHandler<Type extends SupportedEventType, E extends SlackApp
   req: EventRequest<E, Type>,
 ) => Promise<void>;
 
+/**
+ * lazy function for custom function execution handling.
+ */
+export type FunctionExecutedLazyHandler<
+  E extends SlackAppEnv = SlackAppEnv,
+  // deno-lint-ignore no-explicit-any
+  Inputs = { [key: string]: any },
+  // deno-lint-ignore no-explicit-any
+  Outputs = Record<string, any>,
+> = (req: SlackRequestWithFunctionUtilities<E, FunctionExecutedEvent<Inputs>, Outputs>) => Promise<void>;
+
+/**
+ * ack function for block_actions/view_submission/view_closed requests that originate from a custom function.
+ */
+export type FunctionInteractivityAckHandler<Payload, E extends SlackAppEnv = SlackAppEnv, Response = AckResponse> = (
+  req: SlackRequestWithFunctionUtilities<E, Payload>,
+) => Promise<Response>;
+
+/**
+ * lazy function for block_actions/view_submission/view_closed requests that originate from a custom function.
+ */
+export type FunctionInteractivityLazyHandler<Payload, E extends SlackAppEnv = SlackAppEnv> = (
+  req: SlackRequestWithFunctionUtilities<E, Payload>,
+) => Promise<void>;
+
 /**
  * lazy function for message event handling.
  */
@@ -214,6 +264,20 @@ export type ViewSubmissionLazyHandler<E extends SlackAppEnv = SlackAppEnv> = (
  */
 export type ViewClosedLazyHandler<E extends SlackAppEnv = SlackAppEnv> = (req: SlackRequest<E, ViewClosed>) => Promise<void>;
 
+/**
+ * ack function for view_submission request handling with the decoded form values.
+ */
+export type FormSubmissionAckHandler<E extends SlackAppEnv = SlackAppEnv, Values = Record<string, unknown>> = (
+  req: SlackRequestWithFormValues<E, Values>,
+) => Promise<ViewAckResponse>;
+
+/**
+ * lazy function for view_submission request handling with the decoded form values.
+ */
+export type FormSubmissionLazyHandler<E extends SlackAppEnv = SlackAppEnv, Values = Record<string, unknown>> = (
+  req: SlackRequestWithFormValues<E, Values>,
+) => Promise<void>;
+
 // ----------------------------------------
 // App rate limited
 // ----------------------------------------
@@ -0,0 +1,30 @@
+import { SlackAppEnv } from "../app-env";
+import { PayloadType } from "../request/payload-types";
+import { SlackMiddlewareRequest } from "../request/request";
+import { SlackResponse } from "../response/response";
+
+/**
+ * The function that handles a request that no listener matches.
+ * If this function returns a SlackResponse, the App sends it back to Slack.
+ * If it returns nothing, the App acknowledges the request with an empty 200 OK response.
+ */
+export type UnhandledRequestHandler<E extends SlackAppEnv = SlackAppEnv> = (
+  req: SlackMiddlewareRequest<E>,
+) => Promise<SlackResponse | void>;
+
+/**
+ * The default handler for requests that no listener matches.
+ * It acknowledges the request so that Slack neither shows an error to the end-user nor retries the request.
+ * For slash commands, it replies with an ephemeral message telling the command is not supported.
+ * @param req request
+ * @returns response
+ */
+export const defaultUnhandledRequestHandler: UnhandledRequestHandler = async ({ body }) => {
+  if (!body.type && body.command) {
+    return { status: 200, body: { response_type: "ephemeral", text: `Sorry, ${body.command} is not supported yet.` } };
+  }
+  if (body.type === PayloadType.BlockSuggestion) {
+    return { status: 200, body: { options: [] } };
+  }
+  return { status: 200, body: "" };
+};
@@ -0,0 +1,78 @@
+import { HomeTabView } from "slack-web-api-client";
+import { SlackAppEnv } from "../app-env";
+import { SlackAppContext } from "../context/context";
+
+/**
+ * The function that renders the Home tab for a user.
+ */
+export type HomeTabRenderer<E extends SlackAppEnv = SlackAppEnv> = (args: {
+  /**
+   * The user who sees the Home tab.
+   */
+  userId: string;
+  context: SlackAppContext;
+  env: E;
+}) => Promise<HomeTabView>;
+
+/**
+ * The key identifying a user's Home tab.
+ */
+export interface HomeTabKey {
+  enterpriseId?: string;
+  teamId?: string;
+  userId: string;
+}
+
+/**
+ * The store that remembers the hash of the Home tab view published for each user.
+ * The app skips views.publish API calls when the rendered view has the same hash.
+ */
+export interface HomeTabViewStore {
+  /**
+   * Returns the hash of the view last published for the user.
+   * @param key the key identifying the user's Home tab
+   * @returns the hash if exists
+   */
+  find(key: HomeTabKey): Promise<string | undefined>;
+
+  /**
+   * Saves the hash of the view published for the user.
+   * @param key the key identifying the user's Home tab
+   * @param hash the hash of the published view
+   */
+  save(key: HomeTabKey, hash: string): Promise<void>;
+}
+
+/**
+ * HomeTabViewStore implementation that keeps the hashes in memory.
+ * Please note that the data is not shared among multiple isolates/processes.
+ */
+export class MemoryHomeTabViewStore implements HomeTabViewStore {
+  #hashes: Map<string, string> = new Map();
+
+  // deno-lint-ignore require-await
+  async find(key: HomeTabKey): Promise<string | undefined> {
+    return this.#hashes.get(toStoreKey(key));
+  }
+
+  // deno-lint-ignore require-await
+  async save(key: HomeTabKey, hash: string): Promise<void> {
+    this.#hashes.set(toStoreKey(key), hash);
+  }
+}
+
+function toStoreKey({ enterpriseId, teamId, userId }: HomeTabKey): string {
+  return `${enterpriseId ?? "-"}:${teamId ?? "-"}:${userId}`;
+}
+
+/**
+ * Computes the SHA-256 hash of a Home tab view.
+ * @param view the view to publish
+ * @returns the hex-encoded hash
+ */
+export async function hashHomeTabView(view: HomeTabView): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(view)));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
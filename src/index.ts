@@ -1,6 +1,11 @@
 export * from "./app";
 export * from "./app-env";
+export * from "./command/command-definition";
 export * from "./execution-context";
+export * from "./form/form-definition";
+export * from "./function/function-definition";
+export * from "./function/slack-function";
+export * from "./router";
 
 export * from "slack-web-api-client";
 
@@ -8,19 +13,37 @@ export * from "./assistant/assistant";
 export * from "./assistant/thread-context";
 export * from "./assistant/thread-context-store";
 
+export * from "./codec/value-codec";
+
+export * from "./deduplication/event-deduplication-store";
+
 export * from "./errors";
 export * from "./oauth/error-codes";
 
 export * from "./handler/handler";
+export * from "./handler/ack-timeout-handler";
+export * from "./handler/error-handler";
+export * from "./handler/unhandled-request-handler";
 export * from "./handler/message-handler";
 export * from "./handler/options-handler";
 export * from "./handler/view-handler";
 
+export * from "./home/home-tab";
+
+export * from "./kv/kv-store";
+export * from "./kv/kv-installation-store";
+export * from "./kv/kv-state-store";
+export * from "./kv/kv-assistant-thread-context-store";
+
 export * from "./authorization/authorize";
+export * from "./authorization/authorize-cache";
 export * from "./authorization/authorize-error-handler";
 export * from "./authorization/authorize-result";
+export * from "./authorization/installation-store-authorize";
 export * from "./authorization/single-team-authorize";
 
+export * from "./manifest/manifest";
+
 export * from "./middleware/middleware";
 export * from "./middleware/built-in-middleware";
 
@@ -33,6 +56,8 @@ export * from "./oauth/escape-html";
 export * from "./oauth/installation";
 export * from "./oauth/installation-store";
 export * from "./oauth/oauth-page-renderer";
+export * from "./oauth/sql-executor";
+export * from "./oauth/sql-installation-store";
 export * from "./oauth/state-store";
 
 export * from "./oidc/authorize-url-generator";
@@ -59,4 +84,10 @@ export * from "./response/response-body";
 export * from "./socket-mode/socket-mode-client";
 export * from "./socket-mode/payload-handler";
 
+export * from "./unfurl/link-unfurl";
+
+export * from "./work-object/entity-details";
+export * from "./work-object/entity-metadata";
+
+export * from "./utility/event-constraints";
 export * from "./utility/message-events";
@@ -0,0 +1,40 @@
+import { AssistantThreadContext } from "../assistant/thread-context";
+import { AssistantThreadContextStore, AssistantThreadKey } from "../assistant/thread-context-store";
+import { KVStore } from "./kv-store";
+
+/**
+ * Options for KVAssistantThreadContextStore.
+ */
+export interface KVAssistantThreadContextStoreOptions {
+  /**
+   * How long each thread's context is kept in seconds. The default is 7 days.
+   */
+  ttlSeconds?: number;
+}
+
+/**
+ * AssistantThreadContextStore implementation backed by a key-value store.
+ * Unlike DefaultAssistantThreadContextStore, this does not need the bot's first reply in the thread.
+ */
+export class KVAssistantThreadContextStore implements AssistantThreadContextStore {
+  #kv: KVStore;
+  #ttlSeconds: number;
+
+  constructor(kv: KVStore, options: KVAssistantThreadContextStoreOptions = {}) {
+    this.#kv = kv;
+    this.#ttlSeconds = options.ttlSeconds ?? 7 * 24 * 60 * 60;
+  }
+
+  async save(key: AssistantThreadKey, newContext: AssistantThreadContext): Promise<void> {
+    await this.#kv.put(this.#key(key), JSON.stringify(newContext), { ttlSeconds: this.#ttlSeconds });
+  }
+
+  async find(key: AssistantThreadKey): Promise<AssistantThreadContext | undefined> {
+    const value = await this.#kv.get(this.#key(key));
+    return value ? JSON.parse(value) : undefined;
+  }
+
+  #key({ channel_id, thread_ts }: AssistantThreadKey): string {
+    return `slack-edge:assistant-thread-context:${channel_id}:${thread_ts}`;
+  }
+}
@@ -0,0 +1,102 @@
+import { SlackOAuthEnv } from "../app-env";
+import { Authorize } from "../authorization/authorize";
+import { installationStoreAuthorize, InstallationStoreAuthorizeOptions } from "../authorization/installation-store-authorize";
+import { Installation } from "../oauth/installation";
+import { InstallationStore, InstallationStoreQuery } from "../oauth/installation-store";
+import { KVStore } from "./kv-store";
+
+/**
+ * Options for KVInstallationStore.
+ */
+export type KVInstallationStoreOptions = InstallationStoreAuthorizeOptions;
+
+/**
+ * InstallationStore implementation backed by a key-value store.
+ * The latest bot installation, the latest user installation, and each user's installation are saved per org/team.
+ * Org-wide installations are saved without team_id, and the keys are scoped by env.SLACK_CLIENT_ID,
+ * so that multiple apps can share the same namespace.
+ *
+ * @example
+ * ```typescript
+ * const app = new SlackOAuthApp({
+ *   env,
+ *   installationStore: new KVInstallationStore(env, new CloudflareKVStore(env.SLACK_INSTALLATIONS)),
+ * });
+ * ```
+ */
+export class KVInstallationStore<E extends SlackOAuthEnv> implements InstallationStore<E> {
+  #clientId: string;
+  #kv: KVStore;
+  #authorizeOptions: InstallationStoreAuthorizeOptions;
+
+  constructor(env: SlackOAuthEnv, kv: KVStore, options: KVInstallationStoreOptions = {}) {
+    this.#clientId = env.SLACK_CLIENT_ID;
+    this.#kv = kv;
+    this.#authorizeOptions = { tokenRotationWindowSeconds: options.tokenRotationWindowSeconds };
+  }
+
+  async save(installation: Installation): Promise<void> {
+    const prefix = this.#prefix({
+      enterpriseId: installation.enterprise_id,
+      teamId: installation.team_id,
+      isEnterpriseInstall: installation.is_enterprise_install,
+    });
+    const value = JSON.stringify(installation);
+    if (installation.bot_token) {
+      await this.#kv.put(`${prefix}bot`, value);
+    }
+    if (installation.user_token) {
+      await this.#kv.put(`${prefix}user`, value);
+      await this.#kv.put(`${prefix}user:${installation.user_id}`, value);
+    }
+  }
+
+  async findBotInstallation(query: InstallationStoreQuery): Promise<Installation | undefined> {
+    return await this.#find(`${this.#prefix(query)}bot`);
+  }
+
+  async findUserInstallation(query: InstallationStoreQuery): Promise<Installation | undefined> {
+    const prefix = this.#prefix(query);
+    return await this.#find(query.userId ? `${prefix}user:${query.userId}` : `${prefix}user`);
+  }
+
+  async deleteBotInstallation(query: InstallationStoreQuery): Promise<void> {
+    await this.#kv.delete(`${this.#prefix(query)}bot`);
+  }
+
+  async deleteUserInstallation(query: InstallationStoreQuery): Promise<void> {
+    const prefix = this.#prefix(query);
+    if (!query.userId) {
+      await this.#kv.delete(`${prefix}user`);
+      return;
+    }
+    await this.#kv.delete(`${prefix}user:${query.userId}`);
+    const latest = await this.#find(`${prefix}user`);
+    if (latest?.user_id === query.userId) {
+      await this.#kv.delete(`${prefix}user`);
+    }
+  }
+
+  async deleteAll(query: InstallationStoreQuery): Promise<void> {
+    for (const key of await this.#kv.list(this.#prefix(query))) {
+      await this.#kv.delete(key);
+    }
+  }
+
+  toAuthorize(): Authorize<E> {
+    return installationStoreAuthorize(this, this.#authorizeOptions);
+  }
+
+  async #find(key: string): Promise<Installation | undefined> {
+    const value = await this.#kv.get(key);
+    return value ? JSON.parse(value) : undefined;
+  }
+
+  /**
+   * Builds the key prefix for the org/team. Org-wide installations are matched regardless of team_id.
+   */
+  #prefix(query: InstallationStoreQuery): string {
+    const teamId = query.isEnterpriseInstall ? "" : (query.teamId ?? "");
+    return `slack-edge:installation:${this.#clientId}:${query.enterpriseId ?? ""}:${teamId}:`;
+  }
+}
@@ -0,0 +1,50 @@
+import { StateStore } from "../oauth/state-store";
+import { KVStore } from "./kv-store";
+
+/**
+ * Options for KVStateStore.
+ */
+export interface KVStateStoreOptions {
+  /**
+   * How long each state parameter is valid in seconds. The default is 600 seconds.
+   */
+  ttlSeconds?: number;
+}
+
+/**
+ * StateStore implementation backed by a key-value store.
+ * A state parameter expires after the TTL and can be consumed only once.
+ * Since some KV backends delete expired keys lazily, the expiration time is also checked on consume().
+ * The state is consumed atomically when the KVStore implements getAndDelete() (e.g., MemoryKVStore and DenoKVStore).
+ * Otherwise (e.g., CloudflareKVStore), concurrent requests with the same state can both succeed before it is deleted.
+ */
+export class KVStateStore implements StateStore {
+  #kv: KVStore;
+  #ttlSeconds: number;
+
+  constructor(kv: KVStore, options: KVStateStoreOptions = {}) {
+    this.#kv = kv;
+    this.#ttlSeconds = options.ttlSeconds ?? 600;
+  }
+
+  async issueNewState(): Promise<string> {
+    const state = crypto.randomUUID();
+    const expiresAt = Date.now() + this.#ttlSeconds * 1000;
+    await this.#kv.put(`slack-edge:state:${state}`, String(expiresAt), { ttlSeconds: this.#ttlSeconds });
+    return state;
+  }
+
+  async consume(state: string): Promise<boolean> {
+    const key = `slack-edge:state:${state}`;
+    if (this.#kv.getAndDelete) {
+      const expiresAt = await this.#kv.getAndDelete(key);
+      return expiresAt !== undefined && Number(expiresAt) > Date.now();
+    }
+    const expiresAt = await this.#kv.get(key);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    await this.#kv.delete(key);
+    return Number(expiresAt) > Date.now();
+  }
+}
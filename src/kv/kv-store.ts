@@ -0,0 +1,236 @@
+/**
+ * Options for KVStore#put().
+ */
+export interface KVPutOptions {
+  /**
+   * How long the value is kept in seconds. When this is absent, the value never expires.
+   */
+  ttlSeconds?: number;
+}
+
+/**
+ * The minimum key-value store interface that the KV-backed stores are built on.
+ * Wrap your datastore with this interface to use a backend other than the provided adapters.
+ */
+export interface KVStore {
+  /**
+   * Returns the value for the key.
+   * @param key the key
+   * @returns the value, or undefined if the key does not exist or has expired
+   */
+  get(key: string): Promise<string | undefined>;
+
+  /**
+   * Saves the value for the key, overwriting the existing one.
+   * @param key the key
+   * @param value the value
+   * @param options the options such as TTL
+   */
+  put(key: string, value: string, options?: KVPutOptions): Promise<void>;
+
+  /**
+   * Deletes the key. Deleting a missing key is not an error.
+   * @param key the key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Deletes the key and returns its value atomically, so that only one of concurrent callers receives the value.
+   * Implement this when the backend supports it; otherwise, the stores call get() and delete() in sequence.
+   * @param key the key
+   * @returns the deleted value, or undefined if the key does not exist or has expired
+   */
+  getAndDelete?(key: string): Promise<string | undefined>;
+
+  /**
+   * Lists the keys that start with the prefix.
+   * @param prefix the prefix of the keys
+   * @returns all the matching keys
+   */
+  list(prefix: string): Promise<string[]>;
+}
+
+/**
+ * KVStore implementation that keeps the values in memory.
+ * This is useful for tests and local development; the data is not shared among multiple isolates/processes.
+ */
+export class MemoryKVStore implements KVStore {
+  #entries: Map<string, { value: string; expiresAt?: number }> = new Map();
+
+  // deno-lint-ignore require-await
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.#entries.get(key);
+    if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.#entries.delete(key);
+      return undefined;
+    }
+    return entry?.value;
+  }
+
+  // deno-lint-ignore require-await
+  async put(key: string, value: string, options: KVPutOptions = {}): Promise<void> {
+    const expiresAt = options.ttlSeconds !== undefined ? Date.now() + options.ttlSeconds * 1000 : undefined;
+    this.#entries.set(key, { value, expiresAt });
+  }
+
+  // deno-lint-ignore require-await
+  async delete(key: string): Promise<void> {
+    this.#entries.delete(key);
+  }
+
+  // deno-lint-ignore require-await
+  async getAndDelete(key: string): Promise<string | undefined> {
+    const entry = this.#entries.get(key);
+    this.#entries.delete(key);
+    if (!entry || (entry.expiresAt !== undefined && entry.expiresAt <= Date.now())) {
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (const key of [...this.#entries.keys()]) {
+      if (key.startsWith(prefix) && (await this.get(key)) !== undefined) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * A Cloudflare Workers KV namespace binding.
+ */
+export interface CloudflareKVNamespace {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{ keys: { name: string }[]; list_complete: boolean; cursor?: string }>;
+}
+
+/**
+ * KVStore implementation for Cloudflare Workers KV namespace bindings.
+ * Note that Workers KV requires TTL of 60 seconds or longer, so shorter TTL values are rounded up.
+ * Since Workers KV has no atomic operations, this does not implement getAndDelete(); a value can be read by
+ * concurrent requests before it is deleted (e.g., a state parameter consumed twice within a short time).
+ *
+ * @example
+ * ```typescript
+ * const kv = new CloudflareKVStore(env.SLACK_KV);
+ * ```
+ */
+export class CloudflareKVStore implements KVStore {
+  #namespace: CloudflareKVNamespace;
+
+  constructor(namespace: CloudflareKVNamespace) {
+    this.#namespace = namespace;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.#namespace.get(key)) ?? undefined;
+  }
+
+  async put(key: string, value: string, options: KVPutOptions = {}): Promise<void> {
+    const expirationTtl = options.ttlSeconds !== undefined ? Math.max(60, Math.ceil(options.ttlSeconds)) : undefined;
+    await this.#namespace.put(key, value, expirationTtl !== undefined ? { expirationTtl } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.#namespace.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined = undefined;
+    do {
+      const result: Awaited<ReturnType<CloudflareKVNamespace["list"]>> = await this.#namespace.list({ prefix, cursor });
+      keys.push(...result.keys.map((k) => k.name));
+      cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor);
+    return keys;
+  }
+}
+
+/**
+ * A key of Deno KV.
+ */
+export type DenoKvKey = readonly (string | number | bigint | boolean | Uint8Array)[];
+
+/**
+ * An atomic operation of Deno KV (Deno.AtomicOperation).
+ */
+export interface DenoKvAtomicOperation {
+  check(...checks: { key: DenoKvKey; versionstamp: string | null }[]): DenoKvAtomicOperation;
+  delete(key: DenoKvKey): DenoKvAtomicOperation;
+  commit(): Promise<{ ok: boolean }>;
+}
+
+/**
+ * A Deno KV database (Deno.Kv).
+ */
+export interface DenoKv {
+  get(key: DenoKvKey): Promise<{ value: unknown; versionstamp: string | null }>;
+  set(key: DenoKvKey, value: unknown, options?: { expireIn?: number }): Promise<unknown>;
+  delete(key: DenoKvKey): Promise<void>;
+  list(selector: { prefix: DenoKvKey }): AsyncIterable<{ key: DenoKvKey }>;
+  atomic(): DenoKvAtomicOperation;
+}
+
+/**
+ * KVStore implementation for Deno KV. A key such as "a:b:c" is stored as ["a", "b", "c"].
+ *
+ * @example
+ * ```typescript
+ * const kv = new DenoKVStore(await Deno.openKv());
+ * ```
+ */
+export class DenoKVStore implements KVStore {
+  #kv: DenoKv;
+
+  constructor(kv: DenoKv) {
+    this.#kv = kv;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const { value } = await this.#kv.get(key.split(":"));
+    return typeof value === "string" ? value : undefined;
+  }
+
+  async put(key: string, value: string, options: KVPutOptions = {}): Promise<void> {
+    const expireIn = options.ttlSeconds !== undefined ? options.ttlSeconds * 1000 : undefined;
+    await this.#kv.set(key.split(":"), value, expireIn !== undefined ? { expireIn } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.#kv.delete(key.split(":"));
+  }
+
+  async getAndDelete(key: string): Promise<string | undefined> {
+    const parts = key.split(":");
+    while (true) {
+      const { value, versionstamp } = await this.#kv.get(parts);
+      if (versionstamp === null) {
+        return undefined;
+      }
+      // The commit fails when another call has changed or deleted the key since the get() call
+      const { ok } = await this.#kv.atomic().check({ key: parts, versionstamp }).delete(parts).commit();
+      if (ok) {
+        return typeof value === "string" ? value : undefined;
+      }
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    // Deno KV matches prefixes by whole key parts, so the last incomplete part is filtered here
+    const parts = prefix.split(":").slice(0, -1);
+    const keys: string[] = [];
+    for await (const entry of this.#kv.list({ prefix: parts })) {
+      const key = entry.key.join(":");
+      if (key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,292 @@
+import { AnyManifestBotScope, AnyManifestEvent, AnyManifestUserScope, ManifestParams } from "slack-web-api-client";
+import { SlackFunctionDefinition, toFunctionsManifest } from "../function/function-definition";
+
+/**
+ * Options for generating an app manifest.
+ */
+export interface ToManifestOptions {
+  /**
+   * The public URL of the app (e.g., "https://example.com"), which is used for building the request URLs
+   * along with routes.events. When this is absent, the request URLs in the base manifest are kept as-is.
+   */
+  baseUrl?: string;
+}
+
+/**
+ * The listeners registered to an app, which are reflected in its manifest.
+ * Note that the listeners registered with RegExp patterns cannot be listed here.
+ */
+export interface ManifestListeners {
+  slashCommands: { command: string; description?: string; usageHint?: string; shouldEscape?: boolean }[];
+  shortcuts: { type: "global" | "message"; callbackId: string }[];
+  botEvents: string[];
+  interactivity: boolean;
+  blockSuggestion: boolean;
+  functions: SlackFunctionDefinition[];
+  homeTab: boolean;
+  unfurlDomains: string[];
+}
+
+/**
+ * The settings of an app, which are reflected in its manifest.
+ */
+export interface ManifestAppSettings {
+  socketMode: boolean;
+  requestUrl?: string;
+}
+
+/**
+ * The bot scopes required for receiving the events.
+ */
+const botEventScopes: Record<string, AnyManifestBotScope[]> = {
+  app_mention: ["app_mentions:read"],
+  assistant_thread_started: ["assistant:write"],
+  assistant_thread_context_changed: ["assistant:write"],
+  call_rejected: ["calls:read"],
+  channel_archive: ["channels:read"],
+  channel_created: ["channels:read"],
+  channel_deleted: ["channels:read"],
+  channel_history_changed: ["channels:history"],
+  channel_id_changed: ["channels:read"],
+  channel_left: ["channels:read"],
+  channel_rename: ["channels:read"],
+  channel_shared: ["channels:read"],
+  channel_unarchive: ["channels:read"],
+  channel_unshared: ["channels:read"],
+  dnd_updated_user: ["dnd:read"],
+  email_domain_changed: ["team:read"],
+  emoji_changed: ["emoji:read"],
+  file_change: ["files:read"],
+  file_created: ["files:read"],
+  file_deleted: ["files:read"],
+  file_public: ["files:read"],
+  file_shared: ["files:read"],
+  file_unshared: ["files:read"],
+  group_archive: ["groups:read"],
+  group_close: ["groups:read"],
+  group_deleted: ["groups:read"],
+  group_history_changed: ["groups:history"],
+  group_left: ["groups:read"],
+  group_open: ["groups:read"],
+  group_rename: ["groups:read"],
+  group_unarchive: ["groups:read"],
+  im_close: ["im:read"],
+  im_created: ["im:read"],
+  im_history_changed: ["im:history"],
+  im_open: ["im:read"],
+  link_shared: ["links:read"],
+  member_joined_channel: ["channels:read", "groups:read"],
+  member_left_channel: ["channels:read", "groups:read"],
+  "message.channels": ["channels:history"],
+  "message.groups": ["groups:history"],
+  "message.im": ["im:history"],
+  "message.mpim": ["mpim:history"],
+  message_metadata_deleted: ["metadata.message:read"],
+  message_metadata_posted: ["metadata.message:read"],
+  message_metadata_updated: ["metadata.message:read"],
+  pin_added: ["pins:read"],
+  pin_removed: ["pins:read"],
+  reaction_added: ["reactions:read"],
+  reaction_removed: ["reactions:read"],
+  shared_channel_invite_accepted: ["conversations.connect:read"],
+  shared_channel_invite_approved: ["conversations.connect:read"],
+  shared_channel_invite_declined: ["conversations.connect:read"],
+  shared_channel_invite_received: ["conversations.connect:read"],
+  shared_channel_invite_requested: ["conversations.connect:manage"],
+  subteam_created: ["usergroups:read"],
+  subteam_members_changed: ["usergroups:read"],
+  subteam_self_added: ["usergroups:read"],
+  subteam_self_removed: ["usergroups:read"],
+  subteam_updated: ["usergroups:read"],
+  team_domain_change: ["team:read"],
+  team_join: ["users:read"],
+  team_rename: ["team:read"],
+  user_change: ["users:read"],
+  user_huddle_changed: ["users:read"],
+  user_profile_changed: ["users:read"],
+  user_status_changed: ["users:read"],
+};
+
+/**
+ * The manifest subscribes to message events per conversation type, as there is no bot event named "message".
+ */
+const messageBotEvents = ["message.channels", "message.groups", "message.im", "message.mpim"];
+
+/**
+ * Converts the event types of the registered listeners into the bot events in a manifest.
+ * Since a message listener receives messages in any conversation, it subscribes to all four message events.
+ */
+function toManifestBotEvents(events: string[]): string[] {
+  return events.flatMap((event) => (event === "message" ? messageBotEvents : [event]));
+}
+
+/**
+ * Returns the minimum bot scopes that the registered listeners require.
+ * @param listeners the registered listeners
+ * @returns the scope names
+ */
+export function requiredBotScopes(listeners: ManifestListeners): AnyManifestBotScope[] {
+  const scopes: AnyManifestBotScope[] = [];
+  if (listeners.slashCommands.length > 0 || listeners.shortcuts.length > 0) {
+    scopes.push("commands");
+  }
+  for (const event of toManifestBotEvents(listeners.botEvents)) {
+    scopes.push(...(botEventScopes[event] ?? []));
+  }
+  if (listeners.botEvents.includes("link_shared")) {
+    // chat.unfurl API
+    scopes.push("links:write");
+  }
+  return union([], scopes);
+}
+
+/**
+ * Builds an app manifest by adding the registered listeners and the app settings to the base manifest.
+ * The entries in the base manifest (e.g., the descriptions of slash commands) are kept as-is.
+ * @param base the base manifest
+ * @param listeners the registered listeners
+ * @param settings the app settings
+ * @returns a new manifest object
+ */
+export function buildManifest(base: ManifestParams, listeners: ManifestListeners, settings: ManifestAppSettings): ManifestParams {
+  const manifest: ManifestParams = JSON.parse(JSON.stringify(base));
+  const appSettings = (manifest.settings ??= {});
+  const requestUrl = settings.socketMode ? undefined : settings.requestUrl;
+
+  if (listeners.slashCommands.length > 0) {
+    const slashCommands = ((manifest.features ??= {}).slash_commands ??= []);
+    for (const { command, description, usageHint, shouldEscape } of listeners.slashCommands) {
+      const existing = slashCommands.find((c) => c.command === command);
+      if (!existing) {
+        slashCommands.push({
+          command,
+          description: description ?? command,
+          usage_hint: usageHint ?? "",
+          ...(requestUrl ? { url: requestUrl } : {}),
+          should_escape: shouldEscape ?? false,
+        });
+      } else if (requestUrl) {
+        existing.url = requestUrl;
+      }
+    }
+  }
+  if (listeners.shortcuts.length > 0) {
+    const shortcuts = ((manifest.features ??= {}).shortcuts ??= []);
+    for (const { type, callbackId } of listeners.shortcuts) {
+      if (!shortcuts.some((s) => s.callback_id === callbackId)) {
+        shortcuts.push({ name: callbackId, type, callback_id: callbackId, description: callbackId });
+      }
+    }
+  }
+
+  if (listeners.unfurlDomains.length > 0) {
+    const features = (manifest.features ??= {});
+    features.unfurl_domains = union(features.unfurl_domains ?? [], listeners.unfurlDomains);
+  }
+  if (listeners.homeTab) {
+    const appHome = ((manifest.features ??= {}).app_home ??= {});
+    appHome.home_tab_enabled = true;
+  }
+
+  if (listeners.botEvents.length > 0) {
+    const subscriptions = (appSettings.event_subscriptions ??= {});
+    subscriptions.bot_events = union(subscriptions.bot_events ?? [], toManifestBotEvents(listeners.botEvents) as AnyManifestEvent[]);
+    if (requestUrl) {
+      subscriptions.request_url = requestUrl;
+    }
+  }
+  if (listeners.interactivity || listeners.shortcuts.length > 0 || listeners.blockSuggestion) {
+    const interactivity = (appSettings.interactivity ??= { is_enabled: true });
+    interactivity.is_enabled = true;
+    if (requestUrl) {
+      interactivity.request_url = requestUrl;
+      if (listeners.blockSuggestion) {
+        interactivity.message_menu_options_url = requestUrl;
+      }
+    }
+  }
+  appSettings.socket_mode_enabled = settings.socketMode;
+
+  if (listeners.functions.length > 0) {
+    manifest.functions = { ...manifest.functions, ...toFunctionsManifest(listeners.functions) };
+    appSettings.org_deploy_enabled = true;
+    appSettings.function_runtime ??= "remote";
+  }
+
+  return mergeOAuthConfig(manifest, { botScopes: requiredBotScopes(listeners) });
+}
+
+/**
+ * Adds the scopes and the redirect URLs to the manifest's oauth_config. The existing ones are kept as-is.
+ * @param manifest the manifest to modify
+ * @param additions the scopes and the redirect URLs to add
+ * @returns the given manifest
+ */
+export function mergeOAuthConfig(
+  manifest: ManifestParams,
+  additions: { botScopes?: AnyManifestBotScope[]; userScopes?: AnyManifestUserScope[]; redirectUrls?: string[] },
+): ManifestParams {
+  const { botScopes = [], userScopes = [], redirectUrls = [] } = additions;
+  if (botScopes.length === 0 && userScopes.length === 0 && redirectUrls.length === 0) {
+    return manifest;
+  }
+  const oauthConfig = (manifest.oauth_config ??= { scopes: {} });
+  if (botScopes.length > 0 || userScopes.length > 0) {
+    const scopes = (oauthConfig.scopes ??= {});
+    if (botScopes.length > 0) {
+      scopes.bot = union(scopes.bot ?? [], botScopes);
+    }
+    if (userScopes.length > 0) {
+      scopes.user = union(scopes.user ?? [], userScopes);
+    }
+  }
+  if (redirectUrls.length > 0) {
+    oauthConfig.redirect_urls = union(oauthConfig.redirect_urls ?? [], redirectUrls);
+  }
+  return manifest;
+}
+
+/**
+ * Lists the differences between two manifests. The order of the items in arrays is ignored.
+ * @param actual the manifest currently used (e.g., exported from the app settings page)
+ * @param expected the manifest generated from the code
+ * @returns the human-readable differences; an empty array if they are the same
+ */
+export function diffManifest(actual: ManifestParams, expected: ManifestParams): string[] {
+  const differences: string[] = [];
+  collectDifferences("", actual, expected, differences);
+  return differences;
+}
+
+function collectDifferences(path: string, actual: unknown, expected: unknown, differences: string[]): void {
+  if (Array.isArray(actual) || Array.isArray(expected)) {
+    const actualItems = (Array.isArray(actual) ? actual : []).map((item) => JSON.stringify(item));
+    const expectedItems = (Array.isArray(expected) ? expected : []).map((item) => JSON.stringify(item));
+    for (const item of expectedItems.filter((i) => !actualItems.includes(i))) {
+      differences.push(`${path}: missing ${item}`);
+    }
+    for (const item of actualItems.filter((i) => !expectedItems.includes(i))) {
+      differences.push(`${path}: unexpected ${item}`);
+    }
+  } else if (isObject(actual) && isObject(expected)) {
+    for (const key of union(Object.keys(actual), Object.keys(expected))) {
+      collectDifferences(path ? `${path}.${key}` : key, actual[key], expected[key], differences);
+    }
+  } else if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    differences.push(`${path}: ${JSON.stringify(actual)} -> ${JSON.stringify(expected)}`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function union<T extends string>(items: T[], additions: T[]): T[] {
+  const result = [...items];
+  for (const item of additions) {
+    if (!result.includes(item)) {
+      result.push(item);
+    }
+  }
+  return result;
+}
@@ -1,3 +1,8 @@
+import { isDebugLogEnabled } from "slack-web-api-client";
+import { SlackAppEnv, SlackOAuthEnv } from "../app-env";
+import { AuthorizeCache, AuthorizeCacheKey } from "../authorization/authorize-cache";
+import { EventDeduplicationStore, extractDeduplicationKey, RetryPolicy } from "../deduplication/event-deduplication-store";
+import { PreAuthorizeSlackMiddlewareRequest } from "../request/request";
 import { PreAuthorizeMiddleware, Middleware } from "./middleware";
 
 /**
@@ -38,3 +43,102 @@ export function ignoringSelfEvents(ignoreSelfAssistantMessageEvents: boolean): M
     }
   };
 }
+
+/**
+ * The deduplication keys saved by ignoringDuplicateRequests for the request bodies being processed.
+ */
+const savedDeduplicationKeys: WeakMap<object, string> = new WeakMap();
+
+/**
+ * Built-in middleware to acknowledge duplicated requests (e.g., retries by Slack) without running listeners.
+ * @param store the store that remembers already received requests
+ * @param retryPolicy how to handle requests retried by Slack
+ * @returns response if needed
+ */
+export function ignoringDuplicateRequests(store: EventDeduplicationStore | undefined, retryPolicy: RetryPolicy): PreAuthorizeMiddleware {
+  return async (req) => {
+    if (req.retryNum !== undefined) {
+      if (retryPolicy === "skip" || (retryPolicy === "skipHttpTimeout" && req.retryReason === "http_timeout")) {
+        if (isDebugLogEnabled(req.env.SLACK_LOGGING_LEVEL)) {
+          console.log(`*** Skipped a retried request (num: ${req.retryNum}, reason: ${req.retryReason}) ***`);
+        }
+        return { status: 200, body: "" };
+      }
+    }
+    if (store) {
+      const key = extractDeduplicationKey(req.body);
+      if (key && !(await store.saveIfAbsent(key))) {
+        if (isDebugLogEnabled(req.env.SLACK_LOGGING_LEVEL)) {
+          console.log(`*** Skipped a duplicated request (key: ${key}) ***`);
+        }
+        return { status: 200, body: "" };
+      }
+      if (key) {
+        savedDeduplicationKeys.set(req.body, key);
+      }
+    }
+  };
+}
+
+/**
+ * Deletes the deduplication key that ignoringDuplicateRequests saved for the request,
+ * so that Slack's retry of the failed request is processed. SlackApp calls this when the processing fails.
+ * @param store the store that remembers already received requests
+ * @param body the whole request payload data
+ */
+export async function releaseDeduplicationKey(
+  store: EventDeduplicationStore,
+  // deno-lint-ignore no-explicit-any
+  body: Record<string, any>,
+): Promise<void> {
+  const key = savedDeduplicationKeys.get(body);
+  if (key && store.delete) {
+    savedDeduplicationKeys.delete(body);
+    await store.delete(key);
+  }
+}
+
+const eventTypesToInvalidateAuthorizeCache = ["tokens_revoked", "app_uninstalled", "scope_granted", "scope_denied"];
+
+/**
+ * Built-in middleware to delete the cached authorize() results when the installation's tokens or scopes change.
+ * @param cache the cache for authorize() function results
+ * @returns response if needed
+ */
+export function invalidatingAuthorizeCache(cache: AuthorizeCache): PreAuthorizeMiddleware {
+  return async (req) => {
+    await invalidateAuthorizeCache(cache, req);
+  };
+}
+
+/**
+ * Deletes the cached authorize() results that the tokens_revoked, app_uninstalled, scope_granted, or scope_denied event affects.
+ * SlackOAuthApp calls this again after deleting the installations, so that the requests in the meantime cannot cache the revoked tokens.
+ * @param cache the cache for authorize() function results
+ * @param req the request that may have the event
+ */
+export async function invalidateAuthorizeCache(
+  cache: AuthorizeCache,
+  req: Pick<PreAuthorizeSlackMiddlewareRequest<SlackAppEnv>, "body" | "context" | "env">,
+): Promise<void> {
+  const event = req.body.event;
+  if (req.body.type !== "event_callback" || !event || !eventTypesToInvalidateAuthorizeCache.includes(event.type)) {
+    return;
+  }
+  const { enterpriseId, teamId, isEnterpriseInstall } = req.context;
+  // For org-wide installations, the cached results for all the workspaces in the org are deleted
+  const key: AuthorizeCacheKey = isEnterpriseInstall ? { enterpriseId } : { enterpriseId, teamId };
+  // Only when each user's own token is cached (SLACK_USER_TOKEN_RESOLUTION=actor), revoking user tokens affects the users only;
+  // otherwise, the installer's user token can be cached for any user in the org/team
+  const userIds: string[] | undefined =
+    event.type === "tokens_revoked" && !event.tokens?.bot && (req.env as Partial<SlackOAuthEnv>).SLACK_USER_TOKEN_RESOLUTION === "actor"
+      ? event.tokens?.oauth
+      : undefined;
+  if (userIds) {
+    for (const userId of userIds) {
+      await cache.invalidate({ ...key, userId });
+    }
+  } else {
+    await cache.invalidate(key);
+  }
+}
@@ -0,0 +1,18 @@
+import { SlackAppEnv } from "../app-env";
+import { ListenerMiddleware, ListenerOptions } from "./middleware";
+
+/**
+ * Splits the arguments of a listener registration method into the listener middleware and the listener functions.
+ * @param args the arguments after the constraints
+ * @returns the listener middleware, the first function (ack or lazy), and the second one (lazy) if exists
+ */
+export function parseListenerArgs<E extends SlackAppEnv, First, Second = never>(
+  args: unknown[],
+): [ListenerMiddleware<E>[], First, Second | undefined] {
+  if (typeof args[0] === "function") {
+    return [[], args[0] as First, args[1] as Second | undefined];
+  }
+  const options = args[0] as ListenerOptions<E> | undefined;
+  const middleware = Array.isArray(options) ? options : (options?.middleware ?? []);
+  return [middleware, args[1] as First, args[2] as Second | undefined];
+}
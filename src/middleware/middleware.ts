@@ -13,3 +13,39 @@ export type PreAuthorizeMiddleware<E extends SlackAppEnv = SlackAppEnv> = (
  * Middleware to run after authorize() function call.
  */
 export type Middleware<E extends SlackAppEnv = SlackAppEnv> = (req: SlackMiddlewareRequest<E>) => Promise<SlackResponse | void>;
+
+/**
+ * Middleware to run only for a specific listener, right after the listener's constraints match an incoming request.
+ * If this middleware returns SlackResponse, the listener's ack/lazy functions won't be executed.
+ */
+export type ListenerMiddleware<E extends SlackAppEnv = SlackAppEnv> = Middleware<E>;
+
+/**
+ * Options for registering a listener, which can be either the array of listener middleware or an object including it.
+ */
+export type ListenerOptions<E extends SlackAppEnv = SlackAppEnv> = ListenerMiddleware<E>[] | { middleware?: ListenerMiddleware<E>[] };
+
+/**
+ * Request data representation available for around middleware.
+ */
+export type AroundMiddlewareRequest<E extends SlackAppEnv = SlackAppEnv> = PreAuthorizeSlackMiddlewareRequest<E> & {
+  /**
+   * Returns a promise that settles when all the lazy listeners started inside next() complete.
+   */
+  lazyCompletion: () => Promise<void>;
+  /**
+   * Passes a promise to ExecutionContext#waitUntil() so that it can run after sending the response.
+   */
+  // deno-lint-ignore no-explicit-any
+  waitUntil: (promise: Promise<any>) => void;
+};
+
+/**
+ * Middleware that wraps pre-authorize middleware, authorize() function call, post-authorize middleware, and the listener's ack function.
+ * Call next() to proceed, then do anything with the returned response before returning it (or a new one).
+ * When this middleware returns a response without calling next(), the request is not processed any further.
+ */
+export type AroundMiddleware<E extends SlackAppEnv = SlackAppEnv> = (
+  req: AroundMiddlewareRequest<E>,
+  next: () => Promise<Response>,
+) => Promise<Response>;
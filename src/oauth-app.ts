@@ -5,7 +5,14 @@ import { InstallationStore } from "./oauth/installation-store";
 import { NoStorageStateStore, StateStore } from "./oauth/state-store";
 import { generateAuthorizeUrl } from "./oauth/authorize-url-generator";
 import { parse as parseCookie } from "./cookie";
-import { SlackAPIClient, OAuthV2AccessResponse, OpenIDConnectTokenResponse } from "slack-web-api-client";
+import {
+  AnyManifestBotScope,
+  AnyManifestUserScope,
+  ManifestParams,
+  SlackAPIClient,
+  OAuthV2AccessResponse,
+  OpenIDConnectTokenResponse,
+} from "slack-web-api-client";
 import { toInstallation } from "./oauth/installation";
 import {
   AfterInstallation,
@@ -24,7 +31,16 @@ import { generateOIDCAuthorizeUrl } from "./oidc/authorize-url-generator";
 import { InstallationError, MissingCode, CompletionPageError, InstallationStoreError, OpenIDConnectError } from "./oauth/error-codes";
 import { OAuthStartPageRenderer, OAuthCompletionPageRenderer, OAuthErrorPageRenderer } from "./oauth/oauth-page-renderer";
 import { AssistantThreadContextStore } from "./assistant/thread-context-store";
+import { AuthorizeCache } from "./authorization/authorize-cache";
 import { AuthorizeErrorHandler } from "./authorization/authorize-error-handler";
+import { AckTimeoutHandler } from "./handler/ack-timeout-handler";
+import { ErrorHandler } from "./handler/error-handler";
+import { UnhandledRequestHandler } from "./handler/unhandled-request-handler";
+import { EventDeduplicationStore, RetryPolicy } from "./deduplication/event-deduplication-store";
+import { mergeOAuthConfig, ToManifestOptions } from "./manifest/manifest";
+import { HomeTabViewStore } from "./home/home-tab";
+import { ValueCodec } from "./codec/value-codec";
+import { invalidateAuthorizeCache } from "./middleware/built-in-middleware";
 
 /**
  * Options for initializing SlackOAuthApp instance.
@@ -40,11 +56,42 @@ export interface SlackOAuthAppOptions<E extends SlackOAuthEnv> {
    */
   installationStore: InstallationStore<E>;
 
+  /**
+   * The cache for the installation store's authorize() function results.
+   */
+  authorizeCache?: AuthorizeCache;
+
   /**
    * The hoook that handles authorization failure.
    */
   authorizeErrorHandler?: AuthorizeErrorHandler<E>;
 
+  /**
+   * The hook that handles exceptions thrown by middleware and listeners.
+   */
+  errorHandler?: ErrorHandler<E>;
+
+  /**
+   * The hook that handles requests that no listener matches.
+   */
+  unhandledRequestHandler?: UnhandledRequestHandler<E>;
+
+  /**
+   * The time budget in milliseconds for acknowledging a request.
+   */
+  ackTimeoutMillis?: number;
+
+  /**
+   * The hook that builds the fallback response when ackTimeoutMillis elapses.
+   */
+  ackTimeoutHandler?: AckTimeoutHandler<E>;
+
+  /**
+   * When this is set to true, the app completes a custom function execution with an error
+   * when its function listener throws an exception.
+   */
+  autoFailFunctionExecution?: boolean;
+
   /**
    * Server-side store for managing the state parameter string used for general OAuth security.
    * When this is absent, the OAuth flow uses only web browser cookies to ensure security.
@@ -117,6 +164,28 @@ export interface SlackOAuthAppOptions<E extends SlackOAuthEnv> {
    * Your custom assistant thread context store implementation.
    */
   assistantThreadContextStore?: AssistantThreadContextStore;
+
+  /**
+   * The store that remembers already received requests.
+   * When this is set, duplicated requests are acknowledged without running listeners.
+   */
+  eventDeduplicationStore?: EventDeduplicationStore;
+
+  /**
+   * How to handle requests retried by Slack. The default is "deduplicate".
+   */
+  retryPolicy?: RetryPolicy;
+
+  /**
+   * The store that remembers the Home tab views published by app.home().
+   */
+  homeTabViewStore?: HomeTabViewStore;
+
+  /**
+   * The codec that encodes and decodes view.private_metadata and action values.
+   * When this is absent and env.SLACK_VALUE_SIGNING_SECRET is set, the app creates the one that signs the values.
+   */
+  valueCodec?: ValueCodec;
 }
 
 /**
@@ -183,11 +252,21 @@ export class SlackOAuthApp<E extends SlackOAuthEnv> extends SlackApp<E> {
     super({
       env: options.env,
       authorize: options.installationStore.toAuthorize(),
+      authorizeCache: options.authorizeCache,
       authorizeErrorHandler: options.authorizeErrorHandler,
+      errorHandler: options.errorHandler,
+      unhandledRequestHandler: options.unhandledRequestHandler,
+      ackTimeoutMillis: options.ackTimeoutMillis,
+      ackTimeoutHandler: options.ackTimeoutHandler,
+      autoFailFunctionExecution: options.autoFailFunctionExecution,
       routes: { events: options.routes?.events ?? "/slack/events" },
       startLazyListenerAfterAck: options.startLazyListenerAfterAck,
       ignoreSelfEvents: options.ignoreSelfEvents,
       assistantThreadContextStore: options.assistantThreadContextStore,
+      eventDeduplicationStore: options.eventDeduplicationStore,
+      retryPolicy: options.retryPolicy,
+      homeTabViewStore: options.homeTabViewStore,
+      valueCodec: options.valueCodec,
     });
     this.env = options.env;
     this.installationStore = options.installationStore;
@@ -233,13 +312,14 @@ export class SlackOAuthApp<E extends SlackOAuthEnv> extends SlackApp<E> {
   }
 
   #enableTokenRevocationHandlers(installationStore: InstallationStore<E>) {
-    this.event("tokens_revoked", async ({ payload, body }) => {
+    this.event("tokens_revoked", async ({ payload, body, context, env }) => {
       if (Array.isArray(payload.tokens.bot) && payload.tokens.bot.length > 0) {
         // actually only one bot per app in a workspace
         try {
           await installationStore.deleteBotInstallation({
             enterpriseId: body.enterprise_id,
             teamId: body.team_id,
+            isEnterpriseInstall: context.isEnterpriseInstall,
           });
         } catch (e) {
           console.log(`Failed to delete a bot installation (error: ${e})`);
@@ -252,22 +332,31 @@ export class SlackOAuthApp<E extends SlackOAuthEnv> extends SlackApp<E> {
               enterpriseId: body.enterprise_id,
               teamId: body.team_id,
               userId,
+              isEnterpriseInstall: context.isEnterpriseInstall,
             });
           } catch (e) {
             console.log(`Failed to delete a user installation (error: ${e})`);
           }
         }
       }
+      // The requests before the deletion can cache the revoked tokens again after the pre-authorize invalidation
+      if (this.authorizeCache) {
+        await invalidateAuthorizeCache(this.authorizeCache, { body, context, env });
+      }
     });
-    this.event("app_uninstalled", async ({ body }) => {
+    this.event("app_uninstalled", async ({ body, context, env }) => {
       try {
         await installationStore.deleteAll({
           enterpriseId: body.enterprise_id,
           teamId: body.team_id,
+          isEnterpriseInstall: context.isEnterpriseInstall,
         });
       } catch (e) {
         console.log(`Failed to delete all installation for an app_uninstalled event (error: ${e})`);
       }
+      if (this.authorizeCache) {
+        await invalidateAuthorizeCache(this.authorizeCache, { body, context, env });
+      }
     });
     this.event("app_uninstalled_team", async ({ body }) => {
       try {
@@ -281,6 +370,31 @@ export class SlackOAuthApp<E extends SlackOAuthEnv> extends SlackApp<E> {
     });
   }
 
+  /**
+   * Generates the app manifest from the registered listeners and this app's settings.
+   * In addition to SlackApp's one, this adds the OAuth redirect URLs and the scopes in env to oauth_config.
+   * @param base the base manifest that has the other settings such as display_information
+   * @param options the options such as the public URL of this app
+   * @returns a new manifest object
+   */
+  override toManifest(base: ManifestParams, options: ToManifestOptions = {}): ManifestParams {
+    const toUrl = (path: string) => (options.baseUrl ? new URL(path, options.baseUrl).toString() : undefined);
+    const redirectUrls = [this.oauth.redirectUri ?? toUrl(this.routes.oauth.callback)];
+    if (this.oidc && this.routes.oidc) {
+      redirectUrls.push(this.oidc.redirectUri ?? toUrl(this.routes.oidc.callback));
+    }
+    const splitScopes = (scopes: string | undefined) =>
+      (scopes ?? "")
+        .split(",")
+        .map((scope) => scope.trim())
+        .filter((scope) => scope.length > 0);
+    return mergeOAuthConfig(super.toManifest(base, options), {
+      botScopes: splitScopes(this.env.SLACK_BOT_SCOPES) as AnyManifestBotScope[],
+      userScopes: splitScopes(this.env.SLACK_USER_SCOPES) as AnyManifestUserScope[],
+      redirectUrls: redirectUrls.filter((url): url is string => url !== undefined),
+    });
+  }
+
   override async run(request: Request, ctx: ExecutionContext = new NoopExecutionContext()): Promise<Response> {
     const url = new URL(request.url);
     if (request.method === "GET") {
@@ -0,0 +1,105 @@
+/**
+ * A value bound to a placeholder (?) in a SQL statement.
+ */
+export type SQLValue = string | number | null;
+
+/**
+ * The minimum interface to run SQL statements, which SQLInstallationStore is built on.
+ * Wrap your database driver with this interface to use a database other than the reference adapters.
+ */
+export interface SQLExecutor {
+  /**
+   * Runs a SQL statement with positional parameters.
+   * @param sql the SQL statement with ? placeholders
+   * @param params the values bound to the placeholders
+   * @returns the rows returned by the statement; an empty array for statements that do not return rows
+   */
+  // deno-lint-ignore no-explicit-any
+  query<T = Record<string, any>>(sql: string, params?: SQLValue[]): Promise<T[]>;
+}
+
+/**
+ * A prepared statement of the synchronous SQLite drivers such as bun:sqlite and node:sqlite.
+ */
+export interface SQLiteStatement {
+  all(...params: SQLValue[]): unknown[];
+  run(...params: SQLValue[]): unknown;
+  /**
+   * better-sqlite3 sets false when the statement does not return rows, and then all() is not allowed.
+   */
+  reader?: boolean;
+}
+
+/**
+ * A database of the synchronous SQLite drivers such as bun:sqlite and node:sqlite.
+ */
+export interface SQLiteDatabase {
+  prepare(sql: string): SQLiteStatement;
+}
+
+/**
+ * SQLExecutor implementation for the synchronous SQLite drivers: bun:sqlite, node:sqlite, and better-sqlite3.
+ *
+ * @example
+ * ```typescript
+ * import { DatabaseSync } from "node:sqlite";
+ * const installationStore = new SQLInstallationStore(env, new SQLiteExecutor(new DatabaseSync("slack.db")));
+ * ```
+ */
+export class SQLiteExecutor implements SQLExecutor {
+  #db: SQLiteDatabase;
+
+  constructor(db: SQLiteDatabase) {
+    this.#db = db;
+  }
+
+  // deno-lint-ignore require-await no-explicit-any
+  async query<T = Record<string, any>>(sql: string, params: SQLValue[] = []): Promise<T[]> {
+    const statement = this.#db.prepare(sql);
+    if (statement.reader === false) {
+      statement.run(...params);
+      return [];
+    }
+    return statement.all(...params) as T[];
+  }
+}
+
+/**
+ * A prepared statement of Cloudflare D1 and the compatible databases.
+ */
+export interface D1PreparedStatement {
+  bind(...values: SQLValue[]): D1PreparedStatement;
+  all<T = unknown>(): Promise<{ results: T[] }>;
+}
+
+/**
+ * A database binding of Cloudflare D1 and the compatible databases.
+ */
+export interface D1Database {
+  prepare(sql: string): D1PreparedStatement;
+}
+
+/**
+ * SQLExecutor implementation for Cloudflare D1 and the compatible databases.
+ *
+ * @example
+ * ```typescript
+ * const installationStore = new SQLInstallationStore(env, new D1Executor(env.SLACK_DB));
+ * ```
+ */
+export class D1Executor implements SQLExecutor {
+  #db: D1Database;
+
+  constructor(db: D1Database) {
+    this.#db = db;
+  }
+
+  // deno-lint-ignore no-explicit-any
+  async query<T = Record<string, any>>(sql: string, params: SQLValue[] = []): Promise<T[]> {
+    const { results } = await this.#db
+      .prepare(sql)
+      .bind(...params)
+      .all<T>();
+    return results ?? [];
+  }
+}
@@ -0,0 +1,295 @@
+import { SlackOAuthEnv } from "../app-env";
+import { Authorize } from "../authorization/authorize";
+import { installationStoreAuthorize, InstallationStoreAuthorizeOptions } from "../authorization/installation-store-authorize";
+import { ConfigError } from "../errors";
+import { Installation } from "./installation";
+import { InstallationStore, InstallationStoreQuery } from "./installation-store";
+import { SQLExecutor, SQLValue } from "./sql-executor";
+
+/**
+ * Options for SQLInstallationStore.
+ */
+export interface SQLInstallationStoreOptions extends InstallationStoreAuthorizeOptions {
+  /**
+   * The name of the table that stores installations. The default is "slack_installations".
+   * The applied schema versions are recorded in the table with "_migrations" suffix.
+   */
+  tableName?: string;
+  /**
+   * When this is set to true (default), the schema migrations run before the first query.
+   * Set false when you run migrate() as part of your deployment.
+   */
+  autoMigrate?: boolean;
+}
+
+/**
+ * A row of the installation table.
+ */
+interface InstallationRow {
+  id: number;
+  client_id: string;
+  app_id: string;
+  enterprise_id: string;
+  team_id: string;
+  user_id: string;
+  is_enterprise_install: number;
+  bot_token: string | null;
+  bot_user_id: string | null;
+  bot_scopes: string | null;
+  bot_refresh_token: string | null;
+  bot_token_expires_at: number | null;
+  user_token: string | null;
+  user_scopes: string | null;
+  user_refresh_token: string | null;
+  user_token_expires_at: number | null;
+  incoming_webhook_url: string | null;
+  incoming_webhook_channel_id: string | null;
+  incoming_webhook_configuration_url: string | null;
+  installed_at: number;
+}
+
+/**
+ * The schema changes in order. Never modify the released ones; append a new version instead.
+ */
+const migrations: ((table: string) => string[])[] = [
+  (table) => [
+    `CREATE TABLE IF NOT EXISTS ${table} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      client_id TEXT NOT NULL,
+      app_id TEXT NOT NULL,
+      enterprise_id TEXT NOT NULL DEFAULT '',
+      team_id TEXT NOT NULL DEFAULT '',
+      user_id TEXT NOT NULL,
+      is_enterprise_install INTEGER NOT NULL DEFAULT 0,
+      bot_token TEXT,
+      bot_user_id TEXT,
+      bot_scopes TEXT,
+      bot_refresh_token TEXT,
+      bot_token_expires_at INTEGER,
+      user_token TEXT,
+      user_scopes TEXT,
+      user_refresh_token TEXT,
+      user_token_expires_at INTEGER,
+      incoming_webhook_url TEXT,
+      incoming_webhook_channel_id TEXT,
+      incoming_webhook_configuration_url TEXT,
+      installed_at INTEGER NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS ${table}_idx ON ${table} (client_id, enterprise_id, team_id, user_id, installed_at)`,
+  ],
+];
+
+const tableNamePattern = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const clearBotColumns = "bot_token = NULL, bot_user_id = NULL, bot_scopes = NULL, bot_refresh_token = NULL, bot_token_expires_at = NULL";
+const clearUserColumns = "user_token = NULL, user_scopes = NULL, user_refresh_token = NULL, user_token_expires_at = NULL";
+
+/**
+ * InstallationStore implementation backed by a SQL database.
+ * Every save() adds a row and clears the tokens that the row supersedes in the older rows, so that the table keeps
+ * at most one bot token per org/team and one user token per user. The find methods return the latest
+ * installation for the org/team (and user).
+ * The schema is written in the SQLite dialect, so the supported databases are SQLite and the compatible ones such as Cloudflare D1.
+ * Org-wide installations are stored with an empty team_id, and the rows are scoped by env.SLACK_CLIENT_ID,
+ * so that multiple apps can share the same table.
+ *
+ * @example
+ * ```typescript
+ * const app = new SlackOAuthApp({
+ *   env,
+ *   installationStore: new SQLInstallationStore(env, new D1Executor(env.SLACK_DB)),
+ * });
+ * ```
+ */
+export class SQLInstallationStore<E extends SlackOAuthEnv> implements InstallationStore<E> {
+  #clientId: string;
+  #executor: SQLExecutor;
+  #table: string;
+  #autoMigrate: boolean;
+  #authorizeOptions: InstallationStoreAuthorizeOptions;
+  #migration: Promise<void> | undefined;
+
+  constructor(env: SlackOAuthEnv, executor: SQLExecutor, options: SQLInstallationStoreOptions = {}) {
+    const table = options.tableName ?? "slack_installations";
+    if (!tableNamePattern.test(table)) {
+      throw new ConfigError(`Invalid table name for SQLInstallationStore: ${table}`);
+    }
+    this.#clientId = env.SLACK_CLIENT_ID;
+    this.#executor = executor;
+    this.#table = table;
+    this.#autoMigrate = options.autoMigrate ?? true;
+    this.#authorizeOptions = { tokenRotationWindowSeconds: options.tokenRotationWindowSeconds };
+  }
+
+  /**
+   * Creates or upgrades the tables. This operation is idempotent.
+   */
+  async migrate(): Promise<void> {
+    const versionTable = `${this.#table}_migrations`;
+    await this.#executor.query(`CREATE TABLE IF NOT EXISTS ${versionTable} (version INTEGER PRIMARY KEY, applied_at INTEGER NOT NULL)`);
+    const rows = await this.#executor.query<{ version: number }>(`SELECT version FROM ${versionTable}`);
+    const applied = new Set(rows.map((r) => Number(r.version)));
+    for (const [index, migration] of migrations.entries()) {
+      const version = index + 1;
+      if (applied.has(version)) {
+        continue;
+      }
+      for (const sql of migration(this.#table)) {
+        await this.#executor.query(sql);
+      }
+      // Another process may have applied the same version in the meantime
+      await this.#executor.query(
+        `INSERT INTO ${versionTable} (version, applied_at) SELECT ?, ? WHERE NOT EXISTS (SELECT 1 FROM ${versionTable} WHERE version = ?)`,
+        [version, Date.now(), version],
+      );
+    }
+  }
+
+  async save(installation: Installation): Promise<void> {
+    await this.#ready();
+    const row: Omit<InstallationRow, "id"> = {
+      client_id: this.#clientId,
+      app_id: installation.app_id,
+      enterprise_id: installation.enterprise_id ?? "",
+      team_id: installation.is_enterprise_install ? "" : (installation.team_id ?? ""),
+      user_id: installation.user_id,
+      is_enterprise_install: installation.is_enterprise_install ? 1 : 0,
+      bot_token: installation.bot_token ?? null,
+      bot_user_id: installation.bot_user_id ?? null,
+      bot_scopes: installation.bot_scopes?.join(",") ?? null,
+      bot_refresh_token: installation.bot_refresh_token ?? null,
+      bot_token_expires_at: installation.bot_token_expires_at ?? null,
+      user_token: installation.user_token ?? null,
+      user_scopes: installation.user_scopes?.join(",") ?? null,
+      user_refresh_token: installation.user_refresh_token ?? null,
+      user_token_expires_at: installation.user_token_expires_at ?? null,
+      incoming_webhook_url: installation.incoming_webhook_url ?? null,
+      incoming_webhook_channel_id: installation.incoming_webhook_channel_id ?? null,
+      incoming_webhook_configuration_url: installation.incoming_webhook_configuration_url ?? null,
+      installed_at: Date.now(),
+    };
+    const columns = Object.keys(row);
+    await this.#executor.query(
+      `INSERT INTO ${this.#table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+      Object.values(row),
+    );
+
+    // A save() with only either token (e.g., a refreshed bot token) must not delete the other token in the older rows.
+    // The bot token is shared by the whole org/team no matter who installed the app, while each user has their own user token.
+    const query = {
+      enterpriseId: installation.enterprise_id,
+      teamId: installation.team_id,
+      isEnterpriseInstall: installation.is_enterprise_install,
+    };
+    const [where, params] = this.#where(query);
+    const superseded = (scope: string) => `${scope} AND id < (SELECT MAX(id) FROM ${this.#table} WHERE ${scope})`;
+    if (row.bot_token) {
+      await this.#executor.query(`UPDATE ${this.#table} SET ${clearBotColumns} WHERE ${superseded(where)}`, [...params, ...params]);
+    }
+    if (row.user_token) {
+      const [userWhere, userParams] = this.#where(query, installation.user_id);
+      await this.#executor.query(`UPDATE ${this.#table} SET ${clearUserColumns} WHERE ${superseded(userWhere)}`, [
+        ...userParams,
+        ...userParams,
+      ]);
+    }
+    await this.#deleteEmptyRows(where, params);
+  }
+
+  async findBotInstallation(query: InstallationStoreQuery): Promise<Installation | undefined> {
+    await this.#ready();
+    const [where, params] = this.#where(query);
+    const rows = await this.#executor.query<InstallationRow>(
+      `SELECT * FROM ${this.#table} WHERE ${where} AND bot_token IS NOT NULL ORDER BY installed_at DESC, id DESC LIMIT 1`,
+      params,
+    );
+    return rows.length > 0 ? toInstallation(rows[0]) : undefined;
+  }
+
+  async findUserInstallation(query: InstallationStoreQuery): Promise<Installation | undefined> {
+    await this.#ready();
+    const [where, params] = this.#where(query, query.userId);
+    const rows = await this.#executor.query<InstallationRow>(
+      `SELECT * FROM ${this.#table} WHERE ${where} AND user_token IS NOT NULL ORDER BY installed_at DESC, id DESC LIMIT 1`,
+      params,
+    );
+    return rows.length > 0 ? toInstallation(rows[0]) : undefined;
+  }
+
+  async deleteBotInstallation(query: InstallationStoreQuery): Promise<void> {
+    await this.#ready();
+    const [where, params] = this.#where(query);
+    await this.#executor.query(`UPDATE ${this.#table} SET ${clearBotColumns} WHERE ${where}`, params);
+    await this.#deleteEmptyRows(where, params);
+  }
+
+  async deleteUserInstallation(query: InstallationStoreQuery): Promise<void> {
+    await this.#ready();
+    const [where, params] = this.#where(query, query.userId);
+    await this.#executor.query(`UPDATE ${this.#table} SET ${clearUserColumns} WHERE ${where}`, params);
+    await this.#deleteEmptyRows(where, params);
+  }
+
+  async deleteAll(query: InstallationStoreQuery): Promise<void> {
+    await this.#ready();
+    const [where, params] = this.#where(query);
+    await this.#executor.query(`DELETE FROM ${this.#table} WHERE ${where}`, params);
+  }
+
+  toAuthorize(): Authorize<E> {
+    return installationStoreAuthorize(this, this.#authorizeOptions);
+  }
+
+  async #ready(): Promise<void> {
+    if (!this.#autoMigrate) {
+      return;
+    }
+    if (!this.#migration) {
+      this.#migration = this.migrate().catch((e) => {
+        // Allow retrying in the next call
+        this.#migration = undefined;
+        throw e;
+      });
+    }
+    await this.#migration;
+  }
+
+  /**
+   * Builds the WHERE clause for the query. Org-wide installations are matched regardless of team_id.
+   */
+  #where(query: InstallationStoreQuery, userId?: string): [string, SQLValue[]] {
+    const conditions = ["client_id = ?", "enterprise_id = ?", "team_id = ?"];
+    const params: SQLValue[] = [this.#clientId, query.enterpriseId ?? "", query.isEnterpriseInstall ? "" : (query.teamId ?? "")];
+    if (userId) {
+      conditions.push("user_id = ?");
+      params.push(userId);
+    }
+    return [conditions.join(" AND "), params];
+  }
+
+  async #deleteEmptyRows(where: string, params: SQLValue[]): Promise<void> {
+    await this.#executor.query(`DELETE FROM ${this.#table} WHERE ${where} AND bot_token IS NULL AND user_token IS NULL`, params);
+  }
+}
+
+function toInstallation(row: InstallationRow): Installation {
+  return {
+    app_id: row.app_id,
+    is_enterprise_install: Number(row.is_enterprise_install) === 1,
+    enterprise_id: row.enterprise_id || undefined,
+    team_id: row.team_id || undefined,
+    user_id: row.user_id,
+    bot_token: row.bot_token ?? undefined,
+    bot_user_id: row.bot_user_id ?? undefined,
+    bot_scopes: row.bot_scopes?.split(","),
+    bot_refresh_token: row.bot_refresh_token ?? undefined,
+    bot_token_expires_at: row.bot_token_expires_at ?? undefined,
+    user_token: row.user_token ?? undefined,
+    user_scopes: row.user_scopes?.split(","),
+    user_refresh_token: row.user_refresh_token ?? undefined,
+    user_token_expires_at: row.user_token_expires_at ?? undefined,
+    incoming_webhook_url: row.incoming_webhook_url ?? undefined,
+    incoming_webhook_channel_id: row.incoming_webhook_channel_id ?? undefined,
+    incoming_webhook_configuration_url: row.incoming_webhook_configuration_url ?? undefined,
+  };
+}
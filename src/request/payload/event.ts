@@ -581,7 +581,8 @@ export interface FileUnsharedEvent extends SlackEvent<"file_unshared"> {
   event_ts: string;
 }
 
-export interface FunctionExecutedEvent extends SlackEvent<"function_executed"> {
+// deno-lint-ignore no-explicit-any
+export interface FunctionExecutedEvent<Inputs = { [key: string]: any }> extends SlackEvent<"function_executed"> {
   type: "function_executed";
   function: {
     id: string;
@@ -611,10 +612,7 @@ export interface FunctionExecutedEvent extends SlackEvent<"function_executed"> {
     date_deleted: number;
     form_enabled: boolean;
   };
-  inputs: {
-    // deno-lint-ignore no-explicit-any
-    [key: string]: any;
-  };
+  inputs: Inputs;
   function_execution_id: string;
   workflow_execution_id: string;
   bot_access_token: string; // xwfp-...
@@ -752,7 +750,7 @@ export interface LinkSharedEvent extends SlackEvent<"link_shared"> {
     url: string;
   }[];
   unfurl_id?: string;
-  source?: string;
+  source?: "composer" | "conversations_history";
   event_ts: string;
 }
 
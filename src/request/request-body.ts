@@ -17,6 +17,9 @@ export interface SlackRequestBody {
   /** The slash command that was invoked (e.g., "/weather") - present in slash command payloads */
   command?: string;
 
+  /** The text that follows the slash command - present in slash command payloads */
+  text?: string;
+
   /** The event data for Events API payloads */
   event?: {
     /** The type of event (e.g., "message", "app_mention") */
@@ -66,6 +69,16 @@ export interface SlackRequestBody {
     /** The callback_id of the view */
     callback_id: string;
   };
+
+  /** The custom function execution that the interactivity originates from, if any */
+  function_data?: {
+    /** The ID of the function execution */
+    execution_id: string;
+    /** The custom function definition */
+    function: { callback_id: string };
+  };
+  /** A workflow token generated for the function execution - present together with `function_data` */
+  bot_access_token?: string;
 }
 
 /**
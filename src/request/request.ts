@@ -5,8 +5,12 @@ import {
   SlackAppContextWithOptionalRespond,
   SlackAppContextWithChannelId,
   SlackAppContextWithAssistantUtilities,
+  SlackAppContextWithFunctionUtilities,
 } from "../context/context";
 import { SlackAppEnv } from "../app-env";
+import { ParsedCommandArgs } from "../command/command-definition";
+import { SlashCommand } from "./payload/slash-command";
+import { ViewSubmission } from "./payload/view-submission";
 
 /**
  * Basic request data representation.
@@ -36,12 +40,55 @@ export type SlackMiddlewareRequest<E extends SlackAppEnv> = SlackMiddlewareReque
   context: SlackAppContext;
 };
 
+/**
+ * The values that app.valueCodec decoded and verified before running block_actions/view_submission/view_closed listeners.
+ * These are available only when the app has valueCodec (or env.SLACK_VALUE_SIGNING_SECRET).
+ * Plain values that were not encoded are left as-is in the payload, and the requests with tampered or expired values
+ * are rejected through the error handler.
+ */
+export interface DecodedValues {
+  /**
+   * The value decoded from view.private_metadata.
+   */
+  metadata?: unknown;
+  /**
+   * The value decoded from the value of the first action in block_actions payloads.
+   */
+  actionValue?: unknown;
+}
+
+/**
+ * The named capture groups of a listener's regular expression pattern.
+ */
+export type MatchedGroups = { [key: string]: string };
+
+/**
+ * The result of matching a regular expression pattern, whose groups have only the given names.
+ * Without the type parameter, this is the same as RegExpMatchArray.
+ */
+export type TypedRegExpMatchArray<G extends MatchedGroups = MatchedGroups> = MatchedGroups extends G
+  ? RegExpMatchArray
+  : Omit<RegExpMatchArray, "groups"> & { groups?: G };
+
+/**
+ * The properties of the requests for the listeners that can be registered with a regular expression pattern.
+ * The type parameter G types the named capture groups, e.g., { id: string } for /ticket (?<id>\d+)/.
+ */
+export type WithMatches<G extends MatchedGroups = MatchedGroups> = {
+  /**
+   * The result of matching the listener's regular expression pattern, including capture groups.
+   * This is available only when the listener is registered with a RegExp pattern.
+   */
+  matches?: TypedRegExpMatchArray<G>;
+};
+
 /**
  * Request data representation available for listeners.
  */
 export type SlackRequest<E extends SlackAppEnv, Payload> = SlackMiddlewareRequest<E> & {
   payload: Payload;
-};
+} & WithMatches &
+  DecodedValues;
 
 /**
  * Request data representation including channel_id available for listeners.
@@ -49,7 +96,7 @@ export type SlackRequest<E extends SlackAppEnv, Payload> = SlackMiddlewareReques
 export type SlackRequestWithChannelId<E extends SlackAppEnv, Payload> = SlackMiddlewareRequest<E> & {
   context: SlackAppContextWithChannelId;
   payload: Payload;
-};
+} & WithMatches;
 
 /**
  * Request data representation including channel_id and thread_ts available for listeners.
@@ -57,7 +104,16 @@ export type SlackRequestWithChannelId<E extends SlackAppEnv, Payload> = SlackMid
 export type SlackRequestWithAssistantUtilities<E extends SlackAppEnv, Payload> = SlackMiddlewareRequest<E> & {
   context: SlackAppContextWithAssistantUtilities;
   payload: Payload;
-};
+} & WithMatches;
+
+/**
+ * Request data representation w/ custom function utilities available for listeners.
+ */
+// deno-lint-ignore no-explicit-any
+export type SlackRequestWithFunctionUtilities<E extends SlackAppEnv, Payload, Outputs = Record<string, any>> = SlackMiddlewareRequest<E> & {
+  context: SlackAppContextWithFunctionUtilities<Outputs>;
+  payload: Payload;
+} & WithMatches;
 
 /**
  * Request data representation w/ response_url available for listeners.
@@ -65,6 +121,16 @@ export type SlackRequestWithAssistantUtilities<E extends SlackAppEnv, Payload> =
 export type SlackRequestWithRespond<E extends SlackAppEnv, Payload> = SlackMiddlewareRequest<E> & {
   context: SlackAppContextWithRespond;
   payload: Payload;
+} & WithMatches;
+
+/**
+ * Request data representation for the slash command listeners registered with a command definition.
+ */
+export type SlackRequestWithCommandArgs<E extends SlackAppEnv> = SlackRequestWithRespond<E, SlashCommand> & {
+  /**
+   * The subcommand, arguments, and flags parsed from the command text.
+   */
+  args: ParsedCommandArgs;
 };
 
 /**
@@ -73,4 +139,15 @@ export type SlackRequestWithRespond<E extends SlackAppEnv, Payload> = SlackMiddl
 export type SlackRequestWithOptionalRespond<E extends SlackAppEnv, Payload> = SlackMiddlewareRequest<E> & {
   context: SlackAppContextWithOptionalRespond;
   payload: Payload;
+} & WithMatches &
+  DecodedValues;
+
+/**
+ * Request data representation for the view_submission listeners registered with a form definition.
+ */
+export type SlackRequestWithFormValues<E extends SlackAppEnv, Values> = SlackRequestWithOptionalRespond<E, ViewSubmission> & {
+  /**
+   * The values decoded from view.state.values, which passed all the validators.
+   */
+  formValues: Values;
 };
@@ -0,0 +1,643 @@
+import { EventPattern, FunctionExecutedEventCallbackIdPattern, MessageEventPattern, SlackApp, StringOrRegExp } from "./app";
+import { SlackAppEnv } from "./app-env";
+import { isSlashCommandDefinition, SlashCommandDefinition } from "./command/command-definition";
+import { FormFields, FormValues, isModalFormDefinition, ModalFormDefinition } from "./form/form-definition";
+import {
+  BlockActionAckHandler,
+  BlockActionLazyHandler,
+  BlockSuggestionAckHandler,
+  EventLazyHandler,
+  FunctionExecutedLazyHandler,
+  GlobalShortcutAckHandler,
+  GlobalShortcutLazyHandler,
+  MessageEventLazyHandler,
+  MessageShortcutAckHandler,
+  MessageShortcutLazyHandler,
+  ShortcutAckHandler,
+  ShortcutLazyHandler,
+  SlashCommandAckHandler,
+  SlashCommandLazyHandler,
+  SlashCommandWithArgsAckHandler,
+  SlashCommandWithArgsLazyHandler,
+  SourceSpecifiedBlockActionAckHandler,
+  SourceSpecifiedBlockActionLazyHandler,
+  ViewAckHandler,
+  ViewClosedAckHandler,
+  ViewClosedLazyHandler,
+  ViewLazyHandler,
+  FormSubmissionAckHandler,
+  FormSubmissionLazyHandler,
+  ViewSubmissionAckHandler,
+  ViewSubmissionLazyHandler,
+  WithMatchedGroups,
+} from "./handler/handler";
+import {
+  FunctionParameters,
+  FunctionParameterValues,
+  isSlackFunctionDefinition,
+  SlackFunctionDefinition,
+} from "./function/function-definition";
+import { ChainedSlackFunction, chainSlackFunction, SlackFunction } from "./function/slack-function";
+import { parseListenerArgs } from "./middleware/listener-args";
+import { ListenerMiddleware, ListenerOptions } from "./middleware/middleware";
+import { BlockAction, BlockElementActions, BlockElementTypes } from "./request/payload/block-action";
+import { SupportedEventType } from "./request/payload/event";
+import { MatchedGroups } from "./request/request";
+
+/**
+ * Options for mounting a router.
+ */
+export interface SlackRouterMountOptions {
+  /**
+   * The namespace prepended to the callback_id/action_id constraints of the router's listeners.
+   * For instance, with prefix "billing:", router.action("approve", ...) handles action_id "billing:approve".
+   * Slash commands, events, messages, and functions are not affected by this option.
+   */
+  prefix?: string;
+}
+
+/**
+ * The scope passed down when a router's listeners are registered to an app.
+ */
+interface MountScope {
+  prefix: string;
+  // deno-lint-ignore no-explicit-any
+  middleware: ListenerMiddleware<any>[];
+}
+
+/**
+ * The deferred registration of a listener, which is executed when the router is mounted.
+ */
+type Registration = (
+  // deno-lint-ignore no-explicit-any
+  app: SlackApp<any>,
+  scope: MountScope,
+) => void;
+
+/**
+ * The deferred registration of a function-scoped listener, which is executed when the function is registered to an app.
+ */
+type FunctionScopedRegistration = (
+  // deno-lint-ignore no-explicit-any
+  fn: SlackFunction<any>,
+  scope: MountScope,
+) => void;
+
+/**
+ * A composable set of listeners and middleware, which can be mounted into SlackApp (and other routers).
+ * This enables you to ship features as self-contained modules and compose them into different apps.
+ * The app-wide handlers that do not run listener middleware (home, unfurl, entityDetails, assistant, and appRateLimited)
+ * are available only on SlackApp.
+ *
+ * @example
+ * ```typescript
+ * const billing = new SlackRouter()
+ *   .use(requireAdmin)
+ *   .command("/invoice", async () => "Creating an invoice...")
+ *   .action("approve", async () => {});
+ * app.mount(billing, { prefix: "billing:" });
+ * ```
+ */
+export class SlackRouter<E extends SlackAppEnv = SlackAppEnv> {
+  #middleware: ListenerMiddleware<E>[] = [];
+  #registrations: Registration[] = [];
+
+  /**
+   * Registers a middleware that runs only when any of this router's listeners matches an incoming request.
+   * Note that middleware registered after mounting this router are not applied to the app.
+   * @param middleware middleware
+   * @returns this instance
+   */
+  use(middleware: ListenerMiddleware<E>): SlackRouter<E> {
+    this.#middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Registers a middleware that runs only when any of this router's listeners matches an incoming request.
+   * This naming is for consistency with SlackApp.
+   * @param middleware middleware
+   * @returns this instance
+   */
+  middleware(middleware: ListenerMiddleware<E>): SlackRouter<E> {
+    return this.use(middleware);
+  }
+
+  /**
+   * Mounts another router into this router.
+   * @param router the router to mount
+   * @param options mount options
+   * @returns this instance
+   */
+  mount(router: SlackRouter<SlackAppEnv> | SlackRouter<E>, options: SlackRouterMountOptions = {}): SlackRouter<E> {
+    this.#registrations.push((app, scope) => {
+      router.applyTo(app, options, { prefix: this.#prefix(scope, ""), middleware: this.#middlewareFor(scope, []) });
+    });
+    return this;
+  }
+
+  /**
+   * Registers all the listeners in this router to the app. SlackApp#mount() calls this method.
+   * @param app the app to register the listeners to
+   * @param options mount options
+   * @param scope the prefix and middleware inherited from the parent routers
+   */
+  applyTo(
+    // deno-lint-ignore no-explicit-any
+    app: SlackApp<any>,
+    options: SlackRouterMountOptions = {},
+    scope: MountScope = { prefix: "", middleware: [] },
+  ): void {
+    const thisScope: MountScope = { prefix: scope.prefix + (options.prefix ?? ""), middleware: scope.middleware };
+    for (const registration of this.#registrations) {
+      registration(app, thisScope);
+    }
+  }
+
+  /**
+   * Registers a listener that handles slash command executions.
+   * When a command definition is given, the command text is parsed into request.args.
+   * @param pattern the pattern to match slash command name, or the definition of the command
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  command(
+    definition: SlashCommandDefinition,
+    ack: SlashCommandWithArgsAckHandler<E>,
+    lazy?: SlashCommandWithArgsLazyHandler<E>,
+  ): SlackRouter<E>;
+  command(
+    definition: SlashCommandDefinition,
+    options: ListenerOptions<E>,
+    ack: SlashCommandWithArgsAckHandler<E>,
+    lazy?: SlashCommandWithArgsLazyHandler<E>,
+  ): SlackRouter<E>;
+  command(pattern: StringOrRegExp, ack: SlashCommandAckHandler<E>, lazy?: SlashCommandLazyHandler<E>): SlackRouter<E>;
+  command(
+    pattern: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: SlashCommandAckHandler<E>,
+    lazy?: SlashCommandLazyHandler<E>,
+  ): SlackRouter<E>;
+  command<G extends MatchedGroups>(
+    pattern: RegExp,
+    ack: WithMatchedGroups<SlashCommandAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<SlashCommandLazyHandler<E>, G>,
+  ): SlackRouter<E>;
+  command<G extends MatchedGroups>(
+    pattern: RegExp,
+    options: ListenerOptions<E>,
+    ack: WithMatchedGroups<SlashCommandAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<SlashCommandLazyHandler<E>, G>,
+  ): SlackRouter<E>;
+  command(pattern: StringOrRegExp | SlashCommandDefinition, ...args: unknown[]): SlackRouter<E> {
+    if (isSlashCommandDefinition(pattern)) {
+      const [middleware, ack, lazy] = parseListenerArgs<E, SlashCommandWithArgsAckHandler<E>, SlashCommandWithArgsLazyHandler<E>>(args);
+      this.#registrations.push((app, scope) => {
+        app.command(pattern, this.#middlewareFor(scope, middleware), ack, lazy);
+      });
+      return this;
+    }
+    const [middleware, ack, lazy] = parseListenerArgs<E, SlashCommandAckHandler<E>, SlashCommandLazyHandler<E>>(args);
+    this.#registrations.push((app, scope) => {
+      app.command(pattern, this.#middlewareFor(scope, middleware), ack, lazy);
+    });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles custom function calls within Workflow Builder.
+   * @param callbackId the pattern to match callback_id in a payload, or the definition of the function
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns the function to register the function-scoped action and view listeners, whose other methods are this router's ones
+   */
+  function<I extends FunctionParameters, O extends FunctionParameters>(
+    definition: SlackFunctionDefinition<I, O>,
+    lazy: FunctionExecutedLazyHandler<E, FunctionParameterValues<I>, FunctionParameterValues<O>>,
+  ): ChainedSlackFunction<E, SlackRouter<E>>;
+  function<I extends FunctionParameters, O extends FunctionParameters>(
+    definition: SlackFunctionDefinition<I, O>,
+    options: ListenerOptions<E>,
+    lazy: FunctionExecutedLazyHandler<E, FunctionParameterValues<I>, FunctionParameterValues<O>>,
+  ): ChainedSlackFunction<E, SlackRouter<E>>;
+  function(
+    callbackId: FunctionExecutedEventCallbackIdPattern,
+    lazy: FunctionExecutedLazyHandler<E>,
+  ): ChainedSlackFunction<E, SlackRouter<E>>;
+  function(
+    callbackId: FunctionExecutedEventCallbackIdPattern,
+    options: ListenerOptions<E>,
+    lazy: FunctionExecutedLazyHandler<E>,
+  ): ChainedSlackFunction<E, SlackRouter<E>>;
+  function<G extends MatchedGroups>(
+    callbackId: RegExp,
+    lazy: WithMatchedGroups<FunctionExecutedLazyHandler<E>, G>,
+  ): ChainedSlackFunction<E, SlackRouter<E>>;
+  function<G extends MatchedGroups>(
+    callbackId: RegExp,
+    options: ListenerOptions<E>,
+    lazy: WithMatchedGroups<FunctionExecutedLazyHandler<E>, G>,
+  ): ChainedSlackFunction<E, SlackRouter<E>>;
+  function(
+    callbackId: FunctionExecutedEventCallbackIdPattern | SlackFunctionDefinition,
+    ...args: unknown[]
+  ): ChainedSlackFunction<E, SlackRouter<E>> {
+    const [middleware, lazy] = parseListenerArgs<E, FunctionExecutedLazyHandler<E>>(args);
+    const scopedRegistrations: FunctionScopedRegistration[] = [];
+    this.#registrations.push((app, scope) => {
+      // app.function() handles both patterns and definitions
+      const fn = app.function(callbackId as FunctionExecutedEventCallbackIdPattern, this.#middlewareFor(scope, middleware), lazy);
+      for (const registration of scopedRegistrations) {
+        registration(fn, scope);
+      }
+    });
+    const pattern = isSlackFunctionDefinition(callbackId) ? callbackId.callback_id : callbackId;
+    const fn = new SlackFunction<E>(pattern, {
+      action: (constraints, { ack, lazy, middleware }) => {
+        scopedRegistrations.push((fn, scope) => {
+          const prefixed =
+            typeof constraints === "string" || constraints instanceof RegExp
+              ? this.#prefix(scope, constraints)
+              : { ...constraints, type: constraints.type as BlockElementTypes, action_id: this.#prefix(scope, constraints.action_id) };
+          fn.action(prefixed, this.#middlewareFor(scope, middleware), ack, lazy);
+        });
+      },
+      viewSubmission: (viewCallbackId, { ack, lazy, middleware }) => {
+        scopedRegistrations.push((fn, scope) => {
+          fn.viewSubmission(this.#prefix(scope, viewCallbackId), this.#middlewareFor(scope, middleware), ack, lazy);
+        });
+      },
+      viewClosed: (viewCallbackId, { ack, lazy, middleware }) => {
+        scopedRegistrations.push((fn, scope) => {
+          fn.viewClosed(this.#prefix(scope, viewCallbackId), this.#middlewareFor(scope, middleware), ack, lazy);
+        });
+      },
+    });
+    return chainSlackFunction(fn, this as SlackRouter<E>);
+  }
+
+  /**
+   * Registers a listener that handles Events API request.
+   * @param event the event type(s) to handle, or the constraints object including the type(s) and a filter function
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  event<Type extends SupportedEventType>(event: EventPattern<Type>, lazy: EventLazyHandler<Type, E>): SlackRouter<E>;
+  event<Type extends SupportedEventType>(
+    event: EventPattern<Type>,
+    options: ListenerOptions<E>,
+    lazy: EventLazyHandler<Type, E>,
+  ): SlackRouter<E>;
+  event<Type extends SupportedEventType>(event: EventPattern<Type>, ...args: unknown[]): SlackRouter<E> {
+    const [middleware, lazy] = parseListenerArgs<E, EventLazyHandler<Type, E>>(args);
+    this.#registrations.push((app, scope) => {
+      app.event(event, this.#middlewareFor(scope, middleware), lazy);
+    });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles all newly posted message events.
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  anyMessage(lazy: MessageEventLazyHandler<E>): SlackRouter<E>;
+  anyMessage(options: ListenerOptions<E>, lazy: MessageEventLazyHandler<E>): SlackRouter<E>;
+  anyMessage(...args: unknown[]): SlackRouter<E> {
+    const [middleware, lazy] = parseListenerArgs<E, MessageEventLazyHandler<E>>(args);
+    return this.message(undefined, middleware, lazy);
+  }
+
+  /**
+   * Registers a listener that handles newly posted message events that matches the pattern.
+   * @param pattern the pattern to match a message event's text, or the constraints object
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  message(pattern: MessageEventPattern, lazy: MessageEventLazyHandler<E>): SlackRouter<E>;
+  message(pattern: MessageEventPattern, options: ListenerOptions<E>, lazy: MessageEventLazyHandler<E>): SlackRouter<E>;
+  message<G extends MatchedGroups>(pattern: RegExp, lazy: WithMatchedGroups<MessageEventLazyHandler<E>, G>): SlackRouter<E>;
+  message<G extends MatchedGroups>(
+    pattern: RegExp,
+    options: ListenerOptions<E>,
+    lazy: WithMatchedGroups<MessageEventLazyHandler<E>, G>,
+  ): SlackRouter<E>;
+  message(pattern: MessageEventPattern, ...args: unknown[]): SlackRouter<E> {
+    const [middleware, lazy] = parseListenerArgs<E, MessageEventLazyHandler<E>>(args);
+    this.#registrations.push((app, scope) => {
+      app.message(pattern, this.#middlewareFor(scope, middleware), lazy);
+    });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles global/message shortcut executions.
+   * @param callbackId the pattern to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  shortcut(callbackId: StringOrRegExp, ack: ShortcutAckHandler<E>, lazy?: ShortcutLazyHandler<E>): SlackRouter<E>;
+  shortcut(
+    callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: ShortcutAckHandler<E>,
+    lazy?: ShortcutLazyHandler<E>,
+  ): SlackRouter<E>;
+  shortcut<G extends MatchedGroups>(
+    callbackId: RegExp,
+    ack: WithMatchedGroups<ShortcutAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<ShortcutLazyHandler<E>, G>,
+  ): SlackRouter<E>;
+  shortcut<G extends MatchedGroups>(
+    callbackId: RegExp,
+    options: ListenerOptions<E>,
+    ack: WithMatchedGroups<ShortcutAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<ShortcutLazyHandler<E>, G>,
+  ): SlackRouter<E>;
+  shortcut(callbackId: StringOrRegExp, ...args: unknown[]): SlackRouter<E> {
+    const [middleware, ack, lazy] = parseListenerArgs<E, ShortcutAckHandler<E>, ShortcutLazyHandler<E>>(args);
+    this.#registrations.push((app, scope) => {
+      app.shortcut(this.#prefix(scope, callbackId), this.#middlewareFor(scope, middleware), ack, lazy);
+    });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles global shortcut executions.
+   * @param callbackId the pattern to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  globalShortcut(callbackId: StringOrRegExp, ack: GlobalShortcutAckHandler<E>, lazy?: GlobalShortcutLazyHandler<E>): SlackRouter<E>;
+  globalShortcut(
+    callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: GlobalShortcutAckHandler<E>,
+    lazy?: GlobalShortcutLazyHandler<E>,
+  ): SlackRouter<E>;
+  globalShortcut(callbackId: StringOrRegExp, ...args: unknown[]): SlackRouter<E> {
+    const [middleware, ack, lazy] = parseListenerArgs<E, GlobalShortcutAckHandler<E>, GlobalShortcutLazyHandler<E>>(args);
+    this.#registrations.push((app, scope) => {
+      app.globalShortcut(this.#prefix(scope, callbackId), this.#middlewareFor(scope, middleware), ack, lazy);
+    });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles message shortcut executions.
+   * @param callbackId the pattern to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  messageShortcut(callbackId: StringOrRegExp, ack: MessageShortcutAckHandler<E>, lazy?: MessageShortcutLazyHandler<E>): SlackRouter<E>;
+  messageShortcut(
+    callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: MessageShortcutAckHandler<E>,
+    lazy?: MessageShortcutLazyHandler<E>,
+  ): SlackRouter<E>;
+  messageShortcut(callbackId: StringOrRegExp, ...args: unknown[]): SlackRouter<E> {
+    const [middleware, ack, lazy] = parseListenerArgs<E, MessageShortcutAckHandler<E>, MessageShortcutLazyHandler<E>>(args);
+    this.#registrations.push((app, scope) => {
+      app.messageShortcut(this.#prefix(scope, callbackId), this.#middlewareFor(scope, middleware), ack, lazy);
+    });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles type: "block_actions" requests.
+   * @param constraints the constraints to match block_id/action_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  action<
+    T extends BlockElementTypes,
+    A extends BlockAction<Extract<BlockElementActions, { type: T }>> = BlockAction<Extract<BlockElementActions, { type: T }>>,
+  >(
+    constraints: StringOrRegExp | { type: T; block_id?: string; action_id: string },
+    ack: BlockActionAckHandler<T, E, A> | SourceSpecifiedBlockActionAckHandler<E, A>,
+    lazy?: BlockActionLazyHandler<T, E, A> | SourceSpecifiedBlockActionLazyHandler<E, A>,
+  ): SlackRouter<E>;
+  action<
+    T extends BlockElementTypes,
+    A extends BlockAction<Extract<BlockElementActions, { type: T }>> = BlockAction<Extract<BlockElementActions, { type: T }>>,
+  >(
+    constraints: StringOrRegExp | { type: T; block_id?: string; action_id: string },
+    options: ListenerOptions<E>,
+    ack: BlockActionAckHandler<T, E, A> | SourceSpecifiedBlockActionAckHandler<E, A>,
+    lazy?: BlockActionLazyHandler<T, E, A> | SourceSpecifiedBlockActionLazyHandler<E, A>,
+  ): SlackRouter<E>;
+  action<G extends MatchedGroups>(
+    actionId: RegExp,
+    ack: WithMatchedGroups<SourceSpecifiedBlockActionAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<SourceSpecifiedBlockActionLazyHandler<E>, G>,
+  ): SlackRouter<E>;
+  action<G extends MatchedGroups>(
+    actionId: RegExp,
+    options: ListenerOptions<E>,
+    ack: WithMatchedGroups<SourceSpecifiedBlockActionAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<SourceSpecifiedBlockActionLazyHandler<E>, G>,
+  ): SlackRouter<E>;
+  action<
+    T extends BlockElementTypes,
+    A extends BlockAction<Extract<BlockElementActions, { type: T }>> = BlockAction<Extract<BlockElementActions, { type: T }>>,
+  >(constraints: StringOrRegExp | { type: T; block_id?: string; action_id: string }, ...args: unknown[]): SlackRouter<E> {
+    const [middleware, ack, lazy] = parseListenerArgs<
+      E,
+      BlockActionAckHandler<T, E, A> | SourceSpecifiedBlockActionAckHandler<E, A>,
+      BlockActionLazyHandler<T, E, A> | SourceSpecifiedBlockActionLazyHandler<E, A>
+    >(args);
+    this.#registrations.push((app, scope) => {
+      const prefixed =
+        typeof constraints === "string" || constraints instanceof RegExp
+          ? this.#prefix(scope, constraints)
+          : { ...constraints, action_id: this.#prefix(scope, constraints.action_id) };
+      app.action<T, A>(prefixed, this.#middlewareFor(scope, middleware), ack, lazy);
+    });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles type: "block_suggestion" requests.
+   * @param constraints the constraints to match block_id/action_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @returns this instance
+   */
+  options(constraints: StringOrRegExp | { block_id?: string; action_id: string }, ack: BlockSuggestionAckHandler<E>): SlackRouter<E>;
+  options(
+    constraints: StringOrRegExp | { block_id?: string; action_id: string },
+    options: ListenerOptions<E>,
+    ack: BlockSuggestionAckHandler<E>,
+  ): SlackRouter<E>;
+  options(constraints: StringOrRegExp | { block_id?: string; action_id: string }, ...args: unknown[]): SlackRouter<E> {
+    const [middleware, ack] = parseListenerArgs<E, BlockSuggestionAckHandler<E>>(args);
+    this.#registrations.push((app, scope) => {
+      const prefixed =
+        typeof constraints === "string" || constraints instanceof RegExp
+          ? this.#prefix(scope, constraints)
+          : { ...constraints, action_id: this.#prefix(scope, constraints.action_id) };
+      app.options(prefixed, this.#middlewareFor(scope, middleware), ack);
+    });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles type: "view_submission"/"view_closed" requests.
+   * @param callbackId the constraints to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  view(callbackId: StringOrRegExp, ack: ViewAckHandler<E>, lazy?: ViewLazyHandler<E>): SlackRouter<E>;
+  view(callbackId: StringOrRegExp, options: ListenerOptions<E>, ack: ViewAckHandler<E>, lazy?: ViewLazyHandler<E>): SlackRouter<E>;
+  view<G extends MatchedGroups>(
+    callbackId: RegExp,
+    ack: WithMatchedGroups<ViewAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<ViewLazyHandler<E>, G>,
+  ): SlackRouter<E>;
+  view<G extends MatchedGroups>(
+    callbackId: RegExp,
+    options: ListenerOptions<E>,
+    ack: WithMatchedGroups<ViewAckHandler<E>, G>,
+    lazy?: WithMatchedGroups<ViewLazyHandler<E>, G>,
+  ): SlackRouter<E>;
+  view(callbackId: StringOrRegExp, ...args: unknown[]): SlackRouter<E> {
+    const [middleware, ack, lazy] = parseListenerArgs<E, ViewAckHandler<E>, ViewLazyHandler<E>>(args);
+    this.#registrations.push((app, scope) => {
+      app.view(this.#prefix(scope, callbackId), this.#middlewareFor(scope, middleware), ack, lazy);
+    });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles type: "view_submission" requests.
+   * When a form definition is given, view.state.values is decoded into request.formValues.
+   * @param callbackId the constraints to match callback_id in a payload, or the definition of the form
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  viewSubmission<F extends FormFields>(
+    form: ModalFormDefinition<F>,
+    ack: FormSubmissionAckHandler<E, FormValues<F>>,
+    lazy?: FormSubmissionLazyHandler<E, FormValues<F>>,
+  ): SlackRouter<E>;
+  viewSubmission<F extends FormFields>(
+    form: ModalFormDefinition<F>,
+    options: ListenerOptions<E>,
+    ack: FormSubmissionAckHandler<E, FormValues<F>>,
+    lazy?: FormSubmissionLazyHandler<E, FormValues<F>>,
+  ): SlackRouter<E>;
+  viewSubmission(callbackId: StringOrRegExp, ack: ViewSubmissionAckHandler<E>, lazy?: ViewSubmissionLazyHandler<E>): SlackRouter<E>;
+  viewSubmission(
+    callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: ViewSubmissionAckHandler<E>,
+    lazy?: ViewSubmissionLazyHandler<E>,
+  ): SlackRouter<E>;
+  viewSubmission(callbackId: StringOrRegExp | ModalFormDefinition, ...args: unknown[]): SlackRouter<E> {
+    if (isModalFormDefinition(callbackId)) {
+      const [middleware, ack, lazy] = parseListenerArgs<E, FormSubmissionAckHandler<E>, FormSubmissionLazyHandler<E>>(args);
+      this.#registrations.push((app, scope) => {
+        const form = { ...callbackId, callback_id: this.#prefix(scope, callbackId.callback_id) };
+        app.viewSubmission(form, this.#middlewareFor(scope, middleware), ack, lazy);
+      });
+      return this;
+    }
+    const [middleware, ack, lazy] = parseListenerArgs<E, ViewSubmissionAckHandler<E>, ViewSubmissionLazyHandler<E>>(args);
+    this.#registrations.push((app, scope) => {
+      app.viewSubmission(this.#prefix(scope, callbackId), this.#middlewareFor(scope, middleware), ack, lazy);
+    });
+    return this;
+  }
+
+  /**
+   * Registers a listener that handles type: "view_closed" requests.
+   * @param callbackId the constraints to match callback_id in a payload
+   * @param options listener middleware that run only when this listener matches (optional)
+   * @param ack ack function that must complete within 3 seconds
+   * @param lazy lazy function that can do anything asynchronously
+   * @returns this instance
+   */
+  viewClosed(callbackId: StringOrRegExp, ack: ViewClosedAckHandler<E>, lazy?: ViewClosedLazyHandler<E>): SlackRouter<E>;
+  viewClosed(
+    callbackId: StringOrRegExp,
+    options: ListenerOptions<E>,
+    ack: ViewClosedAckHandler<E>,
+    lazy?: ViewClosedLazyHandler<E>,
+  ): SlackRouter<E>;
+  viewClosed(callbackId: StringOrRegExp, ...args: unknown[]): SlackRouter<E> {
+    const [middleware, ack, lazy] = parseListenerArgs<E, ViewClosedAckHandler<E>, ViewClosedLazyHandler<E>>(args);
+    this.#registrations.push((app, scope) => {
+      app.viewClosed(this.#prefix(scope, callbackId), this.#middlewareFor(scope, middleware), ack, lazy);
+    });
+    return this;
+  }
+
+  #middlewareFor(scope: MountScope, listenerMiddleware: ListenerMiddleware<E>[]): ListenerMiddleware<E>[] {
+    return [...scope.middleware, ...this.#middleware, ...listenerMiddleware];
+  }
+
+  #prefix<P extends StringOrRegExp>(scope: MountScope, pattern: P): P {
+    return prefixPattern(scope.prefix, pattern) as P;
+  }
+}
+
+/**
+ * Prepends the namespace prefix to a callback_id/action_id pattern.
+ * A regular expression is matched against the rest of the value after the prefix,
+ * so that its alternations and anchors work as they do without the prefix.
+ * @param prefix namespace prefix
+ * @param pattern string or regular expression pattern
+ * @returns the prefixed pattern
+ */
+export function prefixPattern(prefix: string, pattern: StringOrRegExp): StringOrRegExp {
+  if (!prefix) {
+    return pattern;
+  }
+  if (typeof pattern === "string") {
+    return prefix + pattern;
+  }
+  return new PrefixedRegExp(prefix, pattern);
+}
+
+/**
+ * The regular expression that matches the namespace prefix separately from the original pattern.
+ * String.prototype.match() and RegExp.prototype.test() both call exec(), which this class overrides.
+ */
+class PrefixedRegExp extends RegExp {
+  #prefix: RegExp;
+
+  // The built-in methods such as String.prototype.split() must not create a new PrefixedRegExp
+  static override get [Symbol.species](): RegExpConstructor {
+    return RegExp;
+  }
+
+  constructor(prefix: string, pattern: RegExp) {
+    super(pattern.source, pattern.flags);
+    const escapedPrefix = prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    this.#prefix = new RegExp(`^${escapedPrefix}`, pattern.ignoreCase ? "i" : "");
+  }
+
+  override exec(value: string): RegExpExecArray | null {
+    const matched = this.#prefix.exec(value);
+    return matched ? super.exec(value.substring(matched[0].length)) : null;
+  }
+}
@@ -0,0 +1,154 @@
+import { AnyMessageBlock, EntityMetadata, LinkUnfurls, MessageAttachment } from "slack-web-api-client";
+import { EventRequest } from "../app";
+import { SlackAppEnv } from "../app-env";
+import { isEntityMetadata } from "../work-object/entity-metadata";
+
+/**
+ * The pattern to match shared links.
+ * A string matches the link's domain (including its subdomains), and a RegExp matches the whole URL.
+ */
+export type UnfurlPattern = string | RegExp;
+
+/**
+ * The result of an unfurl handler that asks the user to connect their account before unfurling the link.
+ */
+export interface UnfurlUserAuthRequired {
+  user_auth_required: true;
+  user_auth_url?: string;
+  user_auth_message?: string;
+  user_auth_blocks?: AnyMessageBlock[];
+}
+
+/**
+ * The result of an unfurl handler: an attachment (which can have blocks) or a Work Object entity to unfurl the link,
+ * the user authentication request, or nothing to leave the link as-is.
+ */
+export type UnfurlResult = MessageAttachment | EntityMetadata | UnfurlUserAuthRequired | undefined | void;
+
+/**
+ * Request data representation for unfurl handlers.
+ */
+export type UnfurlRequest<E extends SlackAppEnv> = EventRequest<E, "link_shared"> & {
+  /**
+   * The link to unfurl.
+   */
+  link: { domain: string; url: string };
+  /**
+   * The result of matching the handler's regular expression pattern against the URL.
+   * This is available only when the handler is registered with a RegExp pattern.
+   */
+  matches?: RegExpMatchArray;
+};
+
+/**
+ * The function that builds the unfurl for a shared link.
+ */
+export type UnfurlHandler<E extends SlackAppEnv = SlackAppEnv> = (req: UnfurlRequest<E>) => Promise<UnfurlResult>;
+
+/**
+ * A registered pair of the pattern and its handler.
+ */
+export interface UnfurlListener<E extends SlackAppEnv> {
+  pattern: UnfurlPattern;
+  handler: UnfurlHandler<E>;
+}
+
+/**
+ * Determines if the link matches the pattern.
+ * @param pattern the domain or the URL pattern
+ * @param link the link in a link_shared event
+ * @returns the RegExp match result, true for a domain match, or null
+ */
+export function matchUnfurlPattern(pattern: UnfurlPattern, link: { domain: string; url: string }): RegExpMatchArray | true | null {
+  if (typeof pattern === "string") {
+    return link.domain === pattern || link.domain.endsWith(`.${pattern}`) ? true : null;
+  }
+  return link.url.match(pattern);
+}
+
+/**
+ * Runs the handlers for the links in a link_shared event and calls chat.unfurl API for each handler.
+ * An exception thrown by one handler or one API call does not prevent the other links from being unfurled.
+ * Each exception is passed to onError if given; otherwise, the first exception is rethrown after all the API calls.
+ * If onError throws, the remaining exceptions are still passed to it and the first error it threw is rethrown.
+ * @param request the link_shared event request
+ * @param listeners the registered unfurl handlers; the first matching one handles each link
+ * @param onError the function that reports each exception (optional)
+ */
+export async function unfurlLinks<E extends SlackAppEnv>(
+  request: EventRequest<E, "link_shared">,
+  listeners: UnfurlListener<E>[],
+  onError?: (error: Error) => Promise<void>,
+): Promise<void> {
+  const event = request.payload;
+  const groups: Map<UnfurlListener<E>, { link: { domain: string; url: string }; matches?: RegExpMatchArray }[]> = new Map();
+  for (const link of event.links) {
+    for (const listener of listeners) {
+      const matched = matchUnfurlPattern(listener.pattern, link);
+      if (matched) {
+        const links = groups.get(listener) ?? [];
+        links.push(matched === true ? { link } : { link, matches: matched });
+        groups.set(listener, links);
+        break;
+      }
+    }
+  }
+  // Ephemeral messages in the message composer have unfurl_id and source instead of ts
+  const target =
+    event.unfurl_id && event.source
+      ? { unfurl_id: event.unfurl_id, source: event.source }
+      : { channel: event.channel, ts: event.message_ts };
+
+  const errors: unknown[] = [];
+  await Promise.all(
+    Array.from(groups.entries()).map(async ([listener, links]) => {
+      const results = await Promise.allSettled(links.map((l) => listener.handler({ ...request, ...l })));
+      const unfurls: LinkUnfurls = {};
+      const entities: EntityMetadata[] = [];
+      let userAuth: UnfurlUserAuthRequired | undefined = undefined;
+      for (const [i, result] of results.entries()) {
+        if (result.status === "rejected") {
+          errors.push(result.reason);
+        } else if (isEntityMetadata(result.value)) {
+          entities.push(result.value);
+        } else if (result.value && "user_auth_required" in result.value) {
+          userAuth ??= result.value;
+        } else if (result.value) {
+          unfurls[links[i].link.url] = result.value;
+        }
+      }
+      // chat.unfurl API does not accept both unfurls and metadata in a single call
+      const calls: Promise<unknown>[] = [];
+      if (Object.keys(unfurls).length > 0) {
+        calls.push(request.context.client.chat.unfurl({ ...target, unfurls }));
+      }
+      if (entities.length > 0) {
+        calls.push(request.context.client.chat.unfurl({ ...target, metadata: { entities } }));
+      }
+      if (userAuth) {
+        calls.push(request.context.client.chat.unfurl({ ...target, ...userAuth }));
+      }
+      for (const result of await Promise.allSettled(calls)) {
+        if (result.status === "rejected") {
+          errors.push(result.reason);
+        }
+      }
+    }),
+  );
+  if (onError) {
+    // Report every failure even when the error handler throws for one of them
+    const handlerErrors: unknown[] = [];
+    for (const error of errors) {
+      try {
+        await onError(error as Error);
+      } catch (e) {
+        handlerErrors.push(e);
+      }
+    }
+    if (handlerErrors.length > 0) {
+      throw handlerErrors[0];
+    }
+  } else if (errors.length > 0) {
+    throw errors[0];
+  }
+}
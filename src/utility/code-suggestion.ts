@@ -0,0 +1,73 @@
+import { PayloadType } from "../request/payload-types";
+
+/**
+ * Builds a code snippet that registers a listener for an unhandled request.
+ * The snippet is printed along with the debug logs to help developers add the missing listener.
+ * @param body request body
+ * @returns code snippet if the request pattern is supported
+ */
+// deno-lint-ignore no-explicit-any
+export function buildCodeSuggestion(body: Record<string, any>): string | undefined {
+  if (!body.type && body.command) {
+    return `app.command(${JSON.stringify(body.command)}, async (req) => {
+  return "Got it!";
+});`;
+  }
+  switch (body.type) {
+    case PayloadType.EventsAPI: {
+      const event = body.event;
+      if (!event) {
+        return undefined;
+      }
+      if (event.type === "function_executed") {
+        return `app.function(${JSON.stringify(event.function?.callback_id)}, async ({ payload, context }) => {
+});`;
+      }
+      if (event.type === "message" && !event.subtype) {
+        return `app.anyMessage(async ({ payload }) => {
+});`;
+      }
+      return `app.event(${JSON.stringify(event.type)}, async ({ payload }) => {
+});`;
+    }
+    case PayloadType.GlobalShortcut:
+      return `app.globalShortcut(${JSON.stringify(body.callback_id)}, async (req) => {
+});`;
+    case PayloadType.MessageShortcut:
+      return `app.messageShortcut(${JSON.stringify(body.callback_id)}, async (req) => {
+});`;
+    case PayloadType.BlockAction: {
+      const action = body.actions?.[0];
+      if (!action) {
+        return undefined;
+      }
+      const constraints = toObjectLiteral({ type: action.type, action_id: action.action_id, block_id: action.block_id });
+      return `app.action(${constraints}, async (req) => {
+});`;
+    }
+    case PayloadType.BlockSuggestion: {
+      const constraints = toObjectLiteral({ action_id: body.action_id, block_id: body.block_id });
+      return `app.options(${constraints}, async (req) => {
+  return { options: [] };
+});`;
+    }
+    case PayloadType.ViewSubmission:
+      return `app.viewSubmission(${JSON.stringify(body.view?.callback_id)}, async (req) => {
+});`;
+    case PayloadType.ViewClosed:
+      return `app.viewClosed(${JSON.stringify(body.view?.callback_id)}, async (req) => {
+});`;
+    case PayloadType.AppRateLimited:
+      return `app.appRateLimited(async (req) => {
+});`;
+    default:
+      return undefined;
+  }
+}
+
+function toObjectLiteral(values: Record<string, string | undefined>): string {
+  const properties = Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `{ ${properties.join(", ")} }`;
+}
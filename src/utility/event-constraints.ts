@@ -0,0 +1,125 @@
+import { MessageEventSubtypes, StringOrRegExp } from "../app";
+import { AnyChannelType, AnySlackEvent, SupportedEventType } from "../request/payload/event";
+import { isPostedMessageEvent } from "./message-events";
+
+/**
+ * The constraints for newly posted message events. All the specified conditions must be satisfied.
+ */
+export interface MessageEventConstraints {
+  /**
+   * The pattern to match a message's text. A string matches when the text includes it.
+   */
+  text?: StringOrRegExp;
+  /**
+   * The type(s) of the conversation where the message is posted.
+   */
+  channelType?: AnyChannelType | AnyChannelType[];
+  /**
+   * The subtype(s) of the message. Pass [undefined] to accept only the messages without subtype.
+   */
+  subtype?: MessageEventSubtypes | MessageEventSubtypes[];
+  /**
+   * When this is true, only replies in a thread match.
+   */
+  threadOnly?: boolean;
+  /**
+   * When this is true, only messages posted by users match. When this is false, only messages posted by bots match.
+   */
+  fromUser?: boolean;
+  /**
+   * The arbitrary predicate function over the message event.
+   */
+  filter?: (event: Extract<AnySlackEvent, { type: "message"; subtype: MessageEventSubtypes }>) => boolean;
+}
+
+/**
+ * The constraints for Events API listeners.
+ */
+export interface EventConstraints<Type extends SupportedEventType> {
+  /**
+   * The event type(s) to handle.
+   */
+  type: Type | Type[];
+  /**
+   * The arbitrary predicate function over the event.
+   */
+  filter?: (event: Extract<AnySlackEvent, { type: Type }>) => boolean;
+}
+
+/**
+ * Determines if a newly posted message event satisfies the constraints.
+ * @param event message event
+ * @param constraints the text pattern or constraints object
+ * @returns the result with regular expression matches if matched; otherwise null
+ */
+export function matchMessageEvent(
+  event: { type: string; subtype?: string },
+  constraints: StringOrRegExp | MessageEventConstraints | undefined,
+): { matches?: RegExpMatchArray } | null {
+  if (!isPostedMessageEvent(event)) {
+    return null;
+  }
+  const c: MessageEventConstraints =
+    typeof constraints === "string" || constraints instanceof RegExp ? { text: constraints } : (constraints ?? {});
+  if (c.channelType !== undefined && !toArray(c.channelType).includes(event.channel_type)) {
+    return null;
+  }
+  if (c.subtype !== undefined && !toArray(c.subtype).includes(event.subtype)) {
+    return null;
+  }
+  if (c.threadOnly && (event.thread_ts === undefined || event.thread_ts === event.ts)) {
+    return null;
+  }
+  if (c.fromUser !== undefined) {
+    const postedByBot = event.subtype === "bot_message" || ("bot_id" in event && event.bot_id !== undefined);
+    if (c.fromUser === postedByBot) {
+      return null;
+    }
+  }
+  if (c.filter && !c.filter(event)) {
+    return null;
+  }
+  if (typeof c.text === "string") {
+    return event.text?.includes(c.text) ? {} : null;
+  }
+  if (c.text instanceof RegExp) {
+    const matches = event.text?.match(c.text);
+    return matches ? { matches } : null;
+  }
+  return {};
+}
+
+/**
+ * Returns the event types in the constraints.
+ * @param constraints event type(s) or constraints object
+ * @returns event types
+ */
+export function toEventTypes<Type extends SupportedEventType>(constraints: Type | Type[] | EventConstraints<Type>): Type[] {
+  if (typeof constraints === "string" || Array.isArray(constraints)) {
+    return toArray(constraints);
+  }
+  return toArray(constraints.type);
+}
+
+/**
+ * Determines if an event satisfies the constraints.
+ * @param event event
+ * @param constraints event type(s) or constraints object
+ * @returns true if matched
+ */
+export function matchEvent<Type extends SupportedEventType>(
+  event: { type: string },
+  constraints: Type | Type[] | EventConstraints<Type>,
+): boolean {
+  if (!(toEventTypes(constraints) as string[]).includes(event.type)) {
+    return false;
+  }
+  if (typeof constraints === "object" && !Array.isArray(constraints) && constraints.filter) {
+    return constraints.filter(event as Extract<AnySlackEvent, { type: Type }>);
+  }
+  return true;
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
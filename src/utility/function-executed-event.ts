@@ -1,3 +1,4 @@
+import { SlackFunctionDefinition } from "../function/function-definition";
 import { FunctionExecutedEvent } from "../request/payload/event";
 
 /**
@@ -24,3 +25,27 @@ import { FunctionExecutedEvent } from "../request/payload/event";
 export const isFunctionExecutedEvent = (event: { type: string }): event is FunctionExecutedEvent => {
   return event.type === "function_executed";
 };
+
+/**
+ * Matches a custom function's callback_id against the pattern that app.function() accepts.
+ * A string pattern matches when the callback_id includes it, a function definition matches its exact callback_id,
+ * and no pattern matches any function.
+ * @param callbackId the callback_id of the function in a payload
+ * @param pattern the pattern or the function definition given to app.function()
+ * @returns the match result for a RegExp pattern, true for the other matches, or null if it does not match
+ */
+export function matchFunctionCallbackId(
+  callbackId: string,
+  pattern: string | RegExp | SlackFunctionDefinition | undefined,
+): RegExpMatchArray | true | null {
+  if (pattern === undefined) {
+    return true;
+  }
+  if (typeof pattern === "string") {
+    return callbackId.includes(pattern) ? true : null;
+  }
+  if (pattern instanceof RegExp) {
+    return callbackId.match(pattern);
+  }
+  return callbackId === pattern.callback_id ? true : null;
+}
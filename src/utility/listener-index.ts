@@ -0,0 +1,99 @@
+import { SlackRequestBody } from "../request/request-body";
+
+/**
+ * A function that returns the handler if the request body matches its constraints.
+ */
+export type ListenerMatcher<H> = (body: SlackRequestBody) => H | null;
+
+interface IndexedMatcher<H> {
+  sequence: number;
+  matcher: ListenerMatcher<H>;
+}
+
+/**
+ * The registry of listener matchers, which indexes them by an exact-match key
+ * (e.g., command name, action_id, callback_id, and event type).
+ * Matchers without a key (e.g., regular expression patterns) are stored in the fallback list.
+ * Lookups only evaluate the matchers with the same key and the fallback ones, in the registration order.
+ */
+export class ListenerIndex<H> {
+  #sequence = 0;
+  #exactMatchers: Map<string, IndexedMatcher<H>[]> = new Map();
+  #fallbackMatchers: IndexedMatcher<H>[] = [];
+
+  /**
+   * Registers a matcher.
+   * @param key the exact-match key(s), or undefined when the matcher needs to be evaluated for any request
+   * @param matcher matcher function
+   */
+  add(key: string | string[] | undefined, matcher: ListenerMatcher<H>): void {
+    const entry = { sequence: this.#sequence++, matcher };
+    if (key === undefined) {
+      this.#fallbackMatchers.push(entry);
+      return;
+    }
+    for (const k of Array.isArray(key) ? key : [key]) {
+      const matchers = this.#exactMatchers.get(k);
+      if (matchers) {
+        matchers.push(entry);
+      } else {
+        this.#exactMatchers.set(k, [entry]);
+      }
+    }
+  }
+
+  /**
+   * Returns the handler of the first registered matcher that matches the request.
+   * @param key the key extracted from the request
+   * @param body request body
+   * @returns the handler if found
+   */
+  find(key: string | undefined, body: SlackRequestBody): H | null {
+    for (const { matcher } of this.#candidates(key)) {
+      const handler = matcher(body);
+      if (handler) {
+        return handler;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns the handlers of all the matchers that match the request in the registration order.
+   * @param key the key extracted from the request
+   * @param body request body
+   * @returns the matched handlers
+   */
+  findAll(key: string | undefined, body: SlackRequestBody): H[] {
+    const handlers: H[] = [];
+    for (const { matcher } of this.#candidates(key)) {
+      const handler = matcher(body);
+      if (handler) {
+        handlers.push(handler);
+      }
+    }
+    return handlers;
+  }
+
+  #candidates(key: string | undefined): IndexedMatcher<H>[] {
+    const exact = key === undefined ? undefined : this.#exactMatchers.get(key);
+    if (!exact) {
+      return this.#fallbackMatchers;
+    }
+    if (this.#fallbackMatchers.length === 0) {
+      return exact;
+    }
+    // Merge the two lists, which are already sorted, to preserve the registration order
+    const merged: IndexedMatcher<H>[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < exact.length || j < this.#fallbackMatchers.length) {
+      if (j >= this.#fallbackMatchers.length || (i < exact.length && exact[i].sequence < this.#fallbackMatchers[j].sequence)) {
+        merged.push(exact[i++]);
+      } else {
+        merged.push(this.#fallbackMatchers[j++]);
+      }
+    }
+    return merged;
+  }
+}
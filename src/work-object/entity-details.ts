@@ -0,0 +1,126 @@
+import { EntityMetadata, EntityPresentDetailsRequest } from "slack-web-api-client";
+import { EventRequest } from "../app";
+import { SlackAppEnv } from "../app-env";
+import { EntityDetailsRequestedEvent } from "../request/payload/event";
+
+/**
+ * The pattern to match entity_details_requested events.
+ * A string matches external_ref.type, and a RegExp matches link.url.
+ */
+export type EntityDetailsPattern = string | RegExp;
+
+/**
+ * The result of an entity details handler that asks the user to connect their account before showing the details.
+ */
+export interface EntityDetailsUserAuthRequired {
+  user_auth_required: true;
+  user_auth_url?: string;
+}
+
+/**
+ * The result of an entity details handler: the entity to show in the flexpane,
+ * the user authentication request, or nothing to skip responding.
+ */
+export type EntityDetailsResult = EntityMetadata | EntityDetailsUserAuthRequired | undefined | void;
+
+/**
+ * Request data representation for entity details handlers.
+ */
+export type EntityDetailsRequest<E extends SlackAppEnv> = EventRequest<E, "entity_details_requested"> & {
+  /**
+   * The trigger_id required for entity.presentDetails API.
+   */
+  triggerId: string;
+  /**
+   * The locale of the user who opened the flexpane (e.g., "en-US").
+   */
+  userLocale: string;
+  /**
+   * The result of matching the handler's regular expression pattern against link.url.
+   * This is available only when the handler is registered with a RegExp pattern.
+   */
+  matches?: RegExpMatchArray;
+};
+
+/**
+ * The function that returns the entity to show in the flexpane.
+ */
+export type EntityDetailsHandler<E extends SlackAppEnv = SlackAppEnv> = (req: EntityDetailsRequest<E>) => Promise<EntityDetailsResult>;
+
+/**
+ * A registered pair of the pattern and its handler.
+ */
+export interface EntityDetailsListener<E extends SlackAppEnv> {
+  pattern: EntityDetailsPattern;
+  handler: EntityDetailsHandler<E>;
+}
+
+/**
+ * Determines if the event matches the pattern.
+ * @param pattern the external_ref.type or the URL pattern
+ * @param event the entity_details_requested event
+ * @returns the RegExp match result, true for an external_ref.type match, or null
+ */
+export function matchEntityDetailsPattern(
+  pattern: EntityDetailsPattern,
+  event: EntityDetailsRequestedEvent,
+): RegExpMatchArray | true | null {
+  if (typeof pattern === "string") {
+    return event.external_ref?.type === pattern ? true : null;
+  }
+  return event.link.url.match(pattern);
+}
+
+/**
+ * entity.presentDetails API request that shows the error in the flexpane.
+ * The API client's request type does not have the error property yet.
+ */
+type EntityPresentDetailsErrorRequest = EntityPresentDetailsRequest & { error: { status: "internal_error" } };
+
+/**
+ * Runs the first matching handler and responds with entity.presentDetails API.
+ * When the handler throws an exception, the flexpane shows the error instead of loading forever,
+ * and the exception is rethrown to be passed to the error handler.
+ * @param request the entity_details_requested event request
+ * @param listeners the registered entity details handlers
+ * @param onError the function that reports the failure in showing the error in the flexpane (optional)
+ */
+export async function presentEntityDetails<E extends SlackAppEnv>(
+  request: EventRequest<E, "entity_details_requested">,
+  listeners: EntityDetailsListener<E>[],
+  onError?: (error: Error) => Promise<void>,
+): Promise<void> {
+  const event = request.payload;
+  for (const { pattern, handler } of listeners) {
+    const matched = matchEntityDetailsPattern(pattern, event);
+    if (!matched) {
+      continue;
+    }
+    let result: EntityDetailsResult;
+    try {
+      result = await handler({
+        ...request,
+        triggerId: event.trigger_id,
+        userLocale: event.user_locale,
+        ...(matched === true ? {} : { matches: matched }),
+      });
+    } catch (e) {
+      const errorRequest: EntityPresentDetailsErrorRequest = { trigger_id: event.trigger_id, error: { status: "internal_error" } };
+      try {
+        await request.context.client.entity.presentDetails(errorRequest);
+      } catch (apiError) {
+        await onError?.(apiError as Error);
+      }
+      throw e;
+    }
+    if (!result) {
+      return;
+    }
+    if ("user_auth_required" in result) {
+      await request.context.client.entity.presentDetails({ trigger_id: event.trigger_id, ...result });
+    } else {
+      await request.context.client.entity.presentDetails({ trigger_id: event.trigger_id, metadata: result });
+    }
+    return;
+  }
+}
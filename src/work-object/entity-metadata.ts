@@ -0,0 +1,61 @@
+import { ContentItemEntityFields, EntityMetadata, FileEntityFields, IncidentEntityFields, TaskEntityFields } from "slack-web-api-client";
+
+/**
+ * The parameters of a Work Object entity. The fields are typed for each entity type.
+ */
+export type EntityMetadataParams<Fields = never> = Omit<EntityMetadata, "entity_type" | "entity_payload"> & {
+  entity_payload: Omit<EntityMetadata["entity_payload"], "fields"> & { fields?: Fields };
+};
+
+/**
+ * Builds the metadata of a task entity (slack#/entities/task).
+ * The same object can be used for both chat.unfurl API and the flexpane (entity.presentDetails API).
+ * @param params the entity's URL, external reference, and payload
+ * @returns the entity metadata
+ */
+export function taskEntity(params: EntityMetadataParams<TaskEntityFields>): EntityMetadata {
+  return { entity_type: "slack#/entities/task", ...params };
+}
+
+/**
+ * Builds the metadata of a file entity (slack#/entities/file).
+ * @param params the entity's URL, external reference, and payload
+ * @returns the entity metadata
+ */
+export function fileEntity(params: EntityMetadataParams<FileEntityFields>): EntityMetadata {
+  return { entity_type: "slack#/entities/file", ...params };
+}
+
+/**
+ * Builds the metadata of an incident entity (slack#/entities/incident).
+ * @param params the entity's URL, external reference, and payload
+ * @returns the entity metadata
+ */
+export function incidentEntity(params: EntityMetadataParams<IncidentEntityFields>): EntityMetadata {
+  return { entity_type: "slack#/entities/incident", ...params };
+}
+
+/**
+ * Builds the metadata of a content item entity (slack#/entities/content_item).
+ * @param params the entity's URL, external reference, and payload
+ * @returns the entity metadata
+ */
+export function contentItemEntity(params: EntityMetadataParams<ContentItemEntityFields>): EntityMetadata {
+  return { entity_type: "slack#/entities/content_item", ...params };
+}
+
+/**
+ * Builds the metadata of a generic item entity (slack#/entities/item), which has only custom fields.
+ * @param params the entity's URL, external reference, and payload
+ * @returns the entity metadata
+ */
+export function itemEntity(params: EntityMetadataParams): EntityMetadata {
+  return { entity_type: "slack#/entities/item", ...params };
+}
+
+/**
+ * Determines if the given value is Work Object entity metadata.
+ */
+export function isEntityMetadata(value: unknown): value is EntityMetadata {
+  return typeof value === "object" && value !== null && "entity_type" in value && "entity_payload" in value;
+}
@@ -0,0 +1,48 @@
+import { assert, test, describe } from "vitest";
+import { AckTimeoutHandlerArgs, SlackApp, SlackEdgeAppEnv } from "../src/index";
+import { CollectingExecutionContext, createSignedFormRequest, mockAuthorize, slashCommandParams } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const sleep = (millis: number) => new Promise((resolve) => setTimeout(resolve, millis));
+
+describe("Ack timeout", () => {
+  test("responds with the fallback and keeps the ack function running", async () => {
+    const calls: string[] = [];
+    const timeouts: Omit<AckTimeoutHandlerArgs<SlackEdgeAppEnv>, "request">[] = [];
+    const app = new SlackApp({
+      env,
+      authorize: mockAuthorize,
+      ackTimeoutMillis: 20,
+      ackTimeoutHandler: async ({ listenerKind, listenerId, elapsedMillis }) => {
+        timeouts.push({ listenerKind, listenerId, elapsedMillis });
+        return { status: 200, body: { response_type: "ephemeral", text: "Working on it..." } };
+      },
+    });
+    app.command("/slow", async () => {
+      await sleep(100);
+      calls.push("ack");
+      return "Done!";
+    });
+
+    const ctx = new CollectingExecutionContext();
+    const response = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/slow")), ctx);
+    assert.deepEqual(await response.json(), { response_type: "ephemeral", text: "Working on it..." });
+    assert.deepEqual(calls, []);
+    assert.equal(timeouts.length, 1);
+    assert.equal(timeouts[0].listenerKind, "command");
+    assert.equal(timeouts[0].listenerId, "/slow");
+    assert.isAtLeast(timeouts[0].elapsedMillis, 15);
+
+    await ctx.settle();
+    assert.deepEqual(calls, ["ack"]);
+  });
+
+  test("returns the ack response when it completes within the budget", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize, ackTimeoutMillis: 1000 });
+    app.command("/fast", async () => "Done!");
+    const response = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/fast")));
+    assert.equal(await response.text(), "Done!");
+  });
+});
@@ -0,0 +1,87 @@
+import { assert, test, describe } from "vitest";
+import { SlackApp, SlackEdgeAppEnv } from "../src/index";
+import {
+  CollectingExecutionContext,
+  createSignedFormRequest,
+  createSignedRequest,
+  eventBody,
+  mockAuthorize,
+  slashCommandParams,
+} from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+describe("Around middleware", () => {
+  test("wraps authorize, middleware, and the ack function in the registration order", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({
+      env,
+      authorize: async () => {
+        calls.push("authorize");
+        return await mockAuthorize();
+      },
+    });
+    app.around(async (_req, next) => {
+      calls.push("outer:before");
+      const response = await next();
+      calls.push("outer:after");
+      response.headers.set("x-elapsed", "1");
+      return response;
+    });
+    app.around(async (_req, next) => {
+      calls.push("inner:before");
+      const response = await next();
+      calls.push(`inner:after:${response.status}`);
+      return response;
+    });
+    app.use(async () => {
+      calls.push("middleware");
+    });
+    app.command("/deploy", async () => {
+      calls.push("ack");
+      return "Deploying!";
+    });
+
+    const response = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/deploy")));
+    assert.equal(await response.text(), "Deploying!");
+    assert.equal(response.headers.get("x-elapsed"), "1");
+    assert.deepEqual(calls, ["outer:before", "inner:before", "authorize", "middleware", "ack", "inner:after:200", "outer:after"]);
+  });
+
+  test("skips the rest of processing when next() is not called", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.around(async () => new Response("Maintenance", { status: 200 }));
+    app.command("/deploy", async () => {
+      calls.push("ack");
+      return "Deploying!";
+    });
+
+    const response = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/deploy")));
+    assert.equal(await response.text(), "Maintenance");
+    assert.deepEqual(calls, []);
+  });
+
+  test("can wait for the lazy listeners", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.around(async (req, next) => {
+      const response = await next();
+      req.waitUntil(req.lazyCompletion().then(() => calls.push("released")));
+      return response;
+    });
+    app.event("app_mention", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      calls.push("lazy");
+    });
+
+    const ctx = new CollectingExecutionContext();
+    const event = { type: "app_mention", user: "U222", text: "<@U111> hi", ts: "111.222", channel: "C111", event_ts: "111.222" };
+    const response = await app.run(await createSignedRequest(signingSecret, eventBody(event)), ctx);
+    assert.equal(response.status, 200);
+    assert.deepEqual(calls, []);
+    await ctx.settle();
+    assert.deepEqual(calls, ["lazy", "released"]);
+  });
+});
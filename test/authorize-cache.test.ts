@@ -0,0 +1,162 @@
+import { afterEach, assert, test, describe, vi } from "vitest";
+import {
+  AuthorizeCacheKey,
+  AuthorizeResult,
+  cachedAuthorize,
+  KVInstallationStore,
+  MemoryAuthorizeCache,
+  MemoryKVStore,
+  PreAuthorizeSlackMiddlewareRequest,
+  SlackApp,
+  SlackEdgeAppEnv,
+  SlackOAuthApp,
+  SlackOAuthEnv,
+} from "../src/index";
+import { CollectingExecutionContext, createSignedRequest, eventBody, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+const reactionAdded = {
+  type: "reaction_added",
+  user: "U222",
+  reaction: "eyes",
+  item: { type: "message", channel: "C111", ts: "111.222" },
+  event_ts: "111.333",
+};
+
+const result = (botToken: string): AuthorizeResult => ({ botId: "B111", botUserId: "U111", botToken, botScopes: [] });
+const authorizeRequest = (context: object) =>
+  ({ env, context, body: {}, rawBody: "", headers: new Headers() }) as unknown as PreAuthorizeSlackMiddlewareRequest<SlackEdgeAppEnv>;
+
+describe("Authorize cache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("MemoryAuthorizeCache", async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryAuthorizeCache({ ttlSeconds: 60, maxEntries: 2 });
+    await cache.set({ teamId: "T111", userId: "U111" }, result("a"));
+    await cache.set({ teamId: "T111", userId: "U222" }, result("b"));
+    await cache.set({ teamId: "T222" }, result("c"));
+    assert.isUndefined(await cache.get({ teamId: "T111", userId: "U111" }));
+    assert.equal((await cache.get({ teamId: "T111", userId: "U222" }))?.botToken, "b");
+
+    await cache.invalidate({ teamId: "T111" });
+    assert.isUndefined(await cache.get({ teamId: "T111", userId: "U222" }));
+    assert.equal((await cache.get({ teamId: "T222" }))?.botToken, "c");
+    vi.advanceTimersByTime(61_000);
+    assert.isUndefined(await cache.get({ teamId: "T222" }));
+  });
+
+  test("MemoryAuthorizeCache evicts the expired results in the insertion order", async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryAuthorizeCache({ ttlSeconds: 60, maxEntries: 2 });
+    await cache.set({ teamId: "T111" }, result("a"));
+    vi.advanceTimersByTime(30_000);
+    await cache.set({ teamId: "T222" }, result("b"));
+    // Updating T111 moves it to the end, so T222 is the oldest now
+    await cache.set({ teamId: "T111" }, result("c"));
+    vi.advanceTimersByTime(31_000);
+    await cache.set({ teamId: "T333" }, result("d"));
+    assert.isUndefined(await cache.get({ teamId: "T222" }));
+    assert.equal((await cache.get({ teamId: "T111" }))?.botToken, "c");
+    assert.equal((await cache.get({ teamId: "T333" }))?.botToken, "d");
+  });
+
+  test("cachedAuthorize reuses the results per org/team/user", async () => {
+    let count = 0;
+    // deno-lint-ignore require-await
+    const authorize = cachedAuthorize(async () => result(`xoxb-${++count}`), new MemoryAuthorizeCache());
+    assert.equal((await authorize(authorizeRequest({ teamId: "T111", userId: "U111" }))).botToken, "xoxb-1");
+    assert.equal((await authorize(authorizeRequest({ teamId: "T111", userId: "U111" }))).botToken, "xoxb-1");
+    assert.equal((await authorize(authorizeRequest({ teamId: "T111", userId: "U111", actorUserId: "U222" }))).botToken, "xoxb-2");
+    assert.equal((await authorize(authorizeRequest({ teamId: "T222", userId: "U111" }))).botToken, "xoxb-3");
+  });
+
+  test("the app invalidates the cache when tokens or scopes change", async () => {
+    let count = 0;
+    const app = new SlackApp({
+      env,
+      authorize: async () => {
+        count++;
+        return await mockAuthorize();
+      },
+      authorizeCache: new MemoryAuthorizeCache(),
+    });
+    app.event("reaction_added", async () => {});
+    app.event("scope_granted", async () => {});
+    app.event("tokens_revoked", async () => {});
+
+    const run = async (event: object, eventId: string) => {
+      const response = await app.run(await createSignedRequest(signingSecret, eventBody(event, { event_id: eventId })));
+      assert.equal(response.status, 200);
+    };
+    await run(reactionAdded, "Ev1");
+    await run(reactionAdded, "Ev2");
+    assert.equal(count, 1);
+
+    await run({ type: "scope_granted", scopes: ["chat:write"], trigger_id: "111", event_ts: "111.444" }, "Ev3");
+    await run(reactionAdded, "Ev4");
+    assert.equal(count, 3);
+
+    // tokens_revoked does not call authorize() at all
+    await run({ type: "tokens_revoked", tokens: { bot: ["U111"] }, event_ts: "111.555" }, "Ev5");
+    await run(reactionAdded, "Ev6");
+    assert.equal(count, 4);
+  });
+
+  test("revoking user tokens invalidates the whole team unless the tokens are resolved per actor", async () => {
+    const countAuthorizeCalls = async (appEnv: SlackEdgeAppEnv) => {
+      let count = 0;
+      const app = new SlackApp({
+        env: appEnv,
+        authorize: async () => {
+          count++;
+          return await mockAuthorize();
+        },
+        authorizeCache: new MemoryAuthorizeCache(),
+      });
+      app.event("reaction_added", async () => {});
+      app.event("tokens_revoked", async () => {});
+      const run = async (event: object, eventId: string) => {
+        const response = await app.run(await createSignedRequest(signingSecret, eventBody(event, { event_id: eventId })));
+        assert.equal(response.status, 200);
+      };
+      // The cached result for U222 includes the user token resolved for the request
+      await run(reactionAdded, "Ev1");
+      await run({ type: "tokens_revoked", tokens: { oauth: ["U999"] }, event_ts: "111.555" }, "Ev2");
+      await run(reactionAdded, "Ev3");
+      return count;
+    };
+    // The installer's token (U999) can be cached for U222's requests
+    assert.equal(await countAuthorizeCalls(env), 2);
+    // Each user's own token is cached, so U222's result stays valid
+    const actorEnv = { ...env, SLACK_USER_TOKEN_RESOLUTION: "actor" as const };
+    assert.equal(await countAuthorizeCalls(actorEnv), 1);
+  });
+
+  test("SlackOAuthApp invalidates the cache again after deleting the installations", async () => {
+    const oauthEnv: SlackOAuthEnv = {
+      SLACK_CLIENT_ID: "111.222",
+      SLACK_CLIENT_SECRET: "xxx",
+      SLACK_BOT_SCOPES: "commands,chat:write",
+      SLACK_SIGNING_SECRET: signingSecret,
+    };
+    const installationStore = new KVInstallationStore(oauthEnv, new MemoryKVStore());
+    await installationStore.save({ app_id: "A111", team_id: "T111", user_id: "U111", bot_token: "xoxb-test", bot_scopes: [] });
+    const installed: boolean[] = [];
+    class RecordingCache extends MemoryAuthorizeCache {
+      override async invalidate(key: AuthorizeCacheKey): Promise<void> {
+        installed.push((await installationStore.findBotInstallation({ teamId: "T111" })) !== undefined);
+        await super.invalidate(key);
+      }
+    }
+    const app = new SlackOAuthApp({ env: oauthEnv, installationStore, authorizeCache: new RecordingCache() });
+    const ctx = new CollectingExecutionContext();
+    const response = await app.run(await createSignedRequest(signingSecret, eventBody({ type: "app_uninstalled" })), ctx);
+    assert.equal(response.status, 200);
+    await ctx.settle();
+    assert.deepEqual(installed, [true, false]);
+  });
+});
@@ -0,0 +1,164 @@
+import { assert, test, describe } from "vitest";
+import { buildCommandUsage, defineCommand, parseCommandText, SlackApp, SlackEdgeAppEnv } from "../src/index";
+import { createSignedFormRequest, mockAuthorize, slashCommandParams } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const todo = defineCommand({
+  command: "/todo",
+  description: "Manages your to-dos",
+  subcommands: {
+    add: {
+      description: "Adds a to-do",
+      args: [
+        { name: "assignee", type: "user", description: "Who does it" },
+        { name: "title", description: "What to do" },
+      ],
+      flags: { due: { description: "The due date", alias: "d" }, urgent: { type: "boolean" } },
+    },
+    share: {
+      args: [{ name: "channels", type: "channel", rest: true }],
+    },
+    list: { description: "Lists your to-dos", args: [{ name: "limit", type: "number", optional: true }] },
+  },
+});
+
+describe("Slash command definitions", () => {
+  test("keeps apostrophes and quotation marks inside words", () => {
+    const note = defineCommand({ command: "/note", args: [{ name: "words", rest: true }] });
+    assert.deepEqual(parseCommandText(note, "don't forget"), {
+      type: "args",
+      args: { subcommand: undefined, args: { words: ["don't", "forget"] }, flags: {} },
+    });
+    assert.deepEqual(parseCommandText(note, 'it\'s "quoted text"'), {
+      type: "args",
+      args: { subcommand: undefined, args: { words: ["it's", "quoted text"] }, flags: {} },
+    });
+    assert.deepEqual(parseCommandText(note, "it’s ‘quoted text’ rock'n'roll"), {
+      type: "args",
+      args: { subcommand: undefined, args: { words: ["it’s", "quoted text", "rock'n'roll"] }, flags: {} },
+    });
+  });
+
+  test("parses subcommands, quoted arguments, mentions, and flags", () => {
+    assert.deepEqual(parseCommandText(todo, '<@U123|kaz> "buy milk" --due tomorrow --urgent'), {
+      type: "error",
+      message: "Unknown subcommand: <@U123|kaz>",
+    });
+    assert.deepEqual(parseCommandText(todo, "add <@U123|kaz> “buy milk” -d=tomorrow --urgent"), {
+      type: "args",
+      args: {
+        subcommand: "add",
+        args: { assignee: { type: "user", id: "U123", name: "kaz" }, title: "buy milk" },
+        flags: { due: "tomorrow", urgent: true },
+      },
+    });
+    assert.deepEqual(parseCommandText(todo, "share <#C111|general> C222"), {
+      type: "args",
+      args: {
+        subcommand: "share",
+        args: {
+          channels: [
+            { type: "channel", id: "C111", name: "general" },
+            { type: "channel", id: "C222" },
+          ],
+        },
+        flags: {},
+      },
+    });
+    assert.deepEqual(parseCommandText(todo, "list"), { type: "args", args: { subcommand: "list", args: {}, flags: {} } });
+    assert.deepEqual(parseCommandText(todo, "list help"), { type: "help", subcommand: "list" });
+    assert.deepEqual(parseCommandText(todo, "help"), { type: "help" });
+    assert.deepEqual(parseCommandText(todo, "list ten"), { type: "error", message: "limit must be a number: ten", subcommand: "list" });
+    assert.deepEqual(parseCommandText(todo, "add U123"), { type: "error", message: "title is required.", subcommand: "add" });
+    assert.deepEqual(parseCommandText(todo, 'add U123 "buy'), { type: "error", message: "A quotation mark is not closed." });
+    assert.deepEqual(parseCommandText(todo, "add U123 don't"), {
+      type: "args",
+      args: { subcommand: "add", args: { assignee: { type: "user", id: "U123" }, title: "don't" }, flags: {} },
+    });
+    assert.deepEqual(parseCommandText(todo, "add U123 milk --constructor"), {
+      type: "error",
+      message: "Unknown flag: --constructor",
+      subcommand: "add",
+    });
+    assert.deepEqual(parseCommandText(todo, "add U123 milk --toString=x"), {
+      type: "error",
+      message: "Unknown flag: --toString",
+      subcommand: "add",
+    });
+    assert.deepEqual(
+      parseCommandText(defineCommand({ command: "/notify", args: [{ name: "group", type: "usergroup" }] }), "<!subteam^S111|@devs>"),
+      {
+        type: "args",
+        args: { subcommand: undefined, args: { group: { type: "usergroup", id: "S111", name: "devs" } }, flags: {} },
+      },
+    );
+  });
+
+  test("passes the parsed arguments to the listeners", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.command(todo, async ({ args }) => {
+      const assignee = args.args.assignee as { id: string };
+      return `${args.subcommand}: ${args.args.title} (${assignee.id}, due: ${args.flags.due})`;
+    });
+    const response = await app.run(
+      await createSignedFormRequest(signingSecret, slashCommandParams("/todo", 'add <@U123|kaz> "buy milk" --due tomorrow')),
+    );
+    assert.equal(await response.text(), "add: buy milk (U123, due: tomorrow)");
+  });
+
+  test("answers help and invalid input with the usage message", async () => {
+    let called = false;
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.command(todo, async () => {
+      called = true;
+    });
+    const help = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/todo", "help")));
+    assert.deepEqual(await help.json(), { response_type: "ephemeral", text: buildCommandUsage(todo) });
+
+    const invalid = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/todo", "add --unknown")));
+    assert.deepEqual(await invalid.json(), {
+      response_type: "ephemeral",
+      text: "Unknown flag: --unknown\n\n" + buildCommandUsage(todo, "add"),
+    });
+    assert.isFalse(called);
+  });
+
+  test("adds the description and usage hint to the app manifest", () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize }).command(todo, async () => "");
+    const manifest = app.toManifest({ display_information: { name: "Test App" } });
+    assert.deepEqual(manifest.features?.slash_commands, [
+      { command: "/todo", description: "Manages your to-dos", usage_hint: "[add|share|list|help]", should_escape: true },
+    ]);
+    const plain = new SlackApp({ env, authorize: mockAuthorize }).command(
+      defineCommand({ command: "/echo", args: [{ name: "text", rest: true }] }),
+      async () => "",
+    );
+    assert.isFalse(plain.toManifest({ display_information: { name: "Test App" } }).features?.slash_commands?.[0].should_escape);
+  });
+
+  test("builds the usage message from the definition", () => {
+    assert.equal(
+      buildCommandUsage(todo),
+      [
+        "Manages your to-dos",
+        "*Usage:*",
+        "• `/todo add <assignee> <title> [--due <string>] [--urgent]` - Adds a to-do",
+        "• `/todo share <channels...>`",
+        "• `/todo list [limit]` - Lists your to-dos",
+        "• `/todo <subcommand> help` - Shows the details of the subcommand",
+      ].join("\n"),
+    );
+    assert.equal(
+      buildCommandUsage(todo, "add"),
+      [
+        "`/todo add <assignee> <title> [--due <string>] [--urgent]` - Adds a to-do",
+        "    • `assignee` (user) - Who does it",
+        "    • `title` (string) - What to do",
+        "    • `--due, -d` (string) - The due date",
+        "    • `--urgent` (boolean)",
+      ].join("\n"),
+    );
+  });
+});
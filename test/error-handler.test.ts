@@ -0,0 +1,104 @@
+import { assert, test, describe } from "vitest";
+import { ErrorHandlerArgs, SlackApp, SlackEdgeAppEnv } from "../src/index";
+import {
+  CollectingExecutionContext,
+  createSignedFormRequest,
+  createSignedRequest,
+  eventBody,
+  mockAuthorize,
+  slashCommandParams,
+} from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+describe("Global error handler", () => {
+  test("without error handler, an ack exception is propagated", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.command("/deploy", async () => {
+      throw new Error("ack failure");
+    });
+    const request = await createSignedFormRequest(signingSecret, slashCommandParams("/deploy"));
+    let thrown: Error | undefined;
+    try {
+      await app.run(request);
+    } catch (e) {
+      thrown = e as Error;
+    }
+    assert.equal(thrown?.message, "ack failure");
+  });
+
+  test("ack exception is converted to the returned response", async () => {
+    const calls: ErrorHandlerArgs<SlackEdgeAppEnv>[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.error(async (args) => {
+      calls.push(args);
+      return { status: 200, body: { response_type: "ephemeral", text: "Something went wrong" } };
+    });
+    app.command("/deploy", async () => {
+      throw new Error("ack failure");
+    });
+    const request = await createSignedFormRequest(signingSecret, slashCommandParams("/deploy"));
+    const response = await app.run(request);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { response_type: "ephemeral", text: "Something went wrong" });
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].phase, "ack");
+    assert.equal(calls[0].listenerKind, "command");
+    assert.equal(calls[0].error.message, "ack failure");
+    assert.equal(calls[0].request.context.userId, "U222");
+  });
+
+  test("error handler returning nothing results in an empty 200 response", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize }).error(async () => {});
+    app.use(async () => {
+      throw new Error("middleware failure");
+    });
+    app.command("/deploy", async () => "ok");
+    const request = await createSignedFormRequest(signingSecret, slashCommandParams("/deploy"));
+    const response = await app.run(request);
+    assert.equal(response.status, 200);
+    assert.equal(await response.text(), "");
+  });
+
+  test("middleware phases", async () => {
+    const phases: string[] = [];
+    const app = new SlackApp({
+      env,
+      authorize: mockAuthorize,
+      errorHandler: async ({ phase }) => {
+        phases.push(phase);
+      },
+    });
+    app.beforeAuthorize(async () => {
+      throw new Error("pre-authorize failure");
+    });
+    const request = await createSignedFormRequest(signingSecret, slashCommandParams("/deploy"));
+    await app.run(request);
+    assert.deepEqual(phases, ["preAuthorizeMiddleware"]);
+  });
+
+  test("lazy listener exception is passed to the error handler", async () => {
+    const calls: ErrorHandlerArgs<SlackEdgeAppEnv>[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.error(async (args) => {
+      calls.push(args);
+    });
+    app.event("app_mention", async () => {
+      throw new Error("lazy failure");
+    });
+    const ctx = new CollectingExecutionContext();
+    const request = await createSignedRequest(
+      signingSecret,
+      eventBody({ type: "app_mention", user: "U222", text: "<@U111> hi", ts: "111.222", channel: "C111", event_ts: "111.222" }),
+    );
+    const response = await app.run(request, ctx);
+    assert.equal(response.status, 200);
+    const results = await ctx.settle();
+    assert.equal(results[0].status, "fulfilled");
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].phase, "lazy");
+    assert.equal(calls[0].listenerKind, "event");
+    assert.equal(calls[0].error.message, "lazy failure");
+  });
+});
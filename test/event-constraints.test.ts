@@ -0,0 +1,69 @@
+import { assert, test, describe } from "vitest";
+import { matchEvent, matchMessageEvent, SlackApp, SlackEdgeAppEnv } from "../src/index";
+import { CollectingExecutionContext, createSignedRequest, eventBody, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const message = (extra: object = {}) => ({
+  type: "message",
+  user: "U222",
+  text: "Please deploy this",
+  ts: "111.333",
+  channel: "D111",
+  channel_type: "im",
+  ...extra,
+});
+
+describe("Event constraints", () => {
+  test("match message events with all the conditions", () => {
+    const constraints = {
+      text: /deploy/,
+      channelType: "im" as const,
+      subtype: [undefined, "file_share" as const],
+      threadOnly: true,
+      fromUser: true,
+    };
+    assert.isNotNull(matchMessageEvent(message({ thread_ts: "111.222" }), constraints));
+    assert.isNull(matchMessageEvent(message(), constraints));
+    assert.isNull(matchMessageEvent(message({ thread_ts: "111.222", channel_type: "channel" }), constraints));
+    assert.isNull(matchMessageEvent(message({ thread_ts: "111.222", text: "Hello" }), constraints));
+    assert.isNull(matchMessageEvent(message({ thread_ts: "111.222", bot_id: "B111" }), constraints));
+    assert.isNull(matchMessageEvent(message({ thread_ts: "111.222", subtype: "thread_broadcast" }), constraints));
+    assert.isNull(matchMessageEvent(message({ subtype: "message_changed" }), undefined));
+    assert.deepEqual(matchMessageEvent(message(), /(?<verb>deploy)/)?.matches?.groups, { verb: "deploy" });
+    assert.isNull(matchMessageEvent(message(), { filter: (event) => event.text.length > 100 }));
+  });
+
+  test("match events with the types and filter", () => {
+    const reaction = {
+      type: "reaction_removed",
+      user: "U222",
+      reaction: "eyes",
+      item: { type: "message", channel: "C111", ts: "111.222" },
+    };
+    assert.isTrue(matchEvent(reaction, ["reaction_added", "reaction_removed"]));
+    assert.isFalse(matchEvent(reaction, "reaction_added"));
+    assert.isTrue(matchEvent(reaction, { type: "reaction_removed", filter: (event) => event.reaction === "eyes" }));
+    assert.isFalse(matchEvent(reaction, { type: "reaction_removed", filter: (event) => event.reaction === "tada" }));
+  });
+
+  test("dispatch events to the listeners with constraints", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.event(["reaction_added", "reaction_removed"], async ({ payload }) => {
+      calls.push(`${payload.type}:${payload.reaction}`);
+    });
+    app.message({ channelType: "im", text: "deploy" }, async ({ payload }) => {
+      calls.push(`message:${payload.channel}`);
+    });
+    const ctx = new CollectingExecutionContext();
+    const reaction = { type: "reaction_added", user: "U222", reaction: "eyes", item: { type: "message", channel: "C111", ts: "111.222" } };
+    await app.run(await createSignedRequest(signingSecret, eventBody(reaction)), ctx);
+    await app.run(await createSignedRequest(signingSecret, eventBody({ ...reaction, type: "reaction_removed" })), ctx);
+    await app.run(await createSignedRequest(signingSecret, eventBody(message())), ctx);
+    await app.run(await createSignedRequest(signingSecret, eventBody(message({ channel: "C111", channel_type: "channel" }))), ctx);
+    await ctx.settle();
+    assert.deepEqual(calls, ["reaction_added:eyes", "reaction_removed:eyes", "message:D111"]);
+  });
+});
@@ -0,0 +1,127 @@
+import { assert, test, describe } from "vitest";
+import { extractDeduplicationKey, MemoryEventDeduplicationStore, SlackApp, SlackEdgeAppEnv } from "../src/index";
+import { blockActionBody, createSignedRequest, eventBody, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+const reactionAdded = {
+  type: "reaction_added",
+  user: "U222",
+  reaction: "eyes",
+  item: { type: "message", channel: "C111", ts: "111.222" },
+  event_ts: "111.333",
+};
+
+describe("Event deduplication", () => {
+  test("MemoryEventDeduplicationStore", async () => {
+    const store = new MemoryEventDeduplicationStore({ ttlSeconds: 0.05 });
+    assert.isTrue(await store.saveIfAbsent("a"));
+    assert.isFalse(await store.saveIfAbsent("a"));
+    assert.isTrue(await store.saveIfAbsent("b"));
+    await new Promise((r) => setTimeout(r, 100));
+    assert.isTrue(await store.saveIfAbsent("a"));
+  });
+
+  test("extractDeduplicationKey", () => {
+    assert.equal(extractDeduplicationKey(eventBody(reactionAdded)), "event:Ev111");
+    assert.equal(extractDeduplicationKey(blockActionBody("a")), "block_actions:111.222.xxx");
+    assert.equal(extractDeduplicationKey({ command: "/deploy", trigger_id: "t" }), "command:t");
+    assert.equal(extractDeduplicationKey({ type: "block_actions", actions: [{ action_ts: "1.2" }] }), "block_actions:1.2");
+    assert.isUndefined(extractDeduplicationKey({ type: "block_suggestion", action_id: "a" }));
+  });
+
+  test("duplicated events are acknowledged without running listeners", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize, eventDeduplicationStore: new MemoryEventDeduplicationStore() });
+    app.event("reaction_added", async () => {
+      calls.push("reaction_added");
+    });
+    const first = await app.run(await createSignedRequest(signingSecret, eventBody(reactionAdded)));
+    assert.equal(first.status, 200);
+    const retry = await app.run(
+      await createSignedRequest(signingSecret, eventBody(reactionAdded), {
+        "x-slack-retry-num": "1",
+        "x-slack-retry-reason": "http_error",
+      }),
+    );
+    assert.equal(retry.status, 200);
+    assert.deepEqual(calls, ["reaction_added"]);
+  });
+
+  test("a retry is processed when the first attempt fails", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize, eventDeduplicationStore: new MemoryEventDeduplicationStore() });
+    let attempts = 0;
+    app.use(async () => {
+      attempts++;
+      if (attempts === 1) {
+        throw new Error("Something went wrong");
+      }
+    });
+    app.event("reaction_added", async () => {
+      calls.push("reaction_added");
+    });
+    try {
+      await app.run(await createSignedRequest(signingSecret, eventBody(reactionAdded)));
+      assert.fail("The first attempt must fail");
+    } catch (e) {
+      assert.equal((e as Error).message, "Something went wrong");
+    }
+    const retry = await app.run(
+      await createSignedRequest(signingSecret, eventBody(reactionAdded), {
+        "x-slack-retry-num": "1",
+        "x-slack-retry-reason": "http_error",
+      }),
+    );
+    assert.equal(retry.status, 200);
+    assert.deepEqual(calls, ["reaction_added"]);
+
+    const failing = new SlackApp({
+      env,
+      authorize: mockAuthorize,
+      eventDeduplicationStore: new MemoryEventDeduplicationStore(),
+      errorHandler: async () => ({ status: 500, body: "" }),
+    });
+    let failingAttempts = 0;
+    failing.use(async () => {
+      failingAttempts++;
+      throw new Error("Something went wrong");
+    });
+    assert.equal((await failing.run(await createSignedRequest(signingSecret, eventBody(reactionAdded)))).status, 500);
+    assert.equal((await failing.run(await createSignedRequest(signingSecret, eventBody(reactionAdded)))).status, 500);
+    assert.equal(failingAttempts, 2);
+  });
+
+  test("retryPolicy: skip", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize, retryPolicy: "skip" });
+    app.event("reaction_added", async () => {
+      calls.push("reaction_added");
+    });
+    const retry = await app.run(await createSignedRequest(signingSecret, eventBody(reactionAdded), { "x-slack-retry-num": "1" }));
+    assert.equal(retry.status, 200);
+    assert.deepEqual(calls, []);
+  });
+
+  test("retryPolicy: skipHttpTimeout", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize, retryPolicy: "skipHttpTimeout" });
+    app.event("reaction_added", async () => {
+      calls.push("reaction_added");
+    });
+    await app.run(
+      await createSignedRequest(signingSecret, eventBody(reactionAdded), {
+        "x-slack-retry-num": "1",
+        "x-slack-retry-reason": "http_timeout",
+      }),
+    );
+    assert.deepEqual(calls, []);
+    await app.run(
+      await createSignedRequest(signingSecret, eventBody(reactionAdded), {
+        "x-slack-retry-num": "2",
+        "x-slack-retry-reason": "http_error",
+      }),
+    );
+    assert.deepEqual(calls, ["reaction_added"]);
+  });
+});
@@ -0,0 +1,129 @@
+import { assert, test, describe } from "vitest";
+import { buildFormBlocks, defineForm, readFormValues, SlackApp, SlackEdgeAppEnv, SlackRouter, ViewStateValue } from "../src/index";
+import { createSignedRequest, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const priorities = [
+  { text: { type: "plain_text" as const, text: "High" }, value: "high" },
+  { text: { type: "plain_text" as const, text: "Low" }, value: "low" },
+];
+
+const newTask = defineForm({
+  callback_id: "new_task",
+  fields: {
+    title: {
+      type: "plain_text_input",
+      label: "Title",
+      element: { placeholder: { type: "plain_text", text: "What to do" } },
+      validate: (value) => (value.length < 3 ? "The title must be at least 3 characters." : undefined),
+    },
+    priority: { type: "static_select", label: "Priority", element: { options: priorities } },
+    assignees: { type: "multi_users_select", label: "Assignees", optional: true },
+    estimate: {
+      type: "number_input",
+      label: "Estimate",
+      blockId: "estimate_block",
+      element: { is_decimal_allowed: false },
+      optional: true,
+    },
+  },
+});
+
+const viewSubmissionBody = (callbackId: string, values: object) => ({
+  type: "view_submission",
+  team: { id: "T111", domain: "example" },
+  user: { id: "U222", username: "someone", team_id: "T111" },
+  api_app_id: "A111",
+  token: "test-token",
+  trigger_id: "111.222.xxx",
+  view: { id: "V111", type: "modal", callback_id: callbackId, private_metadata: "", state: { values } },
+});
+
+const submittedValues = (title: string): { [blockId: string]: { [actionId: string]: ViewStateValue } } => ({
+  title: { title: { type: "plain_text_input", value: title } },
+  priority: { priority: { type: "static_select", selected_option: priorities[0] } },
+  assignees: { assignees: { type: "multi_users_select", selected_users: ["U111", "U222"] } },
+  estimate_block: { estimate: { type: "number_input" } },
+});
+
+describe("Modal form binding", () => {
+  test("builds the input blocks with the initial values", () => {
+    const blocks = buildFormBlocks(newTask, { title: "Draft", priority: "low", estimate: 3 });
+    assert.deepEqual(
+      blocks.map((b) => [b.block_id, b.optional]),
+      [
+        ["title", undefined],
+        ["priority", undefined],
+        ["assignees", true],
+        ["estimate_block", true],
+      ],
+    );
+    assert.deepEqual(blocks[0].element, {
+      type: "plain_text_input",
+      action_id: "title",
+      placeholder: { type: "plain_text", text: "What to do" },
+      initial_value: "Draft",
+    });
+    assert.deepEqual(blocks[1].element, {
+      type: "static_select",
+      action_id: "priority",
+      options: priorities,
+      initial_option: priorities[1],
+    });
+    assert.deepEqual(blocks[3].element, { type: "number_input", action_id: "estimate", is_decimal_allowed: false, initial_value: "3" });
+  });
+
+  test("reads and validates the submitted values", async () => {
+    const result = await readFormValues(newTask, { state: { values: submittedValues("Write docs") } });
+    assert.deepEqual(result, { type: "values", values: { title: "Write docs", priority: "high", assignees: ["U111", "U222"] } });
+
+    const invalid = await readFormValues(newTask, { state: { values: { title: submittedValues("ab").title } } });
+    assert.deepEqual(invalid, {
+      type: "errors",
+      response: {
+        response_action: "errors",
+        errors: { title: "The title must be at least 3 characters.", priority: "This field is required." },
+      },
+    });
+  });
+
+  test("passes the form values to the listener and answers validation errors", async () => {
+    const received: unknown[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.viewSubmission(
+      newTask,
+      async ({ formValues }) => {
+        const title: string = formValues.title;
+        received.push(["ack", title, formValues.assignees]);
+      },
+      async ({ formValues }) => {
+        received.push(["lazy", formValues.title]);
+      },
+    );
+    const response = await app.run(await createSignedRequest(signingSecret, viewSubmissionBody("new_task", submittedValues("Write docs"))));
+    assert.equal(response.status, 200);
+    assert.equal(await response.text(), "");
+
+    const errorResponse = await app.run(await createSignedRequest(signingSecret, viewSubmissionBody("new_task", submittedValues("ab"))));
+    assert.deepEqual(await errorResponse.json(), {
+      response_action: "errors",
+      errors: { title: "The title must be at least 3 characters." },
+    });
+    assert.deepEqual(received, [
+      ["lazy", "Write docs"],
+      ["ack", "Write docs", ["U111", "U222"]],
+    ]);
+  });
+
+  test("prefixes the callback_id of a form registered on a router", async () => {
+    const received: string[] = [];
+    const router = new SlackRouter().viewSubmission(newTask, async ({ formValues }) => {
+      received.push(formValues.priority);
+    });
+    const app = new SlackApp({ env, authorize: mockAuthorize }).mount(router, { prefix: "tasks:" });
+    await app.run(await createSignedRequest(signingSecret, viewSubmissionBody("tasks:new_task", submittedValues("Write docs"))));
+    assert.deepEqual(received, ["high"]);
+  });
+});
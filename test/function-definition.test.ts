@@ -0,0 +1,153 @@
+import { afterEach, assert, beforeEach, test, describe, vi } from "vitest";
+import { defineFunction, SlackApp, SlackEdgeAppEnv, toFunctionsManifest, validateFunctionParameters } from "../src/index";
+import { CollectingExecutionContext, createSignedRequest, eventBody, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const approveRequest = defineFunction({
+  callback_id: "approve_request",
+  title: "Approve a request",
+  description: "Asks the approver to approve a request",
+  input_parameters: {
+    properties: {
+      requester: { type: "slack#/types/user_id", title: "Requester" },
+      amount: { type: "integer" },
+      tags: { type: "array", items: { type: "string" } },
+    },
+    required: ["requester", "amount"],
+  },
+  output_parameters: {
+    properties: { approved: { type: "boolean" } },
+    required: ["approved"],
+  },
+});
+
+const functionExecutedEvent = (inputs: object) => ({
+  type: "function_executed",
+  function: {
+    id: "Fn111",
+    callback_id: "approve_request",
+    title: "Approve a request",
+    type: "app",
+    input_parameters: [],
+    output_parameters: [],
+    app_id: "A111",
+    date_created: 1700000000,
+    date_updated: 1700000000,
+    date_deleted: 0,
+  },
+  inputs,
+  function_execution_id: "Fx111",
+  workflow_execution_id: "Wx111",
+  event_ts: "1700000000.000001",
+  bot_access_token: "xwfp-test",
+});
+
+describe("Custom function definitions", () => {
+  let apiCalls: { method: string; body: URLSearchParams }[] = [];
+
+  beforeEach(() => {
+    apiCalls = [];
+    vi.stubGlobal("fetch", async (request: Request) => {
+      apiCalls.push({ method: new URL(request.url).pathname.split("/").pop()!, body: new URLSearchParams(await request.text()) });
+      return new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("passes the typed inputs and completes with the typed outputs", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.function(approveRequest, async ({ context, payload }) => {
+      const requester: string = payload.inputs.requester;
+      const amount: number = payload.inputs.amount;
+      const tags: string[] | undefined = payload.inputs.tags;
+      await context.complete({ outputs: { approved: requester === "U222" && amount < 100 && tags === undefined } });
+    });
+    const ctx = new CollectingExecutionContext();
+    // The inputs that the definition does not declare are ignored
+    await app.run(
+      await createSignedRequest(signingSecret, eventBody(functionExecutedEvent({ requester: "U222", amount: 10, note: "added later" }))),
+      ctx,
+    );
+    await ctx.settle();
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].method, "functions.completeSuccess");
+    assert.deepEqual(JSON.parse(apiCalls[0].body.get("outputs")!), { approved: true });
+  });
+
+  test("fails the execution without calling the listener when the inputs are invalid", async () => {
+    let called = false;
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.function(approveRequest, async () => {
+      called = true;
+    });
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(functionExecutedEvent({ amount: 1.5 }))), ctx);
+    await ctx.settle();
+    assert.isFalse(called);
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].method, "functions.completeError");
+    assert.equal(apiCalls[0].body.get("error"), "Invalid inputs for approve_request: requester is required, amount must be integer");
+  });
+
+  test("rejects the invalid outputs", async () => {
+    const errors: Error[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize, autoFailFunctionExecution: true });
+    app.function(approveRequest, async ({ context }) => {
+      try {
+        // @ts-expect-error approved must be a boolean
+        await context.complete({ outputs: { approved: "yes" } });
+      } catch (e) {
+        errors.push(e as Error);
+        throw e;
+      }
+    });
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(functionExecutedEvent({ requester: "U222", amount: 10 }))), ctx);
+    await ctx.settle();
+    assert.equal(errors[0].name, "FunctionParameterValidationError");
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].method, "functions.completeError");
+    assert.equal(apiCalls[0].body.get("error"), "Invalid outputs for approve_request: approved must be boolean");
+  });
+
+  test("validates the values against the parameters", () => {
+    const parameters = approveRequest.input_parameters;
+    assert.deepEqual(validateFunctionParameters(parameters, { requester: "U222", amount: 1, tags: ["a"] }), []);
+    assert.deepEqual(validateFunctionParameters(parameters, { requester: "U222", amount: 1, tags: [1] }), [
+      "tags must be an array of string",
+    ]);
+    assert.deepEqual(validateFunctionParameters(parameters, { requester: "U222", amount: 1, unknown: true }), ["unknown is not defined"]);
+    assert.deepEqual(
+      validateFunctionParameters(parameters, { requester: "U222", amount: 1, unknown: true }, { ignoreUndeclared: true }),
+      [],
+    );
+    assert.deepEqual(validateFunctionParameters(parameters, undefined), ["requester is required", "amount is required"]);
+  });
+
+  test("exports the definitions as the manifest functions section", () => {
+    const functions = toFunctionsManifest([approveRequest]);
+    assert.deepEqual(JSON.parse(JSON.stringify(functions)), {
+      approve_request: {
+        title: "Approve a request",
+        description: "Asks the approver to approve a request",
+        input_parameters: {
+          properties: {
+            requester: { type: "slack#/types/user_id", title: "Requester", is_required: true },
+            amount: { type: "integer", is_required: true },
+            tags: { type: "array", items: { type: "string" }, is_required: false },
+          },
+          required: ["requester", "amount"],
+        },
+        output_parameters: {
+          properties: { approved: { type: "boolean", is_required: true } },
+          required: ["approved"],
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, assert, beforeEach, test, describe, vi } from "vitest";
+import { SlackApp, SlackEdgeAppEnv } from "../src/index";
+import {
+  blockActionBody,
+  CollectingExecutionContext,
+  createSignedFormRequest,
+  createSignedRequest,
+  mockAuthorize,
+  slashCommandParams,
+} from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const functionData = (callbackId: string) => ({
+  bot_access_token: "xwfp-test",
+  function_data: { execution_id: "Fx111", function: { callback_id: callbackId }, inputs: { user_id: "U222" } },
+});
+
+const viewSubmissionBody = (callbackId: string, extra: object = {}) => ({
+  type: "view_submission",
+  team: { id: "T111", domain: "example" },
+  user: { id: "U222", username: "someone", team_id: "T111" },
+  api_app_id: "A111",
+  token: "test-token",
+  trigger_id: "111.222.xxx",
+  view: { id: "V111", type: "modal", callback_id: callbackId, state: { values: {} } },
+  ...extra,
+});
+
+describe("Custom function interactivity", () => {
+  let apiCalls: { method: string; body: string }[] = [];
+
+  beforeEach(() => {
+    apiCalls = [];
+    vi.stubGlobal("fetch", async (request: Request) => {
+      apiCalls.push({ method: new URL(request.url).pathname.split("/").pop()!, body: await request.text() });
+      return new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("routes the actions originating from the function", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app
+      .function("approve_request", async ({ context }) => {
+        context.deferCompletion();
+      })
+      .action(
+        "approve",
+        async () => {},
+        async ({ context, payload }) => {
+          await context.complete({ outputs: { approver: payload.user.id } });
+        },
+      );
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approve", "b", functionData("approve_request"))), ctx);
+    await ctx.settle();
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].method, "functions.completeSuccess");
+    assert.include(apiCalls[0].body, "Fx111");
+    assert.include(apiCalls[0].body, "U222");
+  });
+
+  test("ignores the actions originating from other functions or messages", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app
+      .function("approve_request", async () => {})
+      .action("approve", async () => {
+        calls.push("function");
+      });
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approve", "b", functionData("other_function"))));
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approve")));
+    assert.deepEqual(calls, []);
+
+    app.action("approve", async () => {
+      calls.push("app");
+    });
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approve")));
+    assert.deepEqual(calls, ["app"]);
+  });
+
+  test("routes the view submissions originating from the function", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app
+      .function("approve_request", async () => {})
+      .view("reason_modal", async ({ context, payload }) => {
+        assert.equal(payload.type, "view_submission");
+        await context.fail({ error: "Rejected" });
+      })
+      .function("other_function", async () => {})
+      .command("/approve", async () => "ok");
+    const response = await app.run(
+      await createSignedRequest(signingSecret, viewSubmissionBody("reason_modal", functionData("approve_request"))),
+    );
+    assert.equal(response.status, 200);
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].method, "functions.completeError");
+    assert.equal(new URLSearchParams(apiCalls[0].body).get("error"), "Rejected");
+
+    await app.run(await createSignedRequest(signingSecret, viewSubmissionBody("reason_modal")));
+    assert.equal(apiCalls.length, 1);
+    const commandResponse = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/approve")));
+    assert.equal(await commandResponse.text(), "ok");
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, assert, beforeEach, test, describe, vi } from "vitest";
+import { SlackApp, SlackEdgeAppEnv } from "../src/index";
+import { CollectingExecutionContext, createSignedRequest, eventBody, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const functionExecutedEvent = {
+  type: "function_executed",
+  function: {
+    id: "Fn111",
+    callback_id: "sample_function",
+    title: "Sample function",
+    type: "app",
+    input_parameters: [],
+    output_parameters: [],
+    app_id: "A111",
+    date_created: 1700000000,
+    date_updated: 1700000000,
+    date_deleted: 0,
+  },
+  inputs: { user_id: "U222" },
+  function_execution_id: "Fx111",
+  workflow_execution_id: "Wx111",
+  event_ts: "1700000000.000001",
+  bot_access_token: "xwfp-test",
+};
+
+describe("Custom function lifecycle", () => {
+  let apiCalls: { method: string; body: string }[] = [];
+  const warnings: string[] = [];
+
+  beforeEach(() => {
+    apiCalls = [];
+    warnings.length = 0;
+    vi.stubGlobal("fetch", async (request: Request) => {
+      apiCalls.push({ method: new URL(request.url).pathname.split("/").pop()!, body: await request.text() });
+      return new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+    vi.spyOn(console, "warn").mockImplementation((message: string) => {
+      warnings.push(message);
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  test("completes the function execution with outputs", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.function("sample_function", async ({ context, payload }) => {
+      await context.complete({ outputs: { user_id: payload.inputs.user_id } });
+    });
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(functionExecutedEvent)), ctx);
+    await ctx.settle();
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].method, "functions.completeSuccess");
+    assert.include(apiCalls[0].body, "Fx111");
+    assert.deepEqual(warnings, []);
+  });
+
+  test("reports the failure when the listener throws an exception", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize, autoFailFunctionExecution: true });
+    app.function("sample_function", async () => {
+      throw new Error("Something went wrong");
+    });
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(functionExecutedEvent)), ctx);
+    const results = await ctx.settle();
+    assert.equal(results[0].status, "rejected");
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].method, "functions.completeError");
+    assert.equal(new URLSearchParams(apiCalls[0].body).get("error"), "Something went wrong");
+  });
+
+  test("warns when the listener returns without completion", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.function("sample_function", async () => {});
+    app.function("sample_function", async ({ context }) => {
+      context.deferCompletion();
+    });
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(functionExecutedEvent)), ctx);
+    await ctx.settle();
+    assert.equal(apiCalls.length, 0);
+    assert.equal(warnings.length, 1);
+    assert.include(warnings[0], "sample_function");
+  });
+});
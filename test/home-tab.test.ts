@@ -0,0 +1,107 @@
+import { afterEach, assert, beforeEach, test, describe, vi } from "vitest";
+import { SlackApp, SlackEdgeAppEnv } from "../src/index";
+import { blockActionBody, CollectingExecutionContext, createSignedRequest, eventBody, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const appHomeOpened = (tab: "home" | "messages", published: boolean = true) => ({
+  type: "app_home_opened",
+  user: "U222",
+  channel: "D111",
+  tab,
+  view: published ? { type: "home", blocks: [] } : undefined,
+  event_ts: "1700000000.000001",
+});
+
+describe("App Home tab", () => {
+  let published: { userId: string; view: { blocks: { text: { text: string } }[] } }[] = [];
+
+  beforeEach(() => {
+    published = [];
+    vi.stubGlobal("fetch", async (request: Request) => {
+      const body = new URLSearchParams(await request.text());
+      published.push({ userId: body.get("user_id")!, view: JSON.parse(body.get("view")!) });
+      return new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const counterApp = () => {
+    let count = 0;
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.home(async ({ userId }) => ({
+      type: "home",
+      blocks: [{ type: "section", text: { type: "mrkdwn", text: `Hi <@${userId}>! count: ${count}` } }],
+    }));
+    app.action("increment", async ({ context }) => {
+      count++;
+      await context.refreshHome!();
+    });
+    return app;
+  };
+
+  test("publishes the view only when it changes", async () => {
+    const app = counterApp();
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(appHomeOpened("home"))), ctx);
+    await ctx.settle();
+    await app.run(await createSignedRequest(signingSecret, eventBody(appHomeOpened("home"))), ctx);
+    await ctx.settle();
+    assert.deepEqual(
+      published.map((p) => p.view.blocks[0].text.text),
+      ["Hi <@U222>! count: 0"],
+    );
+
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("increment")), ctx);
+    await ctx.settle();
+    assert.deepEqual(
+      published.map((p) => [p.userId, p.view.blocks[0].text.text]),
+      [
+        ["U222", "Hi <@U222>! count: 0"],
+        ["U222", "Hi <@U222>! count: 1"],
+      ],
+    );
+  });
+
+  test("publishes the view when the user has no Home tab yet", async () => {
+    const app = counterApp();
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(appHomeOpened("home"))), ctx);
+    await ctx.settle();
+    await app.run(await createSignedRequest(signingSecret, eventBody(appHomeOpened("home", false))), ctx);
+    await ctx.settle();
+    assert.equal(published.length, 2);
+  });
+
+  test("ignores the Messages tab", async () => {
+    const events: string[] = [];
+    const app = counterApp().event("app_home_opened", async ({ payload }) => {
+      events.push(payload.tab);
+    });
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(appHomeOpened("messages"))), ctx);
+    await ctx.settle();
+    assert.equal(published.length, 0);
+    assert.deepEqual(events, ["messages"]);
+  });
+
+  test("provides refreshHome() only when the app has the Home tab renderer", async () => {
+    const refreshHomeTypes: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.action("increment", async ({ context }) => {
+      refreshHomeTypes.push(typeof context.refreshHome);
+    });
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("increment")));
+    assert.deepEqual(refreshHomeTypes, ["undefined"]);
+  });
+
+  test("adds the Home tab to the app manifest", () => {
+    const manifest = counterApp().toManifest({ display_information: { name: "Test App" } });
+    assert.deepEqual(manifest.features?.app_home, { home_tab_enabled: true });
+    assert.deepEqual(manifest.settings?.event_subscriptions?.bot_events, ["app_home_opened"]);
+  });
+});
@@ -0,0 +1,207 @@
+import { afterEach, assert, beforeEach, test, describe, vi } from "vitest";
+import {
+  AuthorizeError,
+  Installation,
+  InstallationStoreQuery,
+  installationStoreAuthorize,
+  KVInstallationStore,
+  MemoryKVStore,
+  PreAuthorizeSlackMiddlewareRequest,
+  SlackOAuthEnv,
+} from "../src/index";
+
+const env: SlackOAuthEnv = {
+  SLACK_CLIENT_ID: "111.222",
+  SLACK_CLIENT_SECRET: "xxx",
+  SLACK_BOT_SCOPES: "commands,chat:write",
+  SLACK_SIGNING_SECRET: "test",
+};
+
+const orgInstallation: Installation = {
+  app_id: "A111",
+  enterprise_id: "E111",
+  is_enterprise_install: true,
+  user_id: "U111",
+  bot_token: "xoxb-org",
+  bot_scopes: ["commands"],
+  user_token: "xoxp-installer",
+  user_scopes: ["search:read"],
+};
+
+const queries: InstallationStoreQuery[] = [];
+const store = {
+  // deno-lint-ignore require-await
+  save: async () => {},
+  // deno-lint-ignore require-await
+  findBotInstallation: async (query: InstallationStoreQuery) => {
+    queries.push(query);
+    return query.isEnterpriseInstall ? orgInstallation : undefined;
+  },
+  // deno-lint-ignore require-await
+  findUserInstallation: async (query: InstallationStoreQuery) => {
+    queries.push(query);
+    return query.userId === "U222"
+      ? { ...orgInstallation, user_id: "U222", user_token: "xoxp-actor", user_scopes: ["chat:write"] }
+      : undefined;
+  },
+};
+
+const authorizeRequest = (env: SlackOAuthEnv, context: object) =>
+  ({ env, context, body: {}, rawBody: "", headers: new Headers() }) as unknown as PreAuthorizeSlackMiddlewareRequest<SlackOAuthEnv>;
+
+describe("installationStoreAuthorize", () => {
+  beforeEach(() => {
+    queries.length = 0;
+    vi.stubGlobal("fetch", async () => {
+      const body = { ok: true, bot_id: "B111", user_id: "UB111", enterprise_id: "E111", team_id: "T111" };
+      return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("falls back to the org-wide installation and uses the installer's user token", async () => {
+    const authorize = installationStoreAuthorize(store);
+    const result = await authorize(authorizeRequest(env, { enterpriseId: "E111", teamId: "T111", actorUserId: "U222" }));
+    assert.deepEqual(queries, [
+      { enterpriseId: "E111", teamId: "T111", isEnterpriseInstall: undefined },
+      { enterpriseId: "E111", teamId: "T111", isEnterpriseInstall: true },
+    ]);
+    assert.equal(result.botToken, "xoxb-org");
+    assert.equal(result.botId, "B111");
+    assert.deepEqual(result.botScopes, ["commands"]);
+    assert.equal(result.userId, "U111");
+    assert.equal(result.userToken, "xoxp-installer");
+    assert.deepEqual(result.userScopes, ["search:read"]);
+  });
+
+  test("uses the acting user's token when SLACK_USER_TOKEN_RESOLUTION is actor", async () => {
+    const authorize = installationStoreAuthorize(store);
+    const actorEnv: SlackOAuthEnv = { ...env, SLACK_USER_TOKEN_RESOLUTION: "actor" };
+    const context = { enterpriseId: "E111", teamId: "T111", isEnterpriseInstall: true, userId: "U111", actorUserId: "U222" };
+    const result = await authorize(authorizeRequest(actorEnv, context));
+    assert.equal(result.userId, "U222");
+    assert.equal(result.userToken, "xoxp-actor");
+    assert.deepEqual(result.userScopes, ["chat:write"]);
+
+    const noActor = await authorize(authorizeRequest(actorEnv, { ...context, actorUserId: "U999" }));
+    assert.equal(noActor.botToken, "xoxb-org");
+    assert.isUndefined(noActor.userToken);
+  });
+
+  test("fails when no installation is found", async () => {
+    const authorize = installationStoreAuthorize(store);
+    try {
+      await authorize(authorizeRequest(env, { teamId: "T111" }));
+      assert.fail("The authorize function must fail");
+    } catch (e) {
+      assert.include((e as Error).message, "No installation found");
+    }
+  });
+});
+
+describe("installationStoreAuthorize with token rotation", () => {
+  const expiringInstallation = (expiresIn: number): Installation => ({
+    app_id: "A111",
+    team_id: "T111",
+    user_id: "U111",
+    bot_token: "xoxe.xoxb-1",
+    bot_refresh_token: "xoxe-1-bot",
+    bot_token_expires_at: new Date().getTime() / 1000 + expiresIn,
+    user_token: "xoxe.xoxp-1",
+    user_refresh_token: "xoxe-1-user",
+    user_token_expires_at: new Date().getTime() / 1000 + expiresIn,
+  });
+  let refreshTokens: string[] = [];
+
+  beforeEach(() => {
+    refreshTokens = [];
+    vi.stubGlobal("fetch", async (request: Request) => {
+      let body: object = { ok: true, bot_id: "B111", user_id: "UB111", team_id: "T111" };
+      if (request.url.endsWith("/oauth.v2.access")) {
+        const refreshToken = new URLSearchParams(await request.text()).get("refresh_token")!;
+        refreshTokens.push(refreshToken);
+        if (refreshToken.startsWith("xoxe-1")) {
+          body = { ok: true, access_token: `xoxe.${refreshToken}-2`, refresh_token: `${refreshToken}-2`, expires_in: 43200 };
+        } else if (refreshToken === "xoxe-no-tokens") {
+          body = { ok: true };
+        } else {
+          body = { ok: false, error: "invalid_refresh_token" };
+        }
+      }
+      return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("refreshes the tokens expiring within the window only once and saves them", async () => {
+    const store = new KVInstallationStore(env, new MemoryKVStore());
+    await store.save(expiringInstallation(600));
+    const authorize = installationStoreAuthorize(store, { tokenRotationWindowSeconds: 1200 });
+    const request = authorizeRequest(env, { teamId: "T111" });
+    const [first, second] = await Promise.all([authorize(request), authorize(request)]);
+    assert.deepEqual(refreshTokens, ["xoxe-1-bot", "xoxe-1-user"]);
+    assert.equal(first.botToken, "xoxe.xoxe-1-bot-2");
+    assert.equal(second.userToken, "xoxe.xoxe-1-user-2");
+
+    const saved = await store.findBotInstallation({ teamId: "T111" });
+    assert.equal(saved?.bot_refresh_token, "xoxe-1-bot-2");
+    assert.equal(saved?.user_refresh_token, "xoxe-1-user-2");
+    assert.isAbove(saved!.bot_token_expires_at!, new Date().getTime() / 1000 + 43000);
+
+    await authorize(request);
+    assert.equal(refreshTokens.length, 2);
+  });
+
+  test("does not refresh the tokens that expire later than the window", async () => {
+    const store = new KVInstallationStore(env, new MemoryKVStore());
+    await store.save(expiringInstallation(3 * 60 * 60));
+    const result = await installationStoreAuthorize(store)(authorizeRequest(env, { teamId: "T111" }));
+    assert.deepEqual(refreshTokens, []);
+    assert.equal(result.botToken, "xoxe.xoxb-1");
+  });
+
+  test("fails with the reason when a refresh fails", async () => {
+    const store = new KVInstallationStore(env, new MemoryKVStore());
+    await store.save({ ...expiringInstallation(60), bot_refresh_token: "xoxe-revoked" });
+    const error = await authorizeError(installationStoreAuthorize(store)(authorizeRequest(env, { teamId: "T111" })));
+    assert.equal(error.reason, "refresh_failed");
+    assert.include(error.message, "Failed to refresh the bot token");
+    assert.include(error.message, "invalid_refresh_token");
+  });
+
+  test("fails with the reason when a refresh response has no tokens", async () => {
+    const store = new KVInstallationStore(env, new MemoryKVStore());
+    await store.save({ ...expiringInstallation(60), bot_refresh_token: "xoxe-no-tokens" });
+    const error = await authorizeError(installationStoreAuthorize(store)(authorizeRequest(env, { teamId: "T111" })));
+    assert.equal(error.reason, "refresh_response_invalid");
+    assert.include(error.message, "without tokens");
+  });
+
+  test("fails with the reason when the refreshed installation cannot be saved", async () => {
+    const store = new KVInstallationStore(env, new MemoryKVStore());
+    await store.save(expiringInstallation(60));
+    // deno-lint-ignore require-await
+    store.save = async () => {
+      throw new Error("the database is down");
+    };
+    const error = await authorizeError(installationStoreAuthorize(store)(authorizeRequest(env, { teamId: "T111" })));
+    assert.equal(error.reason, "save_failed");
+    assert.include(error.message, "the database is down");
+  });
+});
+
+async function authorizeError(promise: Promise<unknown>): Promise<AuthorizeError> {
+  try {
+    await promise;
+  } catch (e) {
+    assert.instanceOf(e, AuthorizeError);
+    return e as AuthorizeError;
+  }
+  assert.fail("The authorize function must fail");
+}
@@ -0,0 +1,229 @@
+import { afterEach, assert, beforeEach, test, describe, vi } from "vitest";
+import {
+  CloudflareKVNamespace,
+  CloudflareKVStore,
+  DenoKv,
+  DenoKvKey,
+  DenoKVStore,
+  Installation,
+  KVAssistantThreadContextStore,
+  KVInstallationStore,
+  KVStateStore,
+  MemoryKVStore,
+  PreAuthorizeSlackMiddlewareRequest,
+  SlackOAuthEnv,
+} from "../src/index";
+
+const env: SlackOAuthEnv = {
+  SLACK_CLIENT_ID: "111.222",
+  SLACK_CLIENT_SECRET: "xxx",
+  SLACK_BOT_SCOPES: "commands,chat:write",
+  SLACK_SIGNING_SECRET: "test",
+};
+
+const installation = (overrides: Partial<Installation> = {}): Installation => ({
+  app_id: "A111",
+  enterprise_id: "E111",
+  team_id: "T111",
+  user_id: "U111",
+  bot_token: "xoxb-1",
+  bot_user_id: "UB111",
+  bot_scopes: ["commands", "chat:write"],
+  user_token: "xoxp-1",
+  user_scopes: ["search:read"],
+  ...overrides,
+});
+
+const authorizeRequest = (context: object) =>
+  ({ env, context, body: {}, rawBody: "", headers: new Headers() }) as unknown as PreAuthorizeSlackMiddlewareRequest<SlackOAuthEnv>;
+
+describe("KVInstallationStore", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", async () => {
+      const body = { ok: true, bot_id: "B111", user_id: "UB111", team_id: "T111", enterprise_id: "E111", team: "Example" };
+      return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("finds the latest bot and user installations per team", async () => {
+    const store = new KVInstallationStore(env, new MemoryKVStore());
+    await store.save(installation());
+    await store.save(installation({ user_id: "U222", bot_token: "xoxb-2", user_token: "xoxp-2" }));
+    await store.save(installation({ user_id: "U333", bot_token: undefined, user_token: "xoxp-3" }));
+    await store.save(installation({ team_id: "T999", bot_token: "xoxb-other" }));
+
+    assert.equal((await store.findBotInstallation({ enterpriseId: "E111", teamId: "T111" }))?.bot_token, "xoxb-2");
+    assert.equal((await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111", userId: "U111" }))?.user_token, "xoxp-1");
+    assert.equal((await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111" }))?.user_token, "xoxp-3");
+    assert.isUndefined(await store.findBotInstallation({ teamId: "T111" }));
+
+    await store.deleteUserInstallation({ enterpriseId: "E111", teamId: "T111", userId: "U333" });
+    assert.isUndefined(await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111", userId: "U333" }));
+    assert.isUndefined(await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111" }));
+    await store.deleteBotInstallation({ enterpriseId: "E111", teamId: "T111" });
+    assert.isUndefined(await store.findBotInstallation({ enterpriseId: "E111", teamId: "T111" }));
+    assert.equal((await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111", userId: "U222" }))?.user_token, "xoxp-2");
+    await store.deleteAll({ enterpriseId: "E111", teamId: "T111" });
+    assert.isUndefined(await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111", userId: "U222" }));
+    assert.equal((await store.findBotInstallation({ enterpriseId: "E111", teamId: "T999" }))?.bot_token, "xoxb-other");
+  });
+
+  test("handles org-wide installations and resolves user tokens", async () => {
+    const store = new KVInstallationStore(env, new MemoryKVStore());
+    await store.save(installation({ is_enterprise_install: true, team_id: undefined, bot_token: "xoxb-org" }));
+    await store.save(installation({ is_enterprise_install: true, team_id: undefined, user_id: "U222", user_token: "xoxp-2" }));
+    assert.isUndefined(await store.findBotInstallation({ enterpriseId: "E111", teamId: "T123" }));
+
+    const context = { enterpriseId: "E111", teamId: "T123", userId: "U111", actorUserId: "U111", isEnterpriseInstall: true };
+    const installer = await store.toAuthorize()(authorizeRequest(context));
+    assert.equal(installer.botToken, "xoxb-1");
+    assert.equal(installer.botId, "B111");
+    assert.equal(installer.userToken, "xoxp-2");
+
+    const actorEnv: SlackOAuthEnv = { ...env, SLACK_USER_TOKEN_RESOLUTION: "actor" };
+    const actor = await store.toAuthorize()({ ...authorizeRequest(context), env: actorEnv });
+    assert.equal(actor.userId, "U111");
+    assert.equal(actor.userToken, "xoxp-1");
+
+    await store.deleteAll({ enterpriseId: "E111", isEnterpriseInstall: true });
+    try {
+      await store.toAuthorize()(authorizeRequest(context));
+      assert.fail("The authorize function must fail");
+    } catch (e) {
+      assert.include((e as Error).message, "No installation found");
+    }
+  });
+});
+
+describe("KVStateStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("accepts a state only once and before it expires", async () => {
+    vi.useFakeTimers();
+    const store = new KVStateStore(new MemoryKVStore(), { ttlSeconds: 60 });
+    const state = await store.issueNewState();
+    assert.isTrue(await store.consume(state));
+    assert.isFalse(await store.consume(state));
+    assert.isFalse(await store.consume("unknown"));
+
+    const expired = await store.issueNewState();
+    vi.advanceTimersByTime(61_000);
+    assert.isFalse(await store.consume(expired));
+  });
+
+  test("accepts only one of concurrent requests with the same state", async () => {
+    const store = new KVStateStore(new MemoryKVStore());
+    const state = await store.issueNewState();
+    const results = await Promise.all([store.consume(state), store.consume(state), store.consume(state)]);
+    assert.deepEqual(results.filter((r) => r).length, 1);
+  });
+});
+
+describe("KVAssistantThreadContextStore", () => {
+  test("saves and finds thread context", async () => {
+    const store = new KVAssistantThreadContextStore(new MemoryKVStore());
+    const key = { channel_id: "D111", thread_ts: "1111.2222" };
+    assert.isUndefined(await store.find(key));
+    await store.save(key, { channel_id: "C111", team_id: "T111", enterprise_id: null });
+    assert.deepEqual(await store.find(key), { channel_id: "C111", team_id: "T111", enterprise_id: null });
+  });
+});
+
+describe("KVStore adapters", () => {
+  test("CloudflareKVStore paginates list() and enforces the minimum TTL", async () => {
+    const entries = new Map<string, string>();
+    const ttls: (number | undefined)[] = [];
+    const namespace: CloudflareKVNamespace = {
+      get: async (key) => entries.get(key) ?? null,
+      put: async (key, value, options) => {
+        entries.set(key, value);
+        ttls.push(options?.expirationTtl);
+      },
+      delete: async (key) => {
+        entries.delete(key);
+      },
+      list: async ({ prefix = "", cursor } = {}) => {
+        const names = [...entries.keys()].filter((k) => k.startsWith(prefix));
+        const start = Number(cursor ?? 0);
+        const page = names.slice(start, start + 2).map((name) => ({ name }));
+        const done = start + 2 >= names.length;
+        return { keys: page, list_complete: done, cursor: done ? undefined : String(start + 2) };
+      },
+    };
+    const kv = new CloudflareKVStore(namespace);
+    for (const key of ["a:1", "a:2", "a:3", "b:1"]) {
+      await kv.put(key, key, { ttlSeconds: 10 });
+    }
+    await kv.put("c:1", "c");
+    assert.deepEqual(await kv.list("a:"), ["a:1", "a:2", "a:3"]);
+    assert.deepEqual(ttls, [60, 60, 60, 60, undefined]);
+    await kv.delete("a:1");
+    assert.isUndefined(await kv.get("a:1"));
+    assert.equal(await kv.get("a:2"), "a:2");
+  });
+
+  test("DenoKVStore maps keys to key parts", async () => {
+    const entries = new Map<string, { key: DenoKvKey; value: unknown; versionstamp: string }>();
+    let version = 0;
+    const kv: DenoKv = {
+      get: async (key) => {
+        const entry = entries.get(JSON.stringify(key));
+        return { value: entry?.value ?? null, versionstamp: entry?.versionstamp ?? null };
+      },
+      set: async (key, value) => entries.set(JSON.stringify(key), { key, value, versionstamp: String(++version) }),
+      delete: async (key) => {
+        entries.delete(JSON.stringify(key));
+      },
+      list: async function* ({ prefix }) {
+        for (const { key } of entries.values()) {
+          if (prefix.every((part, i) => key[i] === part)) {
+            yield { key };
+          }
+        }
+      },
+      atomic: () => {
+        const checks: { key: DenoKvKey; versionstamp: string | null }[] = [];
+        const deletes: DenoKvKey[] = [];
+        const operation = {
+          check: (...c: { key: DenoKvKey; versionstamp: string | null }[]) => {
+            checks.push(...c);
+            return operation;
+          },
+          delete: (key: DenoKvKey) => {
+            deletes.push(key);
+            return operation;
+          },
+          commit: async () => {
+            if (checks.some((c) => (entries.get(JSON.stringify(c.key))?.versionstamp ?? null) !== c.versionstamp)) {
+              return { ok: false };
+            }
+            for (const key of deletes) {
+              entries.delete(JSON.stringify(key));
+            }
+            return { ok: true };
+          },
+        };
+        return operation;
+      },
+    };
+    const store = new DenoKVStore(kv);
+    await store.put("slack-edge:state:abc", "1");
+    await store.put("slack-edge:state:abd", "2");
+    await store.put("slack-edge:other:abc", "3");
+    assert.isTrue(entries.has(JSON.stringify(["slack-edge", "state", "abc"])));
+    assert.equal(await store.get("slack-edge:state:abc"), "1");
+    assert.deepEqual(await store.list("slack-edge:state:ab"), ["slack-edge:state:abc", "slack-edge:state:abd"]);
+    await store.delete("slack-edge:state:abc");
+    assert.isUndefined(await store.get("slack-edge:state:abc"));
+
+    const consumed = await Promise.all([store.getAndDelete("slack-edge:state:abd"), store.getAndDelete("slack-edge:state:abd")]);
+    assert.deepEqual(consumed, ["2", undefined]);
+    assert.isUndefined(await store.get("slack-edge:state:abd"));
+  });
+});
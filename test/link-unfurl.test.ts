@@ -0,0 +1,169 @@
+import { afterEach, assert, beforeEach, test, describe, vi } from "vitest";
+import { SlackApp, SlackEdgeAppEnv } from "../src/index";
+import { CollectingExecutionContext, createSignedRequest, eventBody, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const linkShared = (urls: string[], extra: object = {}) => ({
+  type: "link_shared",
+  channel: "C111",
+  is_bot_user_member: true,
+  user: "U222",
+  message_ts: "1700000000.000100",
+  links: urls.map((url) => ({ domain: new URL(url).hostname.replace(/^www\./, ""), url })),
+  event_ts: "1700000000.000200",
+  ...extra,
+});
+
+describe("Link unfurling", () => {
+  let apiCalls: URLSearchParams[] = [];
+
+  beforeEach(() => {
+    apiCalls = [];
+    vi.stubGlobal("fetch", async (request: Request) => {
+      apiCalls.push(new URLSearchParams(await request.text()));
+      return new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("unfurls the links grouped by the matching handler", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.unfurl(/^https:\/\/example\.com\/issues\/(\d+)$/, async ({ matches }) => ({ text: `Issue #${matches?.[1]}` }));
+    app.unfurl("example.com", async ({ link }) => ({ blocks: [{ type: "section", text: { type: "mrkdwn", text: link.url } }] }));
+    const ctx = new CollectingExecutionContext();
+    const event = linkShared([
+      "https://example.com/issues/1",
+      "https://docs.example.com/a",
+      "https://example.com/issues/2",
+      "https://other.com/",
+    ]);
+    await app.run(await createSignedRequest(signingSecret, eventBody(event)), ctx);
+    await ctx.settle();
+
+    assert.equal(apiCalls.length, 2);
+    assert.deepEqual(
+      apiCalls.map((c) => [c.get("channel"), c.get("ts")]),
+      [
+        ["C111", "1700000000.000100"],
+        ["C111", "1700000000.000100"],
+      ],
+    );
+    assert.deepEqual(JSON.parse(apiCalls[0].get("unfurls")!), {
+      "https://example.com/issues/1": { text: "Issue #1" },
+      "https://example.com/issues/2": { text: "Issue #2" },
+    });
+    assert.deepEqual(JSON.parse(apiCalls[1].get("unfurls")!), {
+      "https://docs.example.com/a": { blocks: [{ type: "section", text: { type: "mrkdwn", text: "https://docs.example.com/a" } }] },
+    });
+  });
+
+  test("unfurls the other links when a handler fails", async () => {
+    const errors: Error[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.unfurl("example.com", async ({ link }) => {
+      if (link.url.endsWith("/broken")) {
+        throw new Error("broken link");
+      }
+      return { text: link.url };
+    });
+    app.error(async ({ error }) => {
+      errors.push(error);
+    });
+    const ctx = new CollectingExecutionContext();
+    const event = linkShared(["https://example.com/broken", "https://example.com/ok"], { unfurl_id: "U111.222", source: "composer" });
+    await app.run(await createSignedRequest(signingSecret, eventBody(event)), ctx);
+    await ctx.settle();
+
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].get("unfurl_id"), "U111.222");
+    assert.equal(apiCalls[0].get("source"), "composer");
+    assert.deepEqual(JSON.parse(apiCalls[0].get("unfurls")!), { "https://example.com/ok": { text: "https://example.com/ok" } });
+    assert.deepEqual(
+      errors.map((e) => e.message),
+      ["broken link"],
+    );
+  });
+
+  test("reports each failure to the error handler and makes the other API calls", async () => {
+    vi.stubGlobal("fetch", async (request: Request) => {
+      const params = new URLSearchParams(await request.text());
+      apiCalls.push(params);
+      const body = params.has("unfurls") ? { ok: false, error: "cannot_unfurl_url" } : { ok: true };
+      return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+    const errors: Error[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.unfurl("example.com", async ({ link }) => {
+      if (link.url.endsWith("/broken")) {
+        throw new Error("broken link");
+      }
+      return link.url.endsWith("/private") ? { user_auth_required: true } : { text: link.url };
+    });
+    app.error(async ({ error }) => {
+      errors.push(error);
+    });
+    const ctx = new CollectingExecutionContext();
+    const event = linkShared(["https://example.com/broken", "https://example.com/ok", "https://example.com/private"]);
+    await app.run(await createSignedRequest(signingSecret, eventBody(event)), ctx);
+    await ctx.settle();
+
+    assert.deepEqual(
+      apiCalls.map((c) => (c.has("unfurls") ? "unfurls" : "user_auth_required")),
+      ["unfurls", "user_auth_required"],
+    );
+    assert.equal(errors.length, 2);
+    assert.equal(errors[0].message, "broken link");
+    assert.include(errors[1].message, "cannot_unfurl_url");
+  });
+
+  test("reports every failure even when the error handler throws", async () => {
+    const errors: Error[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.unfurl("example.com", async ({ link }) => {
+      throw new Error(`broken link: ${link.url}`);
+    });
+    app.error(async ({ error }) => {
+      errors.push(error);
+      throw new Error("the error tracker is down");
+    });
+    const ctx = new CollectingExecutionContext();
+    const event = linkShared(["https://example.com/a", "https://example.com/b"]);
+    await app.run(await createSignedRequest(signingSecret, eventBody(event)), ctx);
+    const results = await ctx.settle();
+
+    assert.deepEqual(
+      errors.map((e) => e.message),
+      // the first error thrown by the error handler fails the lazy listener, which is reported as well
+      ["broken link: https://example.com/a", "broken link: https://example.com/b", "the error tracker is down"],
+    );
+    assert.isTrue(results.some((r) => r.status === "rejected" && (r.reason as Error).message === "the error tracker is down"));
+  });
+
+  test("asks the user to connect their account", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.unfurl("example.com", async () => ({ user_auth_required: true, user_auth_url: "https://example.com/connect" }));
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(linkShared(["https://example.com/private"]))), ctx);
+    await ctx.settle();
+
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].get("user_auth_required"), "true");
+    assert.equal(apiCalls[0].get("user_auth_url"), "https://example.com/connect");
+    assert.isNull(apiCalls[0].get("unfurls"));
+  });
+
+  test("adds the unfurl domains and scopes to the app manifest", () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize })
+      .unfurl("example.com", async () => undefined)
+      .unfurl(/^https:\/\/example\.org\//, async () => undefined);
+    const manifest = app.toManifest({ display_information: { name: "Test App" } });
+    assert.deepEqual(manifest.features?.unfurl_domains, ["example.com"]);
+    assert.deepEqual(manifest.settings?.event_subscriptions?.bot_events, ["link_shared"]);
+    assert.deepEqual(manifest.oauth_config?.scopes?.bot, ["links:read", "links:write"]);
+  });
+});
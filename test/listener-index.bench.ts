@@ -0,0 +1,38 @@
+import { bench, describe } from "vitest";
+import { SlackRequestBody } from "../src/request/request-body";
+import { ListenerIndex, ListenerMatcher } from "../src/utility/listener-index";
+import { blockActionBody } from "./request-helpers";
+
+// Run with "npm run bench"; test/listener-index.test.ts checks which matchers a lookup evaluates
+const listenerCount = 2000;
+
+const actionIdMatcher =
+  (actionId: string, name: string): ListenerMatcher<string> =>
+  (body) =>
+    body.actions[0].action_id === actionId ? name : null;
+
+const index = new ListenerIndex<string>();
+const linear: ListenerMatcher<string>[] = [];
+for (let i = 0; i < listenerCount; i++) {
+  const matcher = actionIdMatcher(`action-${i}`, `listener-${i}`);
+  index.add(`action-${i}`, matcher);
+  linear.push(matcher);
+}
+const last = blockActionBody(`action-${listenerCount - 1}`) as SlackRequestBody;
+
+describe(`Dispatching to the last of ${listenerCount} action listeners`, () => {
+  bench("ListenerIndex", () => {
+    if (index.find(last.actions[0].action_id, last) === null) {
+      throw new Error("No listener found");
+    }
+  });
+
+  bench("linear scan", () => {
+    for (const matcher of linear) {
+      if (matcher(last)) {
+        return;
+      }
+    }
+    throw new Error("No listener found");
+  });
+});
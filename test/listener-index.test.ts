@@ -0,0 +1,76 @@
+import { assert, test, describe } from "vitest";
+import { SlackApp, SlackEdgeAppEnv } from "../src/index";
+import { SlackRequestBody } from "../src/request/request-body";
+import { ListenerIndex, ListenerMatcher } from "../src/utility/listener-index";
+import { blockActionBody, createSignedRequest, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const actionIdMatcher =
+  (constraint: string | RegExp, name: string): ListenerMatcher<string> =>
+  (body) => {
+    const actionId: string = body.actions[0].action_id;
+    const matched = typeof constraint === "string" ? actionId === constraint : constraint.test(actionId);
+    return matched ? name : null;
+  };
+
+describe("ListenerIndex", () => {
+  test("preserves the registration order across exact-match and fallback matchers", () => {
+    const index = new ListenerIndex<string>();
+    index.add("a", actionIdMatcher("a", "first"));
+    index.add(undefined, actionIdMatcher(/^a/, "regexp"));
+    index.add("a", actionIdMatcher("a", "second"));
+    index.add("b", actionIdMatcher("b", "other"));
+
+    const body = blockActionBody("a") as SlackRequestBody;
+    assert.equal(index.find("a", body), "first");
+    assert.deepEqual(index.findAll("a", body), ["first", "regexp", "second"]);
+    assert.isNull(index.find("c", blockActionBody("c") as SlackRequestBody));
+  });
+
+  test("dispatches to the first registered listener in the app", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.action(/^approve-/, async () => {
+      calls.push("regexp");
+    });
+    app.action("approve-1", async () => {
+      calls.push("exact");
+    });
+    app.action("approve-2", async () => {
+      calls.push("exact");
+    });
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approve-2")));
+    assert.deepEqual(calls, ["regexp"]);
+  });
+
+  test("evaluates only the matchers registered for the key and the fallback ones", () => {
+    const listenerCount = 2000;
+    const evaluated: string[] = [];
+    const index = new ListenerIndex<string>();
+    for (let i = 0; i < listenerCount; i++) {
+      const matcher = actionIdMatcher(`action-${i}`, `listener-${i}`);
+      index.add(`action-${i}`, (body) => {
+        evaluated.push(`listener-${i}`);
+        return matcher(body);
+      });
+    }
+    index.add(undefined, (body) => {
+      evaluated.push("fallback");
+      return actionIdMatcher(/^action-/, "fallback")(body);
+    });
+
+    const last = blockActionBody(`action-${listenerCount - 1}`) as SlackRequestBody;
+    assert.equal(index.find(`action-${listenerCount - 1}`, last), `listener-${listenerCount - 1}`);
+    assert.deepEqual(evaluated, [`listener-${listenerCount - 1}`]);
+
+    evaluated.length = 0;
+    assert.deepEqual(index.findAll(`action-${listenerCount - 1}`, last), [`listener-${listenerCount - 1}`, "fallback"]);
+    assert.deepEqual(evaluated, [`listener-${listenerCount - 1}`, "fallback"]);
+
+    evaluated.length = 0;
+    assert.equal(index.find("action-unknown", blockActionBody("action-unknown") as SlackRequestBody), "fallback");
+    assert.deepEqual(evaluated, ["fallback"]);
+  });
+});
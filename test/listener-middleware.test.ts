@@ -0,0 +1,105 @@
+import { assert, test, describe } from "vitest";
+import { ListenerMiddleware, SlackApp, SlackEdgeAppEnv } from "../src/index";
+import {
+  blockActionBody,
+  createSignedFormRequest,
+  createSignedRequest,
+  eventBody,
+  mockAuthorize,
+  slashCommandParams,
+} from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const requireAdmin: ListenerMiddleware = async ({ context }) => {
+  if (context.userId !== "U_ADMIN") {
+    return { status: 200, body: { response_type: "ephemeral", text: "Only admins can run this command" } };
+  }
+};
+
+describe("Listener middleware", () => {
+  test("short-circuits a slash command listener", async () => {
+    const calls: string[] = [];
+    const auditLog: ListenerMiddleware = async ({ body }) => {
+      calls.push(`audit:${body.command}`);
+    };
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.command("/deploy", [auditLog, requireAdmin], async ({ payload }) => {
+      calls.push(`ack:${payload.text}`);
+      return "Deploying!";
+    });
+    app.command("/help", [auditLog], async () => {
+      calls.push("help");
+      return "Help!";
+    });
+
+    const denied = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/deploy", "prod")));
+    assert.deepEqual(await denied.json(), { response_type: "ephemeral", text: "Only admins can run this command" });
+    assert.deepEqual(calls, ["audit:/deploy"]);
+
+    const help = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/help")));
+    assert.equal(await help.text(), "Help!");
+    assert.deepEqual(calls, ["audit:/deploy", "audit:/help", "help"]);
+  });
+
+  test("runs only for the matched listener with the options object", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.action(
+      { type: "button", action_id: "approve" },
+      {
+        middleware: [
+          async ({ context }) => {
+            calls.push("approve-middleware");
+            context.custom.approved = true;
+          },
+        ],
+      },
+      async ({ context }) => {
+        calls.push(`approve:${context.custom.approved}`);
+      },
+    );
+    app.action("reject", async ({ context }) => {
+      calls.push(`reject:${context.custom.approved}`);
+    });
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("reject")));
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approve")));
+    assert.deepEqual(calls, ["reject:undefined", "approve-middleware", "approve:true"]);
+  });
+
+  test("skips only the event listener whose middleware returns a response", async () => {
+    const calls: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.event("app_mention", [async () => ({ status: 200 })], async () => {
+      calls.push("skipped");
+    });
+    app.event("app_mention", async () => {
+      calls.push("executed");
+    });
+    const response = await app.run(
+      await createSignedRequest(
+        signingSecret,
+        eventBody({ type: "app_mention", user: "U222", text: "<@U111> hi", ts: "111.222", channel: "C111", event_ts: "111.222" }),
+      ),
+    );
+    assert.equal(response.status, 200);
+    assert.deepEqual(calls, ["executed"]);
+  });
+
+  test("listener middleware errors are passed to the error handler", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.error(async ({ phase, listenerKind }) => ({ status: 200, body: `${phase}:${listenerKind}` }));
+    app.command(
+      "/deploy",
+      [
+        async () => {
+          throw new Error("rate limited");
+        },
+      ],
+      async () => "Deploying!",
+    );
+    const response = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/deploy")));
+    assert.equal(await response.text(), "middleware:command");
+  });
+});
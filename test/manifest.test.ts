@@ -0,0 +1,138 @@
+import { assert, test, describe } from "vitest";
+import {
+  Authorize,
+  defineFunction,
+  Installation,
+  InstallationStore,
+  InstallationStoreQuery,
+  ManifestParams,
+  SlackApp,
+  SlackEdgeAppEnv,
+  SlackOAuthApp,
+  SlackOAuthEnv,
+} from "../src/index";
+import { mockAuthorize } from "./request-helpers";
+
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: "test-signing-secret", SLACK_BOT_TOKEN: "xoxb-test" };
+
+const base: ManifestParams = {
+  display_information: { name: "Test App" },
+  features: {
+    bot_user: { display_name: "test-bot" },
+    slash_commands: [{ command: "/invoice", description: "Creates an invoice", usage_hint: "[amount]" }],
+  },
+  oauth_config: { scopes: { bot: ["chat:write"] } },
+};
+
+class NoopInstallationStore implements InstallationStore<SlackOAuthEnv> {
+  async save(_installation: Installation, _request: Request | undefined): Promise<void> {}
+  async findBotInstallation(_query: InstallationStoreQuery): Promise<Installation | undefined> {
+    return undefined;
+  }
+  async findUserInstallation(_query: InstallationStoreQuery): Promise<Installation | undefined> {
+    return undefined;
+  }
+  async deleteBotInstallation(_query: InstallationStoreQuery): Promise<void> {}
+  async deleteUserInstallation(_query: InstallationStoreQuery): Promise<void> {}
+  async deleteAll(_query: InstallationStoreQuery): Promise<void> {}
+  toAuthorize(): Authorize<SlackOAuthEnv> {
+    return mockAuthorize;
+  }
+}
+
+describe("App manifest generation", () => {
+  test("fills in the registered listeners", () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize, routes: { events: "/slack/events" } })
+      .command("/invoice", async () => "")
+      .command("/refund", async () => "")
+      .command(/^\/admin-.+$/, async () => "")
+      .globalShortcut("new_invoice", async () => {})
+      .event("app_mention", async () => {})
+      .event({ type: ["reaction_added", "reaction_removed"] }, async () => {})
+      .action("approve", async () => {})
+      .options("search", async () => ({ options: [] }));
+    const manifest = app.toManifest(base, { baseUrl: "https://example.com" });
+
+    assert.deepEqual(manifest.features?.slash_commands, [
+      { command: "/invoice", description: "Creates an invoice", usage_hint: "[amount]", url: "https://example.com/slack/events" },
+      { command: "/refund", description: "/refund", usage_hint: "", url: "https://example.com/slack/events", should_escape: false },
+    ]);
+    assert.deepEqual(manifest.features?.shortcuts, [
+      { name: "new_invoice", type: "global", callback_id: "new_invoice", description: "new_invoice" },
+    ]);
+    assert.deepEqual(manifest.settings?.event_subscriptions, {
+      bot_events: ["app_mention", "reaction_added", "reaction_removed"],
+      request_url: "https://example.com/slack/events",
+    });
+    assert.deepEqual(manifest.settings?.interactivity, {
+      is_enabled: true,
+      request_url: "https://example.com/slack/events",
+      message_menu_options_url: "https://example.com/slack/events",
+    });
+    assert.isFalse(manifest.settings?.socket_mode_enabled);
+    assert.deepEqual(manifest.oauth_config?.scopes?.bot, ["chat:write", "commands", "app_mentions:read", "reactions:read"]);
+    // the base manifest is not modified
+    assert.equal(base.features?.slash_commands?.length, 1);
+  });
+
+  test("skips the request URLs in Socket Mode and adds the functions", () => {
+    const sampleFunction = defineFunction({
+      callback_id: "sample_function",
+      title: "Sample function",
+      input_parameters: { properties: { user_id: { type: "slack#/types/user_id" } }, required: ["user_id"] },
+      output_parameters: { properties: {} },
+    });
+    const app = new SlackApp({ env: { ...env, SLACK_APP_TOKEN: "xapp-test" }, socketMode: true, authorize: mockAuthorize });
+    app.function(sampleFunction, async () => {});
+    app.message("hello", async () => {});
+    const manifest = app.toManifest({ display_information: { name: "Test App" } }, { baseUrl: "https://example.com" });
+
+    assert.isTrue(manifest.settings?.socket_mode_enabled);
+    assert.deepEqual(manifest.settings?.event_subscriptions, {
+      bot_events: ["function_executed", "message.channels", "message.groups", "message.im", "message.mpim"],
+    });
+    assert.isTrue(manifest.settings?.org_deploy_enabled);
+    assert.equal(manifest.settings?.function_runtime, "remote");
+    assert.deepEqual(Object.keys(manifest.functions ?? {}), ["sample_function"]);
+    assert.deepEqual(manifest.oauth_config?.scopes?.bot, ["channels:history", "groups:history", "im:history", "mpim:history"]);
+  });
+
+  test("adds the commands scope for message shortcuts", () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize }).messageShortcut("report_message", async () => {});
+    const manifest = app.toManifest({ display_information: { name: "Test App" } }, { baseUrl: "https://example.com" });
+    assert.deepEqual(manifest.features?.shortcuts, [
+      { name: "report_message", type: "message", callback_id: "report_message", description: "report_message" },
+    ]);
+    assert.deepEqual(manifest.oauth_config?.scopes?.bot, ["commands"]);
+  });
+
+  test("lists the differences from the current manifest", () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize }).command("/invoice", async () => "").event("app_mention", async () => {});
+    assert.deepEqual(app.diffManifest(base), [
+      'oauth_config.scopes.bot: missing "commands"',
+      'oauth_config.scopes.bot: missing "app_mentions:read"',
+      "settings: undefined -> " + JSON.stringify({ event_subscriptions: { bot_events: ["app_mention"] }, socket_mode_enabled: false }),
+    ]);
+    assert.deepEqual(app.diffManifest(app.toManifest(base)), []);
+  });
+
+  test("adds the OAuth redirect URLs and scopes", () => {
+    const app = new SlackOAuthApp({
+      env: {
+        SLACK_CLIENT_ID: "111.222",
+        SLACK_CLIENT_SECRET: "xxx",
+        SLACK_BOT_SCOPES: "commands, chat:write",
+        SLACK_USER_SCOPES: "search:read",
+        SLACK_SIGNING_SECRET: "test-signing-secret",
+      },
+      installationStore: new NoopInstallationStore(),
+    });
+    const manifest = app.toManifest({ display_information: { name: "Test App" } }, { baseUrl: "https://example.com" });
+    assert.deepEqual(manifest.oauth_config, {
+      scopes: { bot: ["commands", "chat:write"], user: ["search:read"] },
+      redirect_urls: ["https://example.com/slack/oauth_redirect"],
+    });
+    // the built-in token revocation listeners
+    assert.deepEqual(manifest.settings?.event_subscriptions?.bot_events, ["tokens_revoked", "app_uninstalled", "app_uninstalled_team"]);
+  });
+});
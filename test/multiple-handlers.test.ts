@@ -220,6 +220,7 @@ describe("Multiple Event Handlers", () => {
     assert.deepEqual(installationStore.deletedAll[0], {
       enterpriseId: "E111",
       teamId: "T111",
+      isEnterpriseInstall: undefined,
     });
   });
 
@@ -0,0 +1,79 @@
+import { assert, test, describe } from "vitest";
+import { SlackApp, SlackEdgeAppEnv } from "../src/index";
+import {
+  blockActionBody,
+  CollectingExecutionContext,
+  createSignedFormRequest,
+  createSignedRequest,
+  eventBody,
+  mockAuthorize,
+  slashCommandParams,
+} from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+describe("Regular expression matches", () => {
+  test("are available for slash command listeners", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.command(/^\/deploy-(?<environment>\w+)$/, async ({ matches }) => {
+      return `Deploying to ${matches?.groups?.environment}`;
+    });
+    const response = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/deploy-staging")));
+    assert.equal(await response.text(), "Deploying to staging");
+  });
+
+  test("are available for block action listeners", async () => {
+    const matched: (string | undefined)[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.action(/^approve-(\d+)$/, async ({ matches }) => {
+      matched.push(matches?.[1]);
+    });
+    app.action("reject", async ({ matches }) => {
+      matched.push(matches?.[0]);
+    });
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approve-123")));
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("reject")));
+    assert.deepEqual(matched, ["123", undefined]);
+  });
+
+  test("are typed with the named capture groups given as the type parameter", async () => {
+    const matched: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.command<{ environment: string; region?: string }>(/^\/deploy-(?<environment>\w+)(?:-(?<region>\w+))?$/, async ({ matches }) => {
+      // @ts-expect-error the pattern does not have this group
+      matched.push(matches?.groups?.version);
+      return `Deploying to ${matches?.groups?.environment} (${matches?.groups?.region ?? "default"})`;
+    });
+    app.action<{ id: string }>(/^approve-(?<id>\d+)$/, async ({ matches, payload }) => {
+      matched.push(`${payload.actions[0].action_id}:${matches?.groups?.id}`);
+    });
+    const response = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/deploy-staging")));
+    assert.equal(await response.text(), "Deploying to staging (default)");
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approve-123")));
+    assert.deepEqual(matched, [undefined, "approve-123:123"]);
+  });
+
+  test("are separately available for each message listener", async () => {
+    const matched: string[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.message<{ id: string }>(/ticket (?<id>\d+)/, async ({ matches }) => {
+      matched.push(`ticket:${matches?.groups?.id}`);
+    });
+    app.message(/(?<user>\w+) says/, async ({ matches }) => {
+      matched.push(`user:${matches?.groups?.user}`);
+    });
+    const ctx = new CollectingExecutionContext();
+    const event = {
+      type: "message",
+      user: "U222",
+      text: "Kaz says ticket 42 is done",
+      ts: "111.222",
+      channel: "C111",
+      channel_type: "channel",
+    };
+    await app.run(await createSignedRequest(signingSecret, eventBody(event)), ctx);
+    await ctx.settle();
+    assert.deepEqual(matched.sort(), ["ticket:42", "user:Kaz"]);
+  });
+});
@@ -0,0 +1,117 @@
+import { AuthorizeResult } from "../src/index";
+
+// Generates a valid Slack request signature
+export async function signRequest(signingSecret: string, timestamp: number, body: string): Promise<string> {
+  const textEncoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", textEncoder.encode(signingSecret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const signature = await crypto.subtle.sign("HMAC", key, textEncoder.encode(`v0:${timestamp}:${body}`));
+  const hexSignature = Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `v0=${hexSignature}`;
+}
+
+// Creates a valid signed request with a JSON body
+export async function createSignedRequest(signingSecret: string, body: object, headers: Record<string, string> = {}): Promise<Request> {
+  const bodyStr = JSON.stringify(body);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await signRequest(signingSecret, timestamp, bodyStr);
+  return new Request("https://example.com/slack/events", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-slack-request-timestamp": timestamp.toString(),
+      "x-slack-signature": signature,
+      ...headers,
+    },
+    body: bodyStr,
+  });
+}
+
+// Creates a valid signed request with a form-urlencoded body (e.g., slash commands)
+export async function createSignedFormRequest(signingSecret: string, params: Record<string, string>): Promise<Request> {
+  const bodyStr = new URLSearchParams(params).toString();
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await signRequest(signingSecret, timestamp, bodyStr);
+  return new Request("https://example.com/slack/events", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      "x-slack-request-timestamp": timestamp.toString(),
+      "x-slack-signature": signature,
+    },
+    body: bodyStr,
+  });
+}
+
+// authorize() function that does not call any Slack APIs
+export const mockAuthorize = async (): Promise<AuthorizeResult> => ({
+  enterpriseId: undefined,
+  teamId: "T111",
+  team: "T111",
+  botId: "B111",
+  botUserId: "U111",
+  botToken: "xoxb-test",
+  botScopes: [],
+});
+
+// ExecutionContext that collects the promises passed to waitUntil()
+export class CollectingExecutionContext {
+  promises: Promise<unknown>[] = [];
+  waitUntil(promise: Promise<unknown>): void {
+    this.promises.push(promise);
+  }
+  async settle(): Promise<PromiseSettledResult<unknown>[]> {
+    return await Promise.allSettled(this.promises);
+  }
+}
+
+export const slashCommandParams = (command: string, text: string = ""): Record<string, string> => ({
+  token: "test-token",
+  team_id: "T111",
+  team_domain: "example",
+  channel_id: "C111",
+  channel_name: "general",
+  user_id: "U222",
+  user_name: "someone",
+  command,
+  text,
+  api_app_id: "A111",
+  is_enterprise_install: "false",
+  response_url: "https://hooks.slack.com/commands/T111/111/xxx",
+  trigger_id: "111.222.xxx",
+});
+
+export const blockActionBody = (actionId: string, blockId: string = "b", extra: object = {}) => ({
+  type: "block_actions",
+  team: { id: "T111", domain: "example" },
+  user: { id: "U222", username: "someone", team_id: "T111" },
+  api_app_id: "A111",
+  token: "test-token",
+  trigger_id: "111.222.xxx",
+  channel: { id: "C111", name: "general" },
+  container: { type: "message", message_ts: "111.222", channel_id: "C111", is_ephemeral: false },
+  response_url: "https://hooks.slack.com/actions/T111/111/xxx",
+  actions: [
+    {
+      type: "button",
+      block_id: blockId,
+      action_id: actionId,
+      text: { type: "plain_text", text: "Click" },
+      value: "v",
+      action_ts: "1700000000.000001",
+    },
+  ],
+  ...extra,
+});
+
+export const eventBody = (event: object, extra: object = {}) => ({
+  type: "event_callback",
+  token: "test-token",
+  team_id: "T111",
+  api_app_id: "A111",
+  event,
+  event_id: "Ev111",
+  event_time: 1234567890,
+  ...extra,
+});
@@ -0,0 +1,111 @@
+import { assert, test, describe } from "vitest";
+import { ListenerMiddleware, prefixPattern, SlackApp, SlackEdgeAppEnv, SlackRouter } from "../src/index";
+import { blockActionBody, createSignedFormRequest, createSignedRequest, mockAuthorize, slashCommandParams } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+describe("SlackRouter", () => {
+  test("registers the listeners with the namespace prefix", async () => {
+    const calls: string[] = [];
+    const billing = new SlackRouter()
+      .command("/invoice", async () => "Creating an invoice...")
+      .action("approve", async () => {
+        calls.push("billing:approve");
+      });
+    const app = new SlackApp({ env, authorize: mockAuthorize }).mount(billing, { prefix: "billing:" });
+
+    const command = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/invoice")));
+    assert.equal(await command.text(), "Creating an invoice...");
+
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approve")));
+    assert.deepEqual(calls, []);
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("billing:approve")));
+    assert.deepEqual(calls, ["billing:approve"]);
+  });
+
+  test("applies the router middleware to its listeners only", async () => {
+    const calls: string[] = [];
+    const recordAs =
+      (name: string): ListenerMiddleware =>
+      async () => {
+        calls.push(name);
+      };
+    const deny: ListenerMiddleware = async () => {
+      return { status: 200, body: "denied" };
+    };
+    const admin = new SlackRouter().use(recordAs("admin")).command("/reset", [deny], async () => "Reset!");
+    const root = new SlackRouter().use(recordAs("root")).mount(admin);
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.mount(root);
+    app.command("/help", async () => "Help!");
+
+    const reset = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/reset")));
+    assert.equal(await reset.text(), "denied");
+    assert.deepEqual(calls, ["root", "admin"]);
+
+    const help = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/help")));
+    assert.equal(await help.text(), "Help!");
+    assert.deepEqual(calls, ["root", "admin"]);
+  });
+
+  test("composes the prefixes of nested routers", async () => {
+    const calls: string[] = [];
+    const invoices = new SlackRouter().action({ type: "button", action_id: "approve" }, async () => {
+      calls.push("approve");
+    });
+    const billing = new SlackRouter().mount(invoices, { prefix: "invoices:" });
+    const app = new SlackApp({ env, authorize: mockAuthorize }).mount(billing, { prefix: "billing:" });
+
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("invoices:approve")));
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("billing:invoices:approve")));
+    assert.deepEqual(calls, ["approve"]);
+  });
+
+  test("prefixes regular expression patterns", () => {
+    assert.equal(prefixPattern("", "approve"), "approve");
+    const anchored = prefixPattern("a.b:", /^approve-\d+$/i) as RegExp;
+    assert.isTrue(anchored.test("A.B:APPROVE-1"));
+    assert.isFalse(anchored.test("axb:approve-1"));
+    assert.isFalse(anchored.test("approve-1"));
+    const unanchored = prefixPattern("billing:", /approve/) as RegExp;
+    assert.isTrue(unanchored.test("billing:invoice-approve"));
+    assert.isFalse(unanchored.test("other:approve"));
+    assert.deepEqual([..."billing:approve-12".match(prefixPattern("billing:", /^approve-(\d+)$/) as RegExp)!], ["approve-12", "12"]);
+  });
+
+  test("keeps the alternations and anchors in regular expression patterns", () => {
+    const alternation = prefixPattern("billing:", /^approve$|^reject$/) as RegExp;
+    assert.isTrue(alternation.test("billing:approve"));
+    assert.isTrue(alternation.test("billing:reject"));
+    assert.isFalse(alternation.test("reject"));
+    assert.isFalse(alternation.test("billing:approve-all"));
+    const endAnchored = prefixPattern("billing:", /approve$/) as RegExp;
+    assert.isTrue(endAnchored.test("billing:invoice-approve"));
+    assert.isFalse(endAnchored.test("billing:approve-all"));
+    assert.deepEqual("billing:a,b".split(prefixPattern("billing:", /,/) as RegExp), ["billing:a", "b"]);
+  });
+
+  test("registers the function-scoped listeners with the namespace prefix", async () => {
+    const calls: string[] = [];
+    const functionData = {
+      bot_access_token: "xwfp-test",
+      function_data: { execution_id: "Fx111", function: { callback_id: "approve_request" }, inputs: {} },
+    };
+    const approvals = new SlackRouter()
+      .function("approve_request", async () => {})
+      .action("approve", async () => {
+        calls.push("approve");
+      })
+      .use(async () => {
+        calls.push("middleware");
+      });
+    const app = new SlackApp({ env, authorize: mockAuthorize }).mount(approvals, { prefix: "approvals:" });
+
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approvals:approve")));
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approve", "b", functionData)));
+    assert.deepEqual(calls, []);
+    await app.run(await createSignedRequest(signingSecret, blockActionBody("approvals:approve", "b", functionData)));
+    assert.deepEqual(calls, ["middleware", "approve"]);
+  });
+});
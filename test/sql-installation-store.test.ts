@@ -0,0 +1,178 @@
+import { afterEach, assert, beforeEach, test, describe, vi } from "vitest";
+import {
+  D1Database,
+  D1Executor,
+  Installation,
+  PreAuthorizeSlackMiddlewareRequest,
+  SlackOAuthEnv,
+  SQLiteDatabase,
+  SQLiteExecutor,
+  SQLInstallationStore,
+  SQLValue,
+} from "../src/index";
+
+const env: SlackOAuthEnv = {
+  SLACK_CLIENT_ID: "111.222",
+  SLACK_CLIENT_SECRET: "xxx",
+  SLACK_BOT_SCOPES: "commands,chat:write",
+  SLACK_SIGNING_SECRET: "test",
+};
+
+// node:sqlite is available since Node.js 22.5; these tests are skipped on older runtimes
+async function openDatabase(): Promise<SQLiteDatabase | undefined> {
+  const moduleName = "node:sqlite";
+  try {
+    const { DatabaseSync } = await import(moduleName);
+    return new DatabaseSync(":memory:");
+  } catch {
+    return undefined;
+  }
+}
+
+const installation = (overrides: Partial<Installation> = {}): Installation => ({
+  app_id: "A111",
+  enterprise_id: "E111",
+  team_id: "T111",
+  user_id: "U111",
+  bot_token: "xoxb-1",
+  bot_user_id: "UB111",
+  bot_scopes: ["commands", "chat:write"],
+  user_token: "xoxp-1",
+  user_scopes: ["search:read"],
+  ...overrides,
+});
+
+const authorizeRequest = (context: object) =>
+  ({ env, context, body: {}, rawBody: "", headers: new Headers() }) as unknown as PreAuthorizeSlackMiddlewareRequest<SlackOAuthEnv>;
+
+describe("SQLInstallationStore", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", async () => {
+      const body = { ok: true, bot_id: "B111", user_id: "UB111", team_id: "T111", enterprise_id: "E111", team: "Example" };
+      return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("finds the latest bot and user installations per team", async ({ skip }) => {
+    const db = await openDatabase();
+    if (!db) return skip();
+    const store = new SQLInstallationStore(env, new SQLiteExecutor(db));
+    await store.migrate();
+    await store.save(installation());
+    await store.save(installation({ user_id: "U222", bot_token: "xoxb-2", user_token: "xoxp-2" }));
+    await store.save(installation({ user_id: "U333", bot_token: undefined, user_token: "xoxp-3" }));
+    await store.save(installation({ team_id: "T999", bot_token: "xoxb-other" }));
+
+    const bot = await store.findBotInstallation({ enterpriseId: "E111", teamId: "T111" });
+    assert.equal(bot?.bot_token, "xoxb-2");
+    assert.deepEqual(bot?.bot_scopes, ["commands", "chat:write"]);
+    assert.isFalse(bot?.is_enterprise_install);
+    assert.equal((await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111", userId: "U111" }))?.user_token, "xoxp-1");
+    assert.equal((await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111" }))?.user_token, "xoxp-3");
+    assert.isUndefined(await store.findBotInstallation({ teamId: "T111" }));
+
+    await store.deleteUserInstallation({ enterpriseId: "E111", teamId: "T111", userId: "U333" });
+    assert.isUndefined(await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111", userId: "U333" }));
+    await store.deleteBotInstallation({ enterpriseId: "E111", teamId: "T111" });
+    assert.isUndefined(await store.findBotInstallation({ enterpriseId: "E111", teamId: "T111" }));
+    assert.equal((await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111", userId: "U222" }))?.user_token, "xoxp-2");
+    await store.deleteAll({ enterpriseId: "E111", teamId: "T111" });
+    assert.isUndefined(await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111" }));
+    assert.equal((await store.findBotInstallation({ enterpriseId: "E111", teamId: "T999" }))?.bot_token, "xoxb-other");
+  });
+
+  test("keeps only the latest bot token per org/team and user token per user", async ({ skip }) => {
+    const db = await openDatabase();
+    if (!db) return skip();
+    const executor = new SQLiteExecutor(db);
+    const store = new SQLInstallationStore(env, executor);
+    for (let i = 1; i <= 5; i++) {
+      await store.save(installation({ bot_token: `xoxb-${i}`, user_token: `xoxp-${i}` }));
+    }
+    // A refreshed bot token is saved without the user token
+    await store.save(installation({ bot_token: "xoxb-6", user_token: undefined, user_scopes: undefined }));
+    await store.save(installation({ user_id: "U222", bot_token: undefined, user_token: "xoxp-u222" }));
+    // Another user reinstalls the app, which replaces the bot token for the whole team
+    await store.save(installation({ user_id: "U333", bot_token: "xoxb-7", user_token: "xoxp-u333" }));
+
+    const rows = await executor.query<{ user_id: string; bot_token: string | null; user_token: string | null }>(
+      "SELECT user_id, bot_token, user_token FROM slack_installations ORDER BY id",
+    );
+    assert.deepEqual(
+      rows.map((r) => ({ ...r })),
+      [
+        { user_id: "U111", bot_token: null, user_token: "xoxp-5" },
+        { user_id: "U222", bot_token: null, user_token: "xoxp-u222" },
+        { user_id: "U333", bot_token: "xoxb-7", user_token: "xoxp-u333" },
+      ],
+    );
+    assert.equal((await store.findBotInstallation({ enterpriseId: "E111", teamId: "T111" }))?.bot_token, "xoxb-7");
+    assert.equal((await store.findUserInstallation({ enterpriseId: "E111", teamId: "T111", userId: "U111" }))?.user_token, "xoxp-5");
+  });
+
+  test("handles org-wide installations", async ({ skip }) => {
+    const db = await openDatabase();
+    if (!db) return skip();
+    const store = new SQLInstallationStore(env, new SQLiteExecutor(db));
+    await store.save(installation({ is_enterprise_install: true, team_id: undefined, bot_token: "xoxb-org" }));
+
+    const bot = await store.findBotInstallation({ enterpriseId: "E111", teamId: "T123", isEnterpriseInstall: true });
+    assert.equal(bot?.bot_token, "xoxb-org");
+    assert.isTrue(bot?.is_enterprise_install);
+    assert.isUndefined(bot?.team_id);
+    assert.isUndefined(await store.findBotInstallation({ enterpriseId: "E111", teamId: "T123" }));
+    await store.deleteAll({ enterpriseId: "E111", isEnterpriseInstall: true });
+    assert.isUndefined(await store.findBotInstallation({ enterpriseId: "E111", isEnterpriseInstall: true }));
+  });
+
+  test("resolves the user token of the installer or the actor", async ({ skip }) => {
+    const db = await openDatabase();
+    if (!db) return skip();
+    const store = new SQLInstallationStore(env, new SQLiteExecutor(db));
+    await store.save(installation());
+    await store.save(installation({ user_id: "U222", bot_token: "xoxb-2", user_token: "xoxp-2" }));
+    const context = { enterpriseId: "E111", teamId: "T111", userId: "U111", actorUserId: "U111" };
+
+    const installer = await store.toAuthorize()(authorizeRequest(context));
+    assert.equal(installer.botToken, "xoxb-2");
+    assert.equal(installer.botId, "B111");
+    assert.equal(installer.userToken, "xoxp-2");
+
+    const actorEnv: SlackOAuthEnv = { ...env, SLACK_USER_TOKEN_RESOLUTION: "actor" };
+    const actor = await store.toAuthorize()({ ...authorizeRequest(context), env: actorEnv });
+    assert.equal(actor.userId, "U111");
+    assert.equal(actor.userToken, "xoxp-1");
+
+    try {
+      await store.toAuthorize()(authorizeRequest({ enterpriseId: "E111", teamId: "T999" }));
+      assert.fail("The authorize function must fail");
+    } catch (e) {
+      assert.include((e as Error).message, "No installation found");
+    }
+  });
+
+  test("works with D1-compatible executors", async ({ skip }) => {
+    const db = await openDatabase();
+    if (!db) return skip();
+    const statements: string[] = [];
+    const d1: D1Database = {
+      prepare(sql: string) {
+        statements.push(sql);
+        const statement = (params: SQLValue[]) => ({
+          bind: (...values: SQLValue[]) => statement(values),
+          all: async <T>() => ({ results: db.prepare(sql).all(...params) as T[] }),
+        });
+        return statement([]);
+      },
+    };
+    const store = new SQLInstallationStore(env, new D1Executor(d1), { tableName: "installations" });
+    await store.save(installation());
+    await store.migrate();
+    assert.equal((await store.findBotInstallation({ enterpriseId: "E111", teamId: "T111" }))?.bot_token, "xoxb-1");
+    assert.equal(statements.filter((s) => s.startsWith("CREATE TABLE IF NOT EXISTS installations (")).length, 1);
+  });
+});
@@ -0,0 +1,51 @@
+import { assert, test, describe } from "vitest";
+import { SlackApp, SlackEdgeAppEnv } from "../src/index";
+import { buildCodeSuggestion } from "../src/utility/code-suggestion";
+import {
+  blockActionBody,
+  createSignedFormRequest,
+  createSignedRequest,
+  eventBody,
+  mockAuthorize,
+  slashCommandParams,
+} from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+describe("Unhandled requests", () => {
+  test("acknowledges events silently by default", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    const event = { type: "reaction_added", user: "U222", reaction: "eyes", item: { type: "message", channel: "C111", ts: "111.222" } };
+    const response = await app.run(await createSignedRequest(signingSecret, eventBody(event)));
+    assert.equal(response.status, 200);
+    assert.equal(await response.text(), "");
+  });
+
+  test("replies to unknown slash commands by default", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    const response = await app.run(await createSignedFormRequest(signingSecret, slashCommandParams("/unknown")));
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { response_type: "ephemeral", text: "Sorry, /unknown is not supported yet." });
+  });
+
+  test("runs the registered handler", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.unhandled(async ({ body }) => {
+      return { status: 404, body: `No listener for ${body.type}` };
+    });
+    const response = await app.run(await createSignedRequest(signingSecret, blockActionBody("approve")));
+    assert.equal(response.status, 404);
+    assert.equal(await response.text(), "No listener for block_actions");
+  });
+
+  test("suggests the listener code", () => {
+    assert.equal(
+      buildCodeSuggestion(blockActionBody("approve", "approval-block")),
+      `app.action({ type: "button", action_id: "approve", block_id: "approval-block" }, async (req) => {\n});`,
+    );
+    assert.equal(buildCodeSuggestion(slashCommandParams("/deploy")), `app.command("/deploy", async (req) => {\n  return "Got it!";\n});`);
+    assert.equal(buildCodeSuggestion(eventBody({ type: "app_mention" })), `app.event("app_mention", async ({ payload }) => {\n});`);
+    assert.isUndefined(buildCodeSuggestion({ type: "unknown" }));
+  });
+});
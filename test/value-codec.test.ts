@@ -0,0 +1,175 @@
+import { afterEach, assert, test, describe, vi } from "vitest";
+import { SlackApp, SlackEdgeAppEnv, ValueCodec, ValueCodecError } from "../src/index";
+import { blockActionBody, createSignedRequest, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = {
+  SLACK_SIGNING_SECRET: signingSecret,
+  SLACK_BOT_TOKEN: "xoxb-test",
+};
+const valueCodec = new ValueCodec({ secret: "test-value-secret" });
+
+const viewSubmissionBody = (callbackId: string, privateMetadata: string) => ({
+  type: "view_submission",
+  team: { id: "T111", domain: "example" },
+  user: { id: "U222", username: "someone", team_id: "T111" },
+  api_app_id: "A111",
+  token: "test-token",
+  trigger_id: "111.222.xxx",
+  view: { id: "V111", type: "modal", callback_id: callbackId, private_metadata: privateMetadata, state: { values: {} } },
+});
+
+const buttonAction = (actionId: string, value: string) => ({
+  type: "button",
+  block_id: "b",
+  action_id: actionId,
+  text: { type: "plain_text", text: "Click" },
+  value,
+  action_ts: "1700000000.000001",
+});
+
+describe("ValueCodec", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("encodes and decodes typed values", async () => {
+    const codec = new ValueCodec({ secret: "secret" });
+    const value = { orderId: "O123", items: [1, 2, 3], note: "日本語" };
+    const encoded = await codec.encodePrivateMetadata(value);
+    assert.isTrue(codec.isEncoded(encoded));
+    assert.isFalse(codec.isEncoded("plain metadata"));
+    assert.deepEqual(await codec.decode<typeof value>(encoded), value);
+    assert.deepEqual(await new ValueCodec().decode(await new ValueCodec().encodeActionValue("v")), "v");
+  });
+
+  test("rejects tampered and unsigned values when the secret is given", async () => {
+    const codec = new ValueCodec({ secret: "secret" });
+    const encoded = await codec.encodeActionValue({ amount: 100 });
+    const tampered = encoded.replace("100", "999");
+    await assertRejects(codec.decode(tampered), "The value has an invalid signature");
+    await assertRejects(codec.decode(await new ValueCodec({ secret: "other" }).encodeActionValue({ amount: 100 })), "invalid signature");
+    await assertRejects(codec.decode(await new ValueCodec().encodeActionValue({ amount: 100 })), "invalid signature");
+  });
+
+  test("rejects values with malformed base64url data as ValueCodecError", async () => {
+    await assertRejects(new ValueCodec({ secret: "secret" }).decode("j.a:{}"), "The value is malformed");
+    await assertRejects(new ValueCodec().decode("z:a"), "The value is malformed");
+  });
+
+  test("rejects expired values", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const codec = new ValueCodec({ secret: "secret", maxAgeSeconds: 60 });
+    const encoded = await codec.encodeActionValue("v");
+    vi.setSystemTime(new Date("2026-01-01T00:01:00Z"));
+    assert.equal(await codec.decode(encoded), "v");
+    vi.setSystemTime(new Date("2026-01-01T00:01:01Z"));
+    await assertRejects(codec.decode(encoded), "The value has expired");
+  });
+
+  test("compresses values that exceed the limit and fails when they still do not fit", async () => {
+    const codec = new ValueCodec({ secret: "secret" });
+    const repetitive = { rows: Array.from({ length: 200 }, () => "the same text") };
+    const encoded = await codec.encodeActionValue(repetitive);
+    assert.isTrue(encoded.startsWith("z."));
+    assert.isAtMost(encoded.length, 2000);
+    assert.deepEqual(await codec.decode(encoded), repetitive);
+
+    const random = Array.from({ length: 3000 }, (_, i) => ((i * 7919) % 65521).toString(36)).join("");
+    await assertRejects(codec.encodePrivateMetadata(random), "which exceeds 3000");
+  });
+
+  test("passes the decoded values to listeners", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize, valueCodec });
+    const received: unknown[] = [];
+    app.action("approve", async ({ actionValue }) => {
+      received.push(actionValue);
+    });
+    app.view("order_modal", async ({ metadata }) => {
+      received.push(metadata);
+    });
+    const actionValue = await valueCodec.encodeActionValue({ orderId: "O123" });
+    await app.run(
+      await createSignedRequest(signingSecret, blockActionBody("approve", "b", { actions: [buttonAction("approve", actionValue)] })),
+    );
+    const metadata = await valueCodec.encodePrivateMetadata({ step: 2 });
+    await app.run(await createSignedRequest(signingSecret, viewSubmissionBody("order_modal", metadata)));
+    await app.run(await createSignedRequest(signingSecret, viewSubmissionBody("order_modal", "plain metadata")));
+    assert.deepEqual(received, [{ orderId: "O123" }, { step: 2 }, undefined]);
+  });
+
+  test("rejects the values that fail verification through the error handler", async () => {
+    const errors: unknown[] = [];
+    const app = new SlackApp({
+      env,
+      authorize: mockAuthorize,
+      valueCodec,
+      errorHandler: async ({ phase, error }) => {
+        errors.push(phase, error);
+        return { status: 400, body: "" };
+      },
+    });
+    const received: unknown[] = [];
+    app.action("approve", async ({ actionValue }) => {
+      received.push(actionValue);
+    });
+    const tampered = (await valueCodec.encodeActionValue({ amount: 100 })).replace("100", "999");
+    const otherKey = await new ValueCodec({ secret: "other" }).encodeActionValue({ amount: 100 });
+    for (const value of [tampered, otherKey, "z:%%%"]) {
+      const response = await app.run(
+        await createSignedRequest(signingSecret, blockActionBody("approve", "b", { actions: [buttonAction("approve", value)] })),
+      );
+      assert.equal(response.status, 400);
+    }
+    assert.deepEqual(received, []);
+    assert.equal(errors.length, 6);
+    for (let i = 0; i < errors.length; i += 2) {
+      assert.equal(errors[i], "middleware");
+      assert.instanceOf(errors[i + 1], ValueCodecError);
+    }
+
+    const response = await app.run(
+      await createSignedRequest(signingSecret, blockActionBody("approve", "b", { actions: [buttonAction("approve", "plain value")] })),
+    );
+    assert.equal(response.status, 200);
+    assert.deepEqual(received, [undefined]);
+  });
+
+  test("creates the codec from SLACK_VALUE_SIGNING_SECRET", async () => {
+    const app = new SlackApp({ env: { ...env, SLACK_VALUE_SIGNING_SECRET: "test-value-secret" }, authorize: mockAuthorize });
+    const received: unknown[] = [];
+    app.action("approve", async ({ actionValue }) => {
+      received.push(actionValue);
+    });
+    const actionValue = await valueCodec.encodeActionValue({ orderId: "O123" });
+    await app.run(
+      await createSignedRequest(signingSecret, blockActionBody("approve", "b", { actions: [buttonAction("approve", actionValue)] })),
+    );
+    assert.deepEqual(received, [{ orderId: "O123" }]);
+  });
+
+  test("does not decode any values without valueCodec or the secret", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    const received: unknown[] = [];
+    app.action("approve", async ({ actionValue }) => {
+      received.push(actionValue);
+    });
+    const actionValue = await valueCodec.encodeActionValue({ orderId: "O123" });
+    await app.run(
+      await createSignedRequest(signingSecret, blockActionBody("approve", "b", { actions: [buttonAction("approve", actionValue)] })),
+    );
+    assert.deepEqual(received, [undefined]);
+  });
+});
+
+async function assertRejects(promise: Promise<unknown>, message: string) {
+  try {
+    await promise;
+  } catch (e) {
+    assert.instanceOf(e, ValueCodecError);
+    assert.include((e as Error).message, message);
+    return;
+  }
+  assert.fail("The promise must be rejected");
+}
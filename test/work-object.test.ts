@@ -0,0 +1,150 @@
+import { afterEach, assert, beforeEach, test, describe, vi } from "vitest";
+import { SlackApp, SlackEdgeAppEnv, taskEntity } from "../src/index";
+import { CollectingExecutionContext, createSignedRequest, eventBody, mockAuthorize } from "./request-helpers";
+
+const signingSecret = "test-signing-secret";
+const env: SlackEdgeAppEnv = { SLACK_SIGNING_SECRET: signingSecret, SLACK_BOT_TOKEN: "xoxb-test" };
+
+const task = (id: string, locale?: string) =>
+  taskEntity({
+    url: `https://tasks.example.com/${id}`,
+    external_ref: { id, type: "task" },
+    entity_payload: {
+      attributes: { title: { text: `Task ${id}` }, locale },
+      fields: { status: { value: "open" } },
+    },
+  });
+
+const entityDetailsRequested = (url: string, externalRefType?: string) => ({
+  type: "entity_details_requested",
+  user: "U222",
+  trigger_id: "111.222.xxx",
+  link: { url, domain: new URL(url).hostname },
+  entity_url: url,
+  user_locale: "ja-JP",
+  event_ts: "1700000000.000001",
+  external_ref: { id: "T1", type: externalRefType },
+});
+
+describe("Work Objects", () => {
+  let apiCalls: { method: string; body: URLSearchParams }[] = [];
+
+  beforeEach(() => {
+    apiCalls = [];
+    vi.stubGlobal("fetch", async (request: Request) => {
+      apiCalls.push({ method: new URL(request.url).pathname.split("/").pop()!, body: new URLSearchParams(await request.text()) });
+      return new Response(JSON.stringify({ ok: true }), { status: 200, headers: { "Content-Type": "application/json" } });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("presents the entity details returned by the matching handler", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.entityDetails("incident", async () => {
+      throw new Error("must not be called");
+    });
+    app.entityDetails("task", async ({ payload, userLocale }) => task(payload.external_ref!.id, userLocale));
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(entityDetailsRequested("https://tasks.example.com/T1", "task"))), ctx);
+    await ctx.settle();
+
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].method, "entity.presentDetails");
+    assert.equal(apiCalls[0].body.get("trigger_id"), "111.222.xxx");
+    assert.deepEqual(JSON.parse(apiCalls[0].body.get("metadata")!), {
+      entity_type: "slack#/entities/task",
+      url: "https://tasks.example.com/T1",
+      external_ref: { id: "T1", type: "task" },
+      entity_payload: { attributes: { title: { text: "Task T1" }, locale: "ja-JP" }, fields: { status: { value: "open" } } },
+    });
+  });
+
+  test("asks the user to connect their account", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.entityDetails(/^https:\/\/tasks\.example\.com\/(\w+)$/, async ({ matches, triggerId }) => {
+      assert.equal(matches?.[1], "T1");
+      assert.equal(triggerId, "111.222.xxx");
+      return { user_auth_required: true, user_auth_url: "https://tasks.example.com/connect" };
+    });
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(entityDetailsRequested("https://tasks.example.com/T1"))), ctx);
+    await ctx.settle();
+
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].body.get("user_auth_required"), "true");
+    assert.equal(apiCalls[0].body.get("user_auth_url"), "https://tasks.example.com/connect");
+  });
+
+  test("shows the error in the flexpane when the handler fails", async () => {
+    const errors: Error[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.entityDetails("task", async () => {
+      throw new Error("the task tracker is down");
+    });
+    app.error(async ({ error }) => {
+      errors.push(error);
+    });
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(entityDetailsRequested("https://tasks.example.com/T1", "task"))), ctx);
+    await ctx.settle();
+
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].method, "entity.presentDetails");
+    assert.equal(apiCalls[0].body.get("trigger_id"), "111.222.xxx");
+    assert.deepEqual(JSON.parse(apiCalls[0].body.get("error")!), { status: "internal_error" });
+    assert.isNull(apiCalls[0].body.get("metadata"));
+    assert.deepEqual(
+      errors.map((e) => e.message),
+      ["the task tracker is down"],
+    );
+  });
+
+  test("passes the failure in showing the error to the error handler as well", async () => {
+    vi.stubGlobal("fetch", async () => {
+      return new Response(JSON.stringify({ ok: false, error: "invalid_trigger" }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+    const errors: Error[] = [];
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.entityDetails("task", async () => {
+      throw new Error("the task tracker is down");
+    });
+    app.error(async ({ error }) => {
+      errors.push(error);
+    });
+    const ctx = new CollectingExecutionContext();
+    await app.run(await createSignedRequest(signingSecret, eventBody(entityDetailsRequested("https://tasks.example.com/T1", "task"))), ctx);
+    await ctx.settle();
+
+    assert.equal(errors.length, 2);
+    assert.include(errors[0].message, "invalid_trigger");
+    assert.equal(errors[1].message, "the task tracker is down");
+  });
+
+  test("unfurls links with the same entity metadata", async () => {
+    const app = new SlackApp({ env, authorize: mockAuthorize });
+    app.unfurl(/^https:\/\/tasks\.example\.com\/(\w+)$/, async ({ matches }) => task(matches![1]));
+    const ctx = new CollectingExecutionContext();
+    const event = {
+      type: "link_shared",
+      channel: "C111",
+      is_bot_user_member: true,
+      user: "U222",
+      message_ts: "1700000000.000100",
+      links: [{ domain: "tasks.example.com", url: "https://tasks.example.com/T1" }],
+      event_ts: "1700000000.000200",
+    };
+    await app.run(await createSignedRequest(signingSecret, eventBody(event)), ctx);
+    await ctx.settle();
+
+    assert.equal(apiCalls.length, 1);
+    assert.equal(apiCalls[0].method, "chat.unfurl");
+    assert.isNull(apiCalls[0].body.get("unfurls"));
+    assert.deepEqual(JSON.parse(apiCalls[0].body.get("metadata")!), { entities: [JSON.parse(JSON.stringify(task("T1")))] });
+  });
+});